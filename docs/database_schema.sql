@@ -8,25 +8,46 @@
 -- Main document registry
 CREATE TABLE income_registry (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  doc_id TEXT UNIQUE NOT NULL,           -- Google Drive file ID
+  doc_id TEXT UNIQUE NOT NULL,           -- Generated UUID (earlier rows: Google Drive file ID)
   file_name TEXT NOT NULL,
   mime_type TEXT NOT NULL,
-  created_at TIMESTAMPTZ NOT NULL,       -- Google Drive creation time
+  created_at TIMESTAMPTZ NOT NULL,       -- Google Drive creation time (email: Date header)
+
+  -- Ingestion source
+  source TEXT NOT NULL DEFAULT 'google_drive', -- google_drive, email, upload, local_path
+  source_key TEXT UNIQUE,                 -- The source's identity of the file, e.g. google_drive:{fileId}
+  source_metadata JSONB,                  -- Source details: Drive file ID, email provenance, uploader, path
+
+  -- Multi-document PDFs: children are cut out of the parent's page range
+  parent_doc_id TEXT REFERENCES income_registry(doc_id) ON DELETE CASCADE,
+  page_start INTEGER,                     -- 1-based, inclusive (children only)
+  page_end INTEGER,
+
+  -- Content fingerprint (set after download)
+  content_sha256 TEXT,                    -- SHA-256 of the downloaded bytes
+  md5_checksum TEXT,                      -- As reported by Google Drive
+  duplicate_of TEXT REFERENCES income_registry(doc_id) ON DELETE SET NULL,
+  duplicate_score NUMERIC,                -- 1 for identical files, 0-1 for suspected duplicates
 
   -- Classification
-  classification TEXT,                    -- invoice, bank_statement, government_letter, unknown
+  classification TEXT,                    -- invoice, bank_statement, government_letter, receipt, contract, unknown
   confidence NUMERIC,
   reasoning TEXT,
   possible_type TEXT,                     -- Pre-threshold classification
 
   -- Storage paths
-  storage_path_pdf TEXT,
+  storage_path_pdf TEXT,                  -- Normalized PDF (images/office files are converted)
+  storage_path_original TEXT,             -- Original image/office file, when converted
   storage_path_json TEXT,
 
   -- Processing status
   status TEXT NOT NULL DEFAULT 'new',    -- See status lifecycle in WORKFLOW_DESIGN.md
   error_message TEXT,
 
+  -- Cross-checks of the extracted data (e.g. invoice arithmetic)
+  validation_status TEXT,                 -- passed, warnings, failed
+  validation_report JSONB,                -- {status, issues: [...], derived: [...]}
+
   -- Timestamps
   registered_at TIMESTAMPTZ DEFAULT NOW(),
   processed_at TIMESTAMPTZ,
@@ -37,6 +58,51 @@ CREATE TABLE income_registry (
 CREATE INDEX idx_income_registry_status ON income_registry(status);
 CREATE INDEX idx_income_registry_classification ON income_registry(classification);
 CREATE INDEX idx_income_registry_created_at ON income_registry(created_at DESC);
+CREATE INDEX idx_income_registry_parent_doc_id ON income_registry(parent_doc_id);
+CREATE INDEX idx_income_registry_content_sha256 ON income_registry(content_sha256);
+
+-- ============================================================================
+-- Document flags (anomalies to acknowledge before a document is processed)
+-- ============================================================================
+-- Written by store-metadata from the document type's detectAnomalies hook;
+-- open flags keep income_registry.status at 'flagged'.
+CREATE TABLE document_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doc_id TEXT NOT NULL REFERENCES income_registry(doc_id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,                     -- changed_bank_details, abnormal_amount, unusual_currency, first_time_vendor
+  message TEXT NOT NULL,
+  details JSONB,                          -- e.g. {"ibans": [...], "knownIbans": [...]}
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  acknowledged_at TIMESTAMPTZ,            -- NULL while open
+  acknowledged_by TEXT,
+  UNIQUE (doc_id, kind)
+);
+
+CREATE INDEX idx_document_flags_open ON document_flags(doc_id) WHERE acknowledged_at IS NULL;
+
+-- ============================================================================
+-- Counterparties (canonical vendors, letter senders and payees)
+-- ============================================================================
+-- Linked by store-metadata through each document type's linkCounterparties
+-- hook; corrected with merge-counterparties / split-counterparty.
+CREATE TABLE counterparties (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  canonical_name TEXT NOT NULL,           -- Spelling first seen, or set on split
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Identifiers each counterparty was seen with; one owner per identifier
+CREATE TABLE counterparty_identifiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  counterparty_id UUID NOT NULL REFERENCES counterparties(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,                     -- vat_number, iban, name
+  value TEXT NOT NULL,                    -- Compact VAT number / IBAN; name words without legal form, sorted
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (kind, value)
+);
+
+CREATE INDEX idx_counterparty_identifiers_counterparty_id ON counterparty_identifiers(counterparty_id);
 
 -- ============================================================================
 -- Invoice details
@@ -58,6 +124,7 @@ CREATE TABLE invoices (
   vendor_vat_number TEXT,
   vendor_tax_id TEXT,
   vendor_contact_email TEXT,
+  vendor_counterparty_id UUID REFERENCES counterparties(id) ON DELETE SET NULL,
 
   -- Customer
   customer_name TEXT,
@@ -75,7 +142,11 @@ CREATE TABLE invoices (
   payment_method TEXT,
   payment_bank_details TEXT,  -- ⚠️ CORRECTED: was "bank_details" in old schema
 
-  -- Line items as JSONB (POC scope)
+  -- Payment matching (maintained by reconcile-payments / review-payment-match)
+  payment_status TEXT NOT NULL DEFAULT 'unpaid',  -- unpaid, partially_paid, matched
+  amount_paid NUMERIC NOT NULL DEFAULT 0,         -- Sum of proposed and confirmed payment_matches
+
+  -- Line items as JSONB (as extracted); typed copy in invoice_line_items
   line_items JSONB,
   -- Example: [{"description": "...", "quantity": 10, "unit_price": 100, "vat_rate": 19, "vat_amount": 190, "line_total": 1190}]
 
@@ -84,38 +155,147 @@ CREATE TABLE invoices (
 
 CREATE INDEX idx_invoices_invoice_date ON invoices(invoice_date DESC);
 CREATE INDEX idx_invoices_doc_id ON invoices(doc_id);
+CREATE INDEX idx_invoices_vendor_counterparty_id ON invoices(vendor_counterparty_id);
+CREATE INDEX idx_invoices_total_amount ON invoices(total_amount); -- Duplicate prefilter
+
+-- ============================================================================
+-- Invoice line items (typed copy of invoices.line_items for SQL reporting)
+-- ============================================================================
+-- Rewritten by store-metadata in the same transaction as the invoices row.
+-- Invoice date, currency and vendor are copied so spend can be summed by
+-- line description without a join.
+CREATE TABLE invoice_line_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doc_id TEXT NOT NULL REFERENCES invoices(doc_id) ON DELETE CASCADE,
+  ordinal INTEGER NOT NULL,               -- Position on the invoice (0-based)
+
+  description TEXT NOT NULL,
+  quantity NUMERIC,
+  unit_price NUMERIC,
+  vat_rate NUMERIC,
+  vat_amount NUMERIC,
+  line_total NUMERIC,
+
+  -- From the invoice
+  invoice_date DATE,
+  currency TEXT,
+  vendor_name TEXT,                       -- Counterparty
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (doc_id, ordinal)
+);
+
+CREATE INDEX idx_invoice_line_items_invoice_date ON invoice_line_items(invoice_date DESC);
+CREATE INDEX idx_invoice_line_items_line_total ON invoice_line_items(line_total);
+CREATE INDEX idx_invoice_line_items_vendor_name ON invoice_line_items(vendor_name);
 
 -- ============================================================================
 -- Bank statements
 -- ============================================================================
+-- One row per account section: a PDF covering a current account, a savings
+-- account and a USD sub-account yields three rows with the same doc_id
 CREATE TABLE statements (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  doc_id TEXT UNIQUE NOT NULL REFERENCES income_registry(doc_id) ON DELETE CASCADE,
+  doc_id TEXT NOT NULL REFERENCES income_registry(doc_id) ON DELETE CASCADE,
+  section_index INTEGER NOT NULL DEFAULT 0,  -- Order of the section in the document (0-based)
 
-  -- Document info
+  -- Document info (same on every section)
   bank_name TEXT,
   document_title TEXT,
   period_start DATE,
   period_end DATE,
-  currency TEXT,
   language TEXT,
 
-  -- Account
+  -- Account section
+  account_name TEXT,                      -- Section heading, e.g. "Savings account"
+  currency TEXT,
   holder_name TEXT,
   account_number TEXT,
   iban TEXT,
   opening_balance NUMERIC,
   closing_balance NUMERIC,
 
-  -- Transactions as JSONB (POC scope)
+  -- Transactions as JSONB (as extracted); typed copy in statement_transactions
   transactions JSONB,
   -- Example: [{"date": "2025-01-15", "description": "...", "amount": -100, "balance": 900}]
 
-  created_at TIMESTAMPTZ DEFAULT NOW()
+  -- Balance reconciliation (opening + sum of amounts = closing, running balance chain)
+  reconciliation_status TEXT,             -- reconciled, unreconciled, incomplete
+  expected_closing_balance NUMERIC,       -- opening_balance + sum of amounts
+  balance_difference NUMERIC,             -- closing_balance - expected_closing_balance
+  balance_breaks JSONB,                   -- Rows where the running balance chain breaks
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (doc_id, section_index)
 );
 
 CREATE INDEX idx_statements_period_end ON statements(period_end DESC);
 CREATE INDEX idx_statements_doc_id ON statements(doc_id);
+CREATE INDEX idx_statements_reconciliation_status ON statements(reconciliation_status);
+CREATE INDEX idx_statements_iban_period ON statements(iban, period_start);  -- Continuity report
+
+-- ============================================================================
+-- Statement transactions (typed copy of statements.transactions)
+-- ============================================================================
+-- Rewritten by store-metadata in the same transaction as the statements rows
+CREATE TABLE statement_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doc_id TEXT NOT NULL,
+  section_index INTEGER NOT NULL,
+  ordinal INTEGER NOT NULL,               -- Position within the account section (0-based)
+  fingerprint TEXT NOT NULL,              -- Hash of account, date, amount and text; pins payment matches
+
+  booking_date DATE,                      -- NULL when the printed date could not be normalized
+  description TEXT NOT NULL,
+  counterparty TEXT,                      -- Payer or payee named in the booking text
+  counterparty_id UUID REFERENCES counterparties(id) ON DELETE SET NULL,
+  amount NUMERIC NOT NULL,                -- Negative for debits
+  balance NUMERIC,                        -- Running balance as printed
+  currency TEXT,                          -- From the account section
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (doc_id, section_index, ordinal),
+  UNIQUE (doc_id, fingerprint),
+  FOREIGN KEY (doc_id, section_index)
+    REFERENCES statements(doc_id, section_index) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_statement_transactions_booking_date ON statement_transactions(booking_date DESC);
+CREATE INDEX idx_statement_transactions_amount ON statement_transactions(amount);
+CREATE INDEX idx_statement_transactions_counterparty ON statement_transactions(counterparty);
+CREATE INDEX idx_statement_transactions_counterparty_id ON statement_transactions(counterparty_id);
+
+-- ============================================================================
+-- Payment matches (statement transaction pays invoice)
+-- ============================================================================
+-- Proposed by reconcile-payments whenever an invoice or statement is stored,
+-- decided by review-payment-match. The transaction is pinned by its
+-- fingerprint rather than by statement_transactions.id, because those rows
+-- are rewritten whenever the statement is stored again; the position columns
+-- are moved along, and matches whose transaction is gone are deleted.
+CREATE TABLE payment_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_doc_id TEXT NOT NULL REFERENCES invoices(doc_id) ON DELETE CASCADE,
+  statement_doc_id TEXT NOT NULL,
+  section_index INTEGER NOT NULL,
+  transaction_ordinal INTEGER NOT NULL,   -- statement_transactions.ordinal
+  transaction_fingerprint TEXT NOT NULL,  -- statement_transactions.fingerprint
+
+  amount NUMERIC NOT NULL,                -- Applied to the invoice (less than its total for partial payments)
+  confidence NUMERIC NOT NULL,            -- 0-1
+  signals TEXT[] NOT NULL,                -- currency, booking_date, amount | partial_amount, invoice_number, vendor_name
+
+  status TEXT NOT NULL DEFAULT 'proposed',  -- proposed, confirmed, rejected
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  decided_at TIMESTAMPTZ,
+
+  UNIQUE (invoice_doc_id, statement_doc_id, transaction_fingerprint),
+  FOREIGN KEY (statement_doc_id, section_index)
+    REFERENCES statements(doc_id, section_index) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_payment_matches_transaction ON payment_matches(statement_doc_id, section_index, transaction_ordinal);
+CREATE INDEX idx_payment_matches_status ON payment_matches(status);
 
 -- ============================================================================
 -- Official letters (government, tax notices, etc.)
@@ -142,6 +322,7 @@ CREATE TABLE letters (
   sender_country TEXT,
   sender_contact_title TEXT,
   sender_reference TEXT,
+  sender_counterparty_id UUID REFERENCES counterparties(id) ON DELETE SET NULL,
 
   -- Recipient
   recipient_organization TEXT,
@@ -160,6 +341,125 @@ CREATE TABLE letters (
 CREATE INDEX idx_letters_letter_date ON letters(letter_date DESC);
 CREATE INDEX idx_letters_due_date ON letters(due_date);
 CREATE INDEX idx_letters_doc_id ON letters(doc_id);
+CREATE INDEX idx_letters_sender_counterparty_id ON letters(sender_counterparty_id);
+
+-- ============================================================================
+-- Receipts and expense slips (fuel, meals, taxis, ...)
+-- ============================================================================
+CREATE TABLE receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doc_id TEXT UNIQUE NOT NULL REFERENCES income_registry(doc_id) ON DELETE CASCADE,
+
+  -- Document info
+  receipt_number TEXT,
+  receipt_date DATE,
+  receipt_time TIME,
+  currency TEXT,
+  language TEXT,
+  category TEXT,  -- fuel, meals, taxi, public_transport, parking, accommodation, office_supplies, other
+
+  -- Merchant
+  merchant_name TEXT,
+  merchant_address TEXT,
+  merchant_vat_number TEXT,
+
+  -- Payment
+  payment_method TEXT,  -- cash, card, mobile, other
+  card_last_four TEXT,
+
+  -- Amounts
+  subtotal NUMERIC,
+  total_vat NUMERIC,
+  tip NUMERIC,
+  total_amount NUMERIC,
+
+  -- Tax lines per VAT rate as JSONB (POC scope)
+  tax_lines JSONB,
+  -- Example: [{"vat_rate": 19, "net_amount": 42.02, "vat_amount": 7.98, "gross_amount": 50.00}]
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_receipts_receipt_date ON receipts(receipt_date DESC);
+CREATE INDEX idx_receipts_category ON receipts(category);
+CREATE INDEX idx_receipts_doc_id ON receipts(doc_id);
+
+-- ============================================================================
+-- Contracts (service agreements, leases, subscriptions)
+-- ============================================================================
+CREATE TABLE contracts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doc_id TEXT UNIQUE NOT NULL REFERENCES income_registry(doc_id) ON DELETE CASCADE,
+
+  -- Document info
+  title TEXT,
+  contract_type TEXT,  -- service_agreement, lease, subscription, license, other
+  reference_number TEXT,
+  signing_date DATE,
+  language TEXT,
+
+  -- Parties as JSONB (POC scope)
+  parties JSONB,
+  -- Example: [{"name": "ACME GmbH", "role": "provider", "address": "...", "vat_number": "DE123456789"}]
+
+  -- Term
+  start_date DATE,
+  end_date DATE,                          -- End of current term (next renewal date if auto-renewing)
+  auto_renewal BOOLEAN,
+  renewal_period_months INTEGER,
+  notice_period_value INTEGER,
+  notice_period_unit TEXT,                -- days, weeks, months
+
+  -- Last day to give notice before end_date (derived, always in sync)
+  notice_deadline DATE GENERATED ALWAYS AS (
+    CASE notice_period_unit
+      WHEN 'days' THEN end_date - notice_period_value
+      WHEN 'weeks' THEN end_date - notice_period_value * 7
+      WHEN 'months' THEN (end_date - make_interval(months => notice_period_value))::date
+    END
+  ) STORED,
+
+  -- Recurring fee
+  fee_amount NUMERIC,
+  fee_currency TEXT,
+  fee_frequency TEXT,  -- monthly, quarterly, yearly, one_time, other
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_contracts_end_date ON contracts(end_date);
+CREATE INDEX idx_contracts_notice_deadline ON contracts(notice_deadline);
+CREATE INDEX idx_contracts_doc_id ON contracts(doc_id);
+
+-- Upcoming cancellation windows:
+-- SELECT doc_id, title, end_date, notice_deadline
+-- FROM contracts
+-- WHERE notice_deadline >= CURRENT_DATE
+-- ORDER BY notice_deadline;
+
+-- ============================================================================
+-- Drive sync state (cron watcher position in the Drive change log)
+-- ============================================================================
+-- Written by packages/cron after every successful run; a missing or expired
+-- page token makes the next run list the whole folder again
+CREATE TABLE drive_sync_state (
+  folder_id TEXT PRIMARY KEY,             -- Google Drive inbox folder
+  page_token TEXT NOT NULL,               -- changes.list token to resume from
+  last_synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_full_sync_at TIMESTAMPTZ           -- NULL until the first full resync
+);
+
+-- ============================================================================
+-- Email sync state (IMAP ingestion position)
+-- ============================================================================
+-- Written by ingest-email after every IMAP poll. The \Seen flag of the shared
+-- mailbox is left to its readers; a changed UIDVALIDITY restarts at UID 0
+CREATE TABLE email_sync_state (
+  mailbox TEXT PRIMARY KEY,               -- user@host/mailbox
+  uid_validity BIGINT NOT NULL,           -- UIDVALIDITY the UIDs belong to
+  last_uid BIGINT NOT NULL,               -- Every message up to this UID was ingested
+  last_synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
 
 -- ============================================================================
 -- JSONB Column Examples
@@ -177,6 +477,40 @@ CREATE INDEX idx_letters_doc_id ON letters(doc_id);
 --   }
 -- ]
 
+-- income_registry.validation_report example:
+-- {
+--   "status": "failed",
+--   "issues": [
+--     {
+--       "check": "total_amount",
+--       "severity": "error",
+--       "path": "amounts.total_amount",
+--       "message": "Subtotal plus total VAT does not equal the total amount",
+--       "expected": 124879.26,
+--       "actual": 120000.00,
+--       "difference": -4879.26,
+--       "tolerance": 0.02
+--     },
+--     {
+--       "check": "date_format",
+--       "severity": "warning",
+--       "path": "document_info.due_date",
+--       "message": "Could not read date \"04/09/2025\": day and month order is ambiguous (2025-09-04 or 2025-04-09)",
+--       "expected": null,
+--       "actual": "04/09/2025",
+--       "difference": null,
+--       "tolerance": null
+--     }
+--   ],
+--   "derived": [
+--     {
+--       "path": "line_items.0.vat_amount",
+--       "value": 1197.32,
+--       "rule": "line_total - line_total / (1 + vat_rate)"
+--     }
+--   ]
+-- }
+
 -- statements.transactions example:
 -- [
 --   {
@@ -193,13 +527,63 @@ CREATE INDEX idx_letters_doc_id ON letters(doc_id);
 --   }
 -- ]
 
+-- statements.balance_breaks example (row 1 amount read with the wrong sign):
+-- [
+--   {
+--     "index": 0,
+--     "date": "2025-08-21",
+--     "description": "Reisekosten",
+--     "expected": 9295.66,
+--     "actual": 13720.28,
+--     "difference": 4424.62,
+--     "likelyCause": "sign_flipped"
+--   }
+-- ]
+
+-- receipts.tax_lines example:
+-- [
+--   {
+--     "vat_rate": 7.0,
+--     "net_amount": 18.69,
+--     "vat_amount": 1.31,
+--     "gross_amount": 20.00
+--   },
+--   {
+--     "vat_rate": 19.0,
+--     "net_amount": 4.20,
+--     "vat_amount": 0.80,
+--     "gross_amount": 5.00
+--   }
+-- ]
+
 -- ============================================================================
 -- Document Status Lifecycle
 -- ============================================================================
--- new → downloading → downloaded → classifying → classified → storing → stored
---   → extracting → extracted → saving_metadata → processed
+-- new → downloading → downloaded → segmenting → downloaded → classifying
+--   → classified → storing → stored → extracting → extracted
+--   → saving_metadata → processed
+--
+-- Multi-document PDFs: the parent goes segmenting → downloaded → storing
+--   → stored → saving_metadata → split; each child starts at downloaded and
+--   follows the normal lifecycle
+--
+-- Duplicates: downloading → duplicate when the SHA-256 matches an earlier
+--   document (duplicate_of points at it; no Claude calls are made)
+--
+-- Validation: saving_metadata → needs_review when the extracted data fails a
+--   hard cross-check (validation_report lists every discrepancy)
+--
+-- Suspected duplicates: saving_metadata → suspected_duplicate when the
+--   extracted data matches an earlier record (e.g. the same invoice number,
+--   vendor VAT number, date and total); the record is stored and
+--   duplicate_of / duplicate_score point at the earlier document
+--
+-- Anomalies: saving_metadata → flagged when the document type's
+--   detectAnomalies hook raises flags (e.g. changed bank details on a known
+--   vendor's invoice); acknowledge-document-flags → processed once none is open
 --
 -- Error states: download_failed, classification_failed, store_failed,
---               extraction_failed, metadata_storage_failed, rejected
+--               extraction_failed, metadata_storage_failed, rejected,
+--               duplicate, suspected_duplicate, needs_review, flagged
 --
 -- See WORKFLOW_DESIGN.md for complete status documentation
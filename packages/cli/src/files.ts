@@ -0,0 +1,86 @@
+import { mkdir, readdir, rename, stat } from "node:fs/promises";
+import { basename, dirname, join, relative, sep } from "node:path";
+import { getLocalMimeType } from "../../../trigger/utils/sourceFormats.js";
+
+// Subfolders the workflow (processed/) and the watcher (failed/) move files
+// into; never read as input
+export const PROCESSED_FOLDER = "processed";
+export const FAILED_FOLDER = "failed";
+
+export interface LocalFile {
+  path: string; // Absolute
+  name: string;
+  mimeType: string;
+  size: number;
+  createdTime: string; // ISO 8601
+  modifiedTime: string; // ISO 8601, part of the source key
+  folderPath: string; // Relative to the ingested directory, "" at its root
+}
+
+async function describeFile(path: string, root: string): Promise<LocalFile> {
+  const stats = await stat(path);
+  const folderPath = relative(root, dirname(path));
+  return {
+    path,
+    name: basename(path),
+    mimeType: getLocalMimeType(path) ?? "application/octet-stream",
+    size: stats.size,
+    createdTime: stats.birthtime.toISOString(),
+    modifiedTime: stats.mtime.toISOString(),
+    folderPath: folderPath.split(sep).join("/"),
+  };
+}
+
+/**
+ * Supported files below `root`, walking nested folders except processed/
+ * and failed/. Hidden files (".DS_Store", editor swap files) are skipped.
+ */
+export async function listFiles(root: string): Promise<LocalFile[]> {
+  const files: LocalFile[] = [];
+  const pending = [root];
+  while (pending.length > 0) {
+    const directory = pending.shift()!;
+    const entries = await readdir(directory, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith(".")) continue;
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== PROCESSED_FOLDER && entry.name !== FAILED_FOLDER) {
+          pending.push(path);
+        }
+      } else if (entry.isFile() && getLocalMimeType(path)) {
+        files.push(await describeFile(path, root));
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * A single file given on the command line, e.g. `docflow ingest scan.pdf`
+ */
+export async function getFile(path: string): Promise<LocalFile> {
+  if (!getLocalMimeType(path)) {
+    throw new Error(`${path}: only PDF and image files can be ingested`);
+  }
+  return describeFile(path, dirname(path));
+}
+
+/**
+ * Move a file whose workflow failed into failed/ next to it, the counterpart
+ * of the processed/ folder the local_path source moves stored files into.
+ * Returns the new path, or null when the file is gone (already processed).
+ */
+export async function moveToFailed(path: string): Promise<string | null> {
+  const exists = await stat(path).then(
+    () => true,
+    () => false
+  );
+  if (!exists) return null;
+
+  const failedDir = join(dirname(path), FAILED_FOLDER);
+  const target = join(failedDir, basename(path));
+  await mkdir(failedDir, { recursive: true });
+  await rename(path, target);
+  return target;
+}
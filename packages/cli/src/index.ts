@@ -0,0 +1,193 @@
+#!/usr/bin/env node
+import { stat } from "node:fs/promises";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { getFile, listFiles, type LocalFile } from "./files.js";
+import {
+  DOCUMENT_TYPES,
+  getDocumentType,
+} from "../../../trigger/documentTypes/index.js";
+import {
+  settleFile,
+  triggerFile,
+  waitForRun,
+  type IngestOptions,
+} from "./ingest.js";
+
+// ============================================================================
+// DOCFLOW CLI
+// ============================================================================
+// Pushes local files through process-document-workflow as local_path sources.
+// The task worker reads and moves the files, so run it next to `trigger dev`.
+// Runs through tsx (`pnpm docflow`), which lets it read the document type
+// registry from trigger/ directly.
+
+const DOCUMENT_TYPE_LABELS = DOCUMENT_TYPES.map(type => type.label);
+
+const USAGE = `Usage:
+  docflow ingest <file|dir> [--type <label>] [--wait]
+  docflow watch <dir> [--type <label>] [--interval <seconds>]
+
+Options:
+  --type      Document type label; skips classification. One of:
+              ${DOCUMENT_TYPE_LABELS.join(", ")}
+  --wait      Wait for each workflow and print its WorkflowOutput
+  --interval  Seconds between directory scans in watch mode (default 5)`;
+
+// A file modified more recently is assumed to be still copying in
+const SETTLE_MS = 2000;
+
+/**
+ * Files to ingest for a path: the file itself or the supported files below
+ * the directory
+ */
+async function resolveFiles(path: string): Promise<LocalFile[]> {
+  const stats = await stat(path);
+  return stats.isDirectory() ? listFiles(path) : [await getFile(path)];
+}
+
+function label(file: LocalFile): string {
+  return file.folderPath ? `${file.folderPath}/${file.name}` : file.name;
+}
+
+/**
+ * Wait for a run, move the file into failed/ if it failed and log the result.
+ * Returns whether the workflow succeeded.
+ */
+async function finishFile(
+  file: LocalFile,
+  runId: string,
+  printOutput: boolean
+): Promise<boolean> {
+  const result = await waitForRun(runId);
+  const failedPath = await settleFile(file, result);
+
+  if (result.ok) {
+    console.log(
+      `${failedPath ? "⚠️ " : "✓"} ${label(file)}: ${result.output.status}`
+    );
+    if (printOutput) console.log(JSON.stringify(result.output, null, 2));
+  } else {
+    console.log(`⚠️  ${label(file)}: ${result.error}`);
+  }
+  if (failedPath) console.log(`  Moved to ${failedPath}`);
+  return result.ok && !failedPath;
+}
+
+async function ingest(
+  path: string,
+  options: IngestOptions & { wait: boolean }
+): Promise<boolean> {
+  const files = await resolveFiles(path);
+  if (files.length === 0) {
+    console.log("No PDF or image files to ingest.");
+    return true;
+  }
+
+  console.log(`Triggering workflows for ${files.length} files...`);
+  const triggered: Array<{ file: LocalFile; runId: string }> = [];
+  for (const file of files) {
+    const runId = await triggerFile(file, options);
+    console.log(`  - ${label(file)} (${file.mimeType}) → run ${runId}`);
+    triggered.push({ file, runId });
+  }
+  if (!options.wait) return true;
+
+  console.log("\nWaiting for workflows to finish...");
+  let succeeded = true;
+  for (const { file, runId } of triggered) {
+    if (!(await finishFile(file, runId, true))) succeeded = false;
+  }
+  return succeeded;
+}
+
+async function watch(
+  directory: string,
+  options: IngestOptions & { intervalMs: number }
+): Promise<never> {
+  const stats = await stat(directory);
+  if (!stats.isDirectory()) {
+    throw new Error(`${directory} is not a directory`);
+  }
+  console.log(
+    `Watching ${directory} every ${options.intervalMs / 1000}s (Ctrl+C to stop)`
+  );
+
+  // Path → modifiedTime of files already triggered; a file left in place
+  // (e.g. processed/ could not be written) is not triggered again until it
+  // changes
+  const seen = new Map<string, string>();
+  for (;;) {
+    try {
+      const now = Date.now();
+      for (const file of await listFiles(directory)) {
+        if (seen.get(file.path) === file.modifiedTime) continue;
+        if (now - Date.parse(file.modifiedTime) < SETTLE_MS) continue;
+
+        const runId = await triggerFile(file, options);
+        seen.set(file.path, file.modifiedTime);
+        console.log(`→ ${label(file)} (${file.mimeType}) - run ${runId}`);
+        finishFile(file, runId, false).catch(error => {
+          console.log(
+            `⚠️  ${label(file)}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        });
+      }
+    } catch (error) {
+      console.log(
+        `⚠️  Scan failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    await new Promise(resolve => setTimeout(resolve, options.intervalMs));
+  }
+}
+
+async function main(): Promise<boolean> {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      type: { type: "string" },
+      wait: { type: "boolean", default: false },
+      interval: { type: "string", default: "5" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [command, path] = positionals;
+  if (values.help || !command || !path || positionals.length > 2) {
+    console.log(USAGE);
+    return Boolean(values.help);
+  }
+
+  // Check for TRIGGER_SECRET_KEY (the dev key of the project `trigger dev` serves)
+  if (!process.env.TRIGGER_SECRET_KEY) {
+    throw new Error("TRIGGER_SECRET_KEY environment variable is required");
+  }
+  const type = values.type?.trim() || undefined;
+  if (type && !getDocumentType(type)) {
+    throw new Error(
+      `Unknown document type "${type}"; expected one of: ${DOCUMENT_TYPE_LABELS.join(", ")}`
+    );
+  }
+
+  switch (command) {
+    case "ingest":
+      return ingest(resolve(path), { type, wait: values.wait });
+    case "watch": {
+      const interval = Number(values.interval);
+      if (!Number.isFinite(interval) || interval <= 0) {
+        throw new Error("--interval must be a positive number of seconds");
+      }
+      return watch(resolve(path), { type, intervalMs: interval * 1000 });
+    }
+    default:
+      console.log(USAGE);
+      return false;
+  }
+}
+
+main()
+  .then(succeeded => process.exit(succeeded ? 0 : 1))
+  .catch(error => {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,84 @@
+import { runs, tasks } from "@trigger.dev/sdk/v3";
+import type { WorkflowOutput } from "../../../trigger/types/domain.js";
+import { moveToFailed, type LocalFile } from "./files.js";
+
+// A file version is triggered once; running `ingest` again on the same
+// directory within this window does not start second workflows
+const TRIGGER_IDEMPOTENCY_TTL = "1d";
+
+const POLL_INTERVAL_MS = 2000;
+
+// WorkflowOutput statuses that leave the file unstored
+const FAILED_STATUSES = new Set<WorkflowOutput["status"]>([
+  "download_failed",
+  "store_failed",
+]);
+
+export interface IngestOptions {
+  // Document type label; overrides folder hints and skips classification
+  type?: string;
+}
+
+export type RunResult =
+  | { ok: true; output: WorkflowOutput }
+  | { ok: false; error: string };
+
+/**
+ * Start process-document-workflow for a local file and return the run ID.
+ * The file is read by the task worker, so `trigger dev` must run on this
+ * machine.
+ */
+export async function triggerFile(
+  file: LocalFile,
+  options: IngestOptions
+): Promise<string> {
+  const source = {
+    kind: "local_path",
+    path: file.path,
+    modifiedTime: file.modifiedTime,
+  };
+  const handle = await tasks.trigger(
+    "process-document-workflow",
+    {
+      source,
+      fileName: file.name,
+      mimeType: file.mimeType,
+      size: file.size,
+      createdTime: file.createdTime,
+      // The folder path would win over the type given on the command line
+      sourcePath: options.type ? undefined : file.folderPath || undefined,
+      documentTypeHint: options.type,
+    },
+    {
+      idempotencyKey: `local_path:${file.path}@${file.modifiedTime}`,
+      idempotencyKeyTTL: TRIGGER_IDEMPOTENCY_TTL,
+    }
+  );
+  return handle.id;
+}
+
+/**
+ * Wait for a workflow run to finish
+ */
+export async function waitForRun(runId: string): Promise<RunResult> {
+  const run = await runs.poll(runId, { pollIntervalMs: POLL_INTERVAL_MS });
+  if (run.status !== "COMPLETED") {
+    return {
+      ok: false,
+      error: run.error?.message ?? `Run ended as ${run.status}`,
+    };
+  }
+  return { ok: true, output: run.output };
+}
+
+/**
+ * Move the file into failed/ when its workflow failed. Stored files were
+ * already moved into processed/ by the workflow.
+ */
+export async function settleFile(
+  file: LocalFile,
+  result: RunResult
+): Promise<string | null> {
+  if (result.ok && !FAILED_STATUSES.has(result.output.status)) return null;
+  return moveToFailed(file.path);
+}
@@ -0,0 +1,90 @@
+/**
+ * One watched Google Drive folder (My Drive or shared drive)
+ */
+export interface InboxFolderConfig {
+  folderId: string;
+  // Document type label preset for every file below the folder, unless a
+  // subfolder name says otherwise (e.g. "Receipts")
+  documentType?: string;
+  // Walk nested folders (default); false watches direct children only
+  recursive: boolean;
+}
+
+/**
+ * Inbox folders from DRIVE_INBOX_FOLDERS, a JSON array such as
+ * `[{"folderId": "1AbC", "documentType": "invoice"}, {"folderId": "0XyZ"}]`.
+ * Falls back to the single DRIVE_INBOX_FOLDER_ID.
+ */
+export function loadInboxFolders(): InboxFolderConfig[] {
+  const json = process.env.DRIVE_INBOX_FOLDERS;
+  if (!json) {
+    const folderId = process.env.DRIVE_INBOX_FOLDER_ID;
+    if (!folderId) {
+      throw new Error(
+        "DRIVE_INBOX_FOLDERS or DRIVE_INBOX_FOLDER_ID environment variable is required"
+      );
+    }
+    return [{ folderId, recursive: true }];
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(json);
+  } catch (error) {
+    throw new Error(
+      `DRIVE_INBOX_FOLDERS is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error("DRIVE_INBOX_FOLDERS must be a non-empty JSON array");
+  }
+
+  const folders = entries.map((entry: unknown, index): InboxFolderConfig => {
+    const { folderId, documentType, recursive } = (entry ?? {}) as Record<
+      string,
+      unknown
+    >;
+    if (typeof folderId !== "string" || folderId.length === 0) {
+      throw new Error(`DRIVE_INBOX_FOLDERS[${index}].folderId is required`);
+    }
+    if (documentType !== undefined && typeof documentType !== "string") {
+      throw new Error(
+        `DRIVE_INBOX_FOLDERS[${index}].documentType must be a string`
+      );
+    }
+    if (recursive !== undefined && typeof recursive !== "boolean") {
+      throw new Error(
+        `DRIVE_INBOX_FOLDERS[${index}].recursive must be a boolean`
+      );
+    }
+    return { folderId, documentType, recursive: recursive ?? true };
+  });
+
+  const ids = new Set(folders.map(folder => folder.folderId));
+  if (ids.size !== folders.length) {
+    throw new Error("DRIVE_INBOX_FOLDERS lists the same folder twice");
+  }
+  return folders;
+}
+
+/**
+ * Folders the workflow moves files into (DRIVE_PROCESSED_FOLDER_ID, same
+ * value as the task environment). They are never walked, so a processed
+ * folder nested inside an inbox folder does not feed its files back in.
+ */
+export function loadExcludedFolderIds(
+  inboxFolders: InboxFolderConfig[]
+): Set<string> {
+  const excluded = new Set<string>();
+  const processedFolderId = process.env.DRIVE_PROCESSED_FOLDER_ID;
+  if (processedFolderId) excluded.add(processedFolderId);
+
+  for (const folder of inboxFolders) {
+    if (excluded.has(folder.folderId)) {
+      throw new Error(
+        `Inbox folder ${folder.folderId} is also DRIVE_PROCESSED_FOLDER_ID`
+      );
+    }
+  }
+  return excluded;
+}
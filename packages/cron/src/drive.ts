@@ -0,0 +1,297 @@
+import { google } from "googleapis";
+import type { drive_v3 } from "googleapis";
+
+// Files are listed and changes read this many at a time (Drive maximum)
+const PAGE_SIZE = 1000;
+
+const FILE_FIELDS = "id, name, mimeType, createdTime, modifiedTime, parents";
+
+const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+
+// Folders combined into one `in parents` query, keeping the query short
+const PARENTS_PER_QUERY = 40;
+
+// Temporary copies the workflow makes to convert office files; deleted again
+// right after the export, but a sync may run in between
+// Keep in sync with CONVERSION_COPY_PREFIX in trigger/utils/drive.ts
+const CONVERSION_COPY_PREFIX = "docflow-conversion-";
+
+export interface InboxFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  createdTime: string;
+  modifiedTime: string;
+  folderPath: string; // Below the inbox folder, e.g. "Invoices/2025"; "" at the top
+}
+
+/**
+ * Folders to watch below one inbox folder, by ID, with their path relative
+ * to it ("" for the inbox folder itself)
+ */
+export type FolderTree = Map<string, string>;
+
+export interface DriveFolder {
+  id: string;
+  name: string;
+  driveId: string | null; // Shared drive; null in My Drive
+}
+
+/**
+ * Thrown when Drive no longer accepts a stored changes page token; the caller
+ * falls back to a full resync
+ */
+export class InvalidPageTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPageTokenError";
+  }
+}
+
+/**
+ * Authenticate with Google Drive using service account credentials from env
+ * vars. Falls back to JSON key file if GOOGLE_APPLICATION_CREDENTIALS is set.
+ */
+export function createDriveClient(): drive_v3.Drive {
+  const auth = process.env.GOOGLE_APPLICATION_CREDENTIALS
+    ? new google.auth.GoogleAuth({
+        keyFile: process.env.GOOGLE_APPLICATION_CREDENTIALS,
+        scopes: ["https://www.googleapis.com/auth/drive.readonly"],
+      })
+    : new google.auth.JWT({
+        email: process.env.GOOGLE_CLIENT_EMAIL,
+        key: process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, "\n"),
+        scopes: ["https://www.googleapis.com/auth/drive.readonly"],
+        keyId: process.env.GOOGLE_PRIVATE_KEY_ID,
+      });
+
+  return google.drive({ version: "v3", auth });
+}
+
+function toInboxFile(
+  file: drive_v3.Schema$File,
+  tree: FolderTree
+): InboxFile | null {
+  if (!file.id || !file.name || !file.mimeType || !file.createdTime) {
+    return null;
+  }
+  if (file.name.startsWith(CONVERSION_COPY_PREFIX)) return null;
+  const parentId = file.parents?.find(parent => tree.has(parent));
+  if (parentId === undefined) return null;
+  return {
+    id: file.id,
+    name: file.name,
+    mimeType: file.mimeType,
+    createdTime: file.createdTime,
+    modifiedTime: file.modifiedTime ?? file.createdTime,
+    folderPath: tree.get(parentId) ?? "",
+  };
+}
+
+/**
+ * files.list options reaching into the folder's shared drive
+ */
+function listScope(driveId: string | null) {
+  return driveId
+    ? {
+        corpora: "drive",
+        driveId,
+        includeItemsFromAllDrives: true,
+        supportsAllDrives: true,
+      }
+    : { includeItemsFromAllDrives: true, supportsAllDrives: true };
+}
+
+function parentsQuery(folderIds: string[]): string {
+  return `(${folderIds.map(id => `'${id}' in parents`).join(" or ")})`;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Name and shared drive of a configured inbox folder
+ */
+export async function getFolder(
+  drive: drive_v3.Drive,
+  folderId: string
+): Promise<DriveFolder> {
+  const response = await drive.files.get({
+    fileId: folderId,
+    fields: "id, name, mimeType, driveId",
+    supportsAllDrives: true,
+  });
+  if (response.data.mimeType !== FOLDER_MIME_TYPE) {
+    throw new Error(`Inbox ${folderId} is not a folder`);
+  }
+  return {
+    id: folderId,
+    name: response.data.name ?? folderId,
+    driveId: response.data.driveId ?? null,
+  };
+}
+
+/**
+ * The inbox folder and, when `recursive`, every folder nested below it except
+ * the `excluded` folders and everything below them
+ */
+export async function listFolderTree(
+  drive: drive_v3.Drive,
+  folder: DriveFolder,
+  recursive: boolean,
+  excluded: ReadonlySet<string>
+): Promise<FolderTree> {
+  const tree: FolderTree = new Map([[folder.id, ""]]);
+  let level = recursive ? [folder.id] : [];
+
+  while (level.length > 0) {
+    const next: string[] = [];
+    for (const parents of chunk(level, PARENTS_PER_QUERY)) {
+      let pageToken: string | undefined;
+      do {
+        const response = await drive.files.list({
+          ...listScope(folder.driveId),
+          q: `${parentsQuery(parents)} and mimeType='${FOLDER_MIME_TYPE}' and trashed=false`,
+          fields: "nextPageToken, files(id, name, parents)",
+          pageSize: PAGE_SIZE,
+          pageToken,
+        });
+        for (const child of response.data.files ?? []) {
+          // A folder linked into two watched folders is walked once
+          if (!child.id || !child.name || tree.has(child.id)) continue;
+          if (excluded.has(child.id)) continue;
+          const parentId = child.parents?.find(parent => tree.has(parent));
+          if (parentId === undefined) continue;
+          const parentPath = tree.get(parentId);
+          tree.set(
+            child.id,
+            parentPath ? `${parentPath}/${child.name}` : child.name
+          );
+          next.push(child.id);
+        }
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken);
+    }
+    level = next;
+  }
+
+  return tree;
+}
+
+/**
+ * Every file in the folder tree, following nextPageToken (full resync)
+ */
+export async function listFolderFiles(
+  drive: drive_v3.Drive,
+  folder: DriveFolder,
+  tree: FolderTree
+): Promise<InboxFile[]> {
+  const files: InboxFile[] = [];
+
+  for (const parents of chunk([...tree.keys()], PARENTS_PER_QUERY)) {
+    let pageToken: string | undefined;
+    do {
+      const response = await drive.files.list({
+        ...listScope(folder.driveId),
+        q: `${parentsQuery(parents)} and mimeType!='${FOLDER_MIME_TYPE}' and trashed=false`,
+        fields: `nextPageToken, files(${FILE_FIELDS})`,
+        orderBy: "createdTime desc",
+        pageSize: PAGE_SIZE,
+        pageToken,
+      });
+      for (const file of response.data.files ?? []) {
+        const inboxFile = toInboxFile(file, tree);
+        if (inboxFile) files.push(inboxFile);
+      }
+      pageToken = response.data.nextPageToken ?? undefined;
+    } while (pageToken);
+  }
+
+  return files;
+}
+
+/**
+ * Token marking "now" in the change log of the folder's drive; changes after
+ * it are read by the next incremental sync
+ */
+export async function getStartPageToken(
+  drive: drive_v3.Drive,
+  folder: DriveFolder
+): Promise<string> {
+  const response = await drive.changes.getStartPageToken(
+    folder.driveId ? { driveId: folder.driveId, supportsAllDrives: true } : {}
+  );
+  if (!response.data.startPageToken) {
+    throw new Error("Drive returned no start page token");
+  }
+  return response.data.startPageToken;
+}
+
+/**
+ * Files added to or modified in the folder tree since `pageToken`, plus the
+ * token to resume from next time. Removed and trashed files are skipped.
+ */
+export async function listChangedFiles(
+  drive: drive_v3.Drive,
+  folder: DriveFolder,
+  tree: FolderTree,
+  pageToken: string
+): Promise<{ files: InboxFile[]; newStartPageToken: string }> {
+  const files = new Map<string, InboxFile>();
+  let token = pageToken;
+
+  for (;;) {
+    let response;
+    try {
+      response = await drive.changes.list({
+        ...(folder.driveId
+          ? {
+              driveId: folder.driveId,
+              includeItemsFromAllDrives: true,
+              supportsAllDrives: true,
+            }
+          : {}),
+        pageToken: token,
+        pageSize: PAGE_SIZE,
+        spaces: "drive",
+        fields: `nextPageToken, newStartPageToken, changes(fileId, removed, file(${FILE_FIELDS}, trashed))`,
+      });
+    } catch (error) {
+      const status = Number((error as { code?: number | string }).code);
+      if (status === 400 || status === 404 || status === 410) {
+        throw new InvalidPageTokenError(
+          `Drive rejected page token ${token} (${status}): ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      throw error;
+    }
+
+    for (const change of response.data.changes ?? []) {
+      const file = change.file;
+      if (change.removed || !file || file.trashed) continue;
+      if (file.mimeType === FOLDER_MIME_TYPE) continue;
+
+      // A file changed twice is triggered once, with its latest state
+      const inboxFile = toInboxFile(file, tree);
+      if (inboxFile) files.set(inboxFile.id, inboxFile);
+    }
+
+    if (response.data.newStartPageToken) {
+      return {
+        files: [...files.values()],
+        newStartPageToken: response.data.newStartPageToken,
+      };
+    }
+    if (!response.data.nextPageToken) {
+      throw new Error(
+        "Drive returned neither nextPageToken nor newStartPageToken"
+      );
+    }
+    token = response.data.nextPageToken;
+  }
+}
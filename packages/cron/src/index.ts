@@ -1,100 +1,238 @@
-import { google } from "googleapis";
 import { tasks } from "@trigger.dev/sdk/v3";
+import type { drive_v3 } from "googleapis";
+import {
+  loadExcludedFolderIds,
+  loadInboxFolders,
+  type InboxFolderConfig,
+} from "./config.js";
+import {
+  createDriveClient,
+  getFolder,
+  getStartPageToken,
+  InvalidPageTokenError,
+  listChangedFiles,
+  listFolderFiles,
+  listFolderTree,
+  type InboxFile,
+} from "./drive.js";
+import {
+  createDb,
+  loadPageToken,
+  savePageToken,
+  type Sql,
+} from "./syncState.js";
 
-async function checkAndTrigger() {
-  // Validate required environment variables
-  const folderId = process.env.DRIVE_INBOX_FOLDER_ID;
-  if (!folderId) {
-    throw new Error("DRIVE_INBOX_FOLDER_ID environment variable is required");
-  }
+// Formats the workflow can normalize to PDF. The cron is built and deployed
+// on its own (railway.json), so unlike the CLI and the upload endpoint it
+// keeps a copy. Keep in sync with trigger/utils/sourceFormats.ts
+const SUPPORTED_MIME_TYPES = new Set([
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+  "image/heic",
+  "image/heif",
+  "image/tiff",
+  "application/vnd.google-apps.document",
+  "application/vnd.google-apps.spreadsheet",
+  "application/vnd.google-apps.presentation",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/msword",
+  "application/vnd.oasis.opendocument.text",
+  "application/rtf",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+]);
 
-  // Authenticate with Google Drive using service account credentials from env vars
-  // Falls back to JSON key file if GOOGLE_APPLICATION_CREDENTIALS is set
-  const auth = process.env.GOOGLE_APPLICATION_CREDENTIALS
-    ? new google.auth.GoogleAuth({
-        keyFile: process.env.GOOGLE_APPLICATION_CREDENTIALS,
-        scopes: ["https://www.googleapis.com/auth/drive.readonly"],
-      })
-    : new google.auth.JWT({
-        email: process.env.GOOGLE_CLIENT_EMAIL,
-        key: process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, "\n"),
-        scopes: ["https://www.googleapis.com/auth/drive.readonly"],
-        keyId: process.env.GOOGLE_PRIVATE_KEY_ID,
-      });
+// A file version is triggered once; a full resync within this window does not
+// start a second workflow for a file still being processed
+const TRIGGER_IDEMPOTENCY_TTL = "1d";
 
-  const drive = google.drive({ version: "v3", auth });
+interface InboxFileWithDefaults extends InboxFile {
+  documentType?: string; // Default of the inbox folder the file was found in
+}
 
-  // Get all files in the folder
-  const response = await drive.files.list({
-    q: `'${folderId}' in parents and trashed=false`,
-    fields: "files(id, name, createdTime, mimeType)",
-    orderBy: "createdTime desc",
-  });
+interface FolderSync {
+  folderId: string;
+  files: InboxFile[];
+  pageToken: string;
+  fullSync: boolean;
+}
 
-  const files = response.data.files || [];
+/**
+ * Files to process below one inbox folder and the page token to store
+ * afterwards. Incremental runs read the Drive change log since the stored
+ * token; the first run, a requested resync (--full or DRIVE_SYNC_MODE=full)
+ * and an expired token list the whole folder tree instead.
+ */
+async function collectFiles(
+  drive: drive_v3.Drive,
+  sql: Sql,
+  config: InboxFolderConfig,
+  excludedFolderIds: ReadonlySet<string>,
+  forceFullSync: boolean
+): Promise<FolderSync> {
+  const folder = await getFolder(drive, config.folderId);
+  const tree = await listFolderTree(
+    drive,
+    folder,
+    config.recursive,
+    excludedFolderIds
+  );
+  console.log(
+    `\n[${folder.name}] ${folder.driveId ? `Shared drive ${folder.driveId}` : "My Drive"}, ${tree.size} folders watched`
+  );
 
-  console.log(`Total files in folder: ${files.length}`);
+  const storedToken = forceFullSync
+    ? null
+    : await loadPageToken(sql, folder.id);
 
-  if (files.length > 0) {
-    console.log("\nFiles in folder:");
-    files.forEach(file => {
+  if (storedToken) {
+    try {
+      const changes = await listChangedFiles(drive, folder, tree, storedToken);
       console.log(
-        `  - ${file.name} (${file.mimeType}) [${file.id}] created at ${file.createdTime}`
+        `[${folder.name}] Incremental sync: ${changes.files.length} files added or modified since the last run`
       );
-    });
-  }
-
-  // Check for TRIGGER_SECRET_KEY
-  const secretKey = process.env.TRIGGER_SECRET_KEY;
-  if (!secretKey) {
+      return {
+        folderId: folder.id,
+        files: changes.files,
+        pageToken: changes.newStartPageToken,
+        fullSync: false,
+      };
+    } catch (error) {
+      if (!(error instanceof InvalidPageTokenError)) throw error;
+      console.log(`[RESYNC] ${error.message}`);
+    }
+  } else {
     console.log(
-      `[SKIP] TRIGGER_SECRET_KEY not configured - skipping workflow triggers`
+      forceFullSync
+        ? `[${folder.name}] Full resync requested`
+        : `[${folder.name}] No page token stored - running a full resync`
     );
-    console.log("Done. Exiting.");
-    process.exit(0);
   }
 
-  // Trigger workflow for each file with fileId as idempotency key
-  // Trigger.dev will handle deduplication, workflow will delete/move file after processing
-  if (files.length > 0) {
-    console.log(`\nTriggering workflows for ${files.length} files...`);
-
-    const validFiles = files.filter(
-      (
-        file
-      ): file is typeof file & {
-        id: string;
-        name: string;
-        mimeType: string;
-        createdTime: string;
-      } => !!(file.id && file.name && file.mimeType && file.createdTime)
-    );
+  // Token first, so changes made while listing are seen by the next run
+  const pageToken = await getStartPageToken(drive, folder);
+  const files = await listFolderFiles(drive, folder, tree);
+  console.log(
+    `[${folder.name}] Full sync: ${files.length} files in folder tree`
+  );
+  return { folderId: folder.id, files, pageToken, fullSync: true };
+}
+
+async function checkAndTrigger() {
+  // Validate required environment variables
+  const inboxFolders = loadInboxFolders();
+  const excludedFolderIds = loadExcludedFolderIds(inboxFolders);
+
+  const forceFullSync =
+    process.argv.includes("--full") || process.env.DRIVE_SYNC_MODE === "full";
+
+  const drive = createDriveClient();
+  const sql = createDb();
+
+  try {
+    const syncs: FolderSync[] = [];
+    // A file reachable from two configured folders is triggered once, with
+    // the defaults of the first
+    const files = new Map<string, InboxFileWithDefaults>();
+    for (const config of inboxFolders) {
+      const sync = await collectFiles(
+        drive,
+        sql,
+        config,
+        excludedFolderIds,
+        forceFullSync
+      );
+      syncs.push(sync);
+      for (const file of sync.files) {
+        if (!files.has(file.id)) {
+          files.set(file.id, { ...file, documentType: config.documentType });
+        }
+      }
+    }
+
+    if (files.size > 0) {
+      console.log("\nFiles to process:");
+      files.forEach(file => {
+        console.log(
+          `  - ${file.folderPath ? `${file.folderPath}/` : ""}${file.name} (${file.mimeType}) [${file.id}] modified at ${file.modifiedTime}`
+        );
+      });
+    }
+
+    // Check for TRIGGER_SECRET_KEY
+    const secretKey = process.env.TRIGGER_SECRET_KEY;
+    if (!secretKey) {
+      // The tokens are not advanced, so these files are seen again once
+      // triggering is configured
+      console.log(
+        `[SKIP] TRIGGER_SECRET_KEY not configured - skipping workflow triggers`
+      );
+      return;
+    }
 
-    const batchPayloads = validFiles.map(file => ({
-      payload: {
-        fileId: file.id,
-        fileName: file.name,
-        mimeType: file.mimeType,
-        createdTime: file.createdTime,
-      },
-    }));
-
-    const batchHandle = await tasks.batchTrigger(
-      "process-document-workflow",
-      batchPayloads
+    // Unsupported formats would only fail as download_failed - leave them
+    const supportedFiles = [...files.values()].filter(file =>
+      SUPPORTED_MIME_TYPES.has(file.mimeType)
     );
+    files.forEach(file => {
+      if (!SUPPORTED_MIME_TYPES.has(file.mimeType)) {
+        console.log(
+          `[SKIP] ${file.name} (${file.mimeType}) - unsupported file type`
+        );
+      }
+    });
 
-    console.log(`✓ Successfully triggered ${batchPayloads.length} workflows`);
-    console.log(`  Batch ID: ${batchHandle.batchId}`);
-  } else {
-    console.log("\nNo files to process.");
-  }
+    if (supportedFiles.length > 0) {
+      console.log(
+        `\nTriggering workflows for ${supportedFiles.length} files...`
+      );
+
+      const batchPayloads = supportedFiles.map(file => ({
+        payload: {
+          source: { kind: "google_drive", fileId: file.id },
+          fileName: file.name,
+          mimeType: file.mimeType,
+          createdTime: file.createdTime,
+          sourcePath: file.folderPath || undefined,
+          documentTypeHint: file.documentType,
+        },
+        options: {
+          idempotencyKey: `${file.id}:${file.modifiedTime}`,
+          idempotencyKeyTTL: TRIGGER_IDEMPOTENCY_TTL,
+        },
+      }));
+
+      const batchHandle = await tasks.batchTrigger(
+        "process-document-workflow",
+        batchPayloads
+      );
+
+      console.log(`✓ Successfully triggered ${batchPayloads.length} workflows`);
+      console.log(`  Batch ID: ${batchHandle.batchId}`);
+    } else {
+      console.log("\nNo supported files to process.");
+    }
 
-  console.log("Done. Exiting.");
-  process.exit(0);
+    // Advance only after triggering: a failed run re-reads the same changes
+    for (const sync of syncs) {
+      await savePageToken(sql, sync.folderId, sync.pageToken, sync.fullSync);
+      console.log(
+        `✓ Page token saved for ${sync.folderId}${sync.fullSync ? " (full sync)" : ""}`
+      );
+    }
+  } finally {
+    await sql.end();
+  }
 }
 
-checkAndTrigger().catch(error => {
-  console.error("Error:", error);
-  process.exit(1);
-});
+checkAndTrigger()
+  .then(() => {
+    console.log("Done. Exiting.");
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error("Error:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,44 @@
+import postgres from "postgres";
+
+export type Sql = ReturnType<typeof postgres>;
+
+export function createDb(): Sql {
+  const connectionString = process.env.SUPABASE_DB_STRING;
+  if (!connectionString) {
+    throw new Error("SUPABASE_DB_STRING environment variable is required");
+  }
+  return postgres(connectionString, { max: 1, connect_timeout: 10 });
+}
+
+/**
+ * Drive changes page token stored by the last sync of `folderId`, or null
+ * when the folder was never synced
+ */
+export async function loadPageToken(
+  sql: Sql,
+  folderId: string
+): Promise<string | null> {
+  const [row] = await sql<{ page_token: string }[]>`
+    SELECT page_token FROM drive_sync_state WHERE folder_id = ${folderId}
+  `;
+  return row?.page_token ?? null;
+}
+
+/**
+ * Remember where the next sync of `folderId` resumes
+ */
+export async function savePageToken(
+  sql: Sql,
+  folderId: string,
+  pageToken: string,
+  fullSync: boolean
+): Promise<void> {
+  await sql`
+    INSERT INTO drive_sync_state (folder_id, page_token, last_synced_at, last_full_sync_at)
+    VALUES (${folderId}, ${pageToken}, NOW(), ${fullSync ? new Date() : null})
+    ON CONFLICT (folder_id) DO UPDATE SET
+      page_token = EXCLUDED.page_token,
+      last_synced_at = EXCLUDED.last_synced_at,
+      last_full_sync_at = COALESCE(EXCLUDED.last_full_sync_at, drive_sync_state.last_full_sync_at)
+  `;
+}
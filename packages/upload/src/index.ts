@@ -0,0 +1,189 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { tasks } from "@trigger.dev/sdk/v3";
+import { LOCAL_MIME_TYPES } from "../../../trigger/utils/sourceFormats.js";
+import { buildStagingPath } from "../../../trigger/sources/stagingPath.js";
+import { stageFile } from "./storage.js";
+
+// ============================================================================
+// UPLOAD ENDPOINT
+// ============================================================================
+// POST /documents takes a multipart form with one or more `file` fields,
+// stages each file in Supabase Storage and starts process-document-workflow
+// with an upload source. Optional fields: `type` (document type label preset
+// for every file) and `uploadedBy` (kept on the registry row).
+
+const DEFAULT_MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+interface UploadedDocument {
+  uploadId: string;
+  fileName: string;
+  runId: string;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function checkAuthorization(req: IncomingMessage, token: string) {
+  const header = req.headers.authorization ?? "";
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new HttpError(401, "Missing or invalid bearer token");
+  }
+}
+
+async function readBody(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, `Upload exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function handleUpload(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<UploadedDocument[]> {
+  const contentType = req.headers["content-type"] ?? "";
+  if (!contentType.startsWith("multipart/form-data")) {
+    throw new HttpError(415, "Expected multipart/form-data");
+  }
+
+  const body = await readBody(req, maxBytes);
+  const form = await new Request("http://localhost/documents", {
+    method: "POST",
+    headers: { "content-type": contentType },
+    body: new Uint8Array(body),
+  })
+    .formData()
+    .catch(() => {
+      throw new HttpError(400, "Malformed multipart body");
+    });
+
+  const files = form
+    .getAll("file")
+    .filter((entry): entry is File => typeof entry !== "string");
+  if (files.length === 0) {
+    throw new HttpError(400, "No `file` field in the form");
+  }
+  // Check every file before staging any, so a batch is accepted whole
+  for (const file of files) {
+    if (!LOCAL_MIME_TYPES[file.type]) {
+      throw new HttpError(
+        415,
+        `${file.name}: unsupported file type ${file.type || "(none)"}`
+      );
+    }
+  }
+
+  const type = form.get("type");
+  const uploadedBy = form.get("uploadedBy");
+  const documentTypeHint =
+    typeof type === "string" && type.trim() ? type.trim() : undefined;
+
+  const documents: UploadedDocument[] = [];
+  for (const file of files) {
+    const uploadId = `upload-${randomUUID()}`;
+    const stagedStoragePath = buildStagingPath(
+      uploadId,
+      LOCAL_MIME_TYPES[file.type]
+    );
+    const content = Buffer.from(await file.arrayBuffer());
+    await stageFile(stagedStoragePath, content, file.type, file.name);
+
+    const handle = await tasks.trigger(
+      "process-document-workflow",
+      {
+        source: {
+          kind: "upload",
+          uploadId,
+          stagedStoragePath,
+          uploadedBy: typeof uploadedBy === "string" ? uploadedBy : null,
+        },
+        fileName: file.name,
+        mimeType: file.type,
+        size: content.length,
+        createdTime: new Date().toISOString(),
+        documentTypeHint,
+      },
+      { idempotencyKey: `upload:${uploadId}` }
+    );
+
+    console.log(
+      `✓ ${file.name} (${file.type}, ${content.length} bytes) staged at ${stagedStoragePath} - run ${handle.id}`
+    );
+    documents.push({ uploadId, fileName: file.name, runId: handle.id });
+  }
+  return documents;
+}
+
+function main() {
+  // Validate required environment variables
+  const token = process.env.UPLOAD_API_TOKEN;
+  if (!token) {
+    throw new Error("UPLOAD_API_TOKEN environment variable is required");
+  }
+  if (!process.env.TRIGGER_SECRET_KEY) {
+    throw new Error("TRIGGER_SECRET_KEY environment variable is required");
+  }
+  const port = Number(process.env.PORT ?? 3000);
+  const maxBytes = Number(
+    process.env.UPLOAD_MAX_BYTES ?? DEFAULT_MAX_UPLOAD_BYTES
+  );
+
+  const server = createServer(async (req, res) => {
+    try {
+      if (req.method === "GET" && req.url === "/health") {
+        sendJson(res, 200, { status: "ok" });
+        return;
+      }
+      if (req.method === "POST" && req.url === "/documents") {
+        checkAuthorization(req, token);
+        const documents = await handleUpload(req, maxBytes);
+        sendJson(res, 202, { documents });
+        return;
+      }
+      throw new HttpError(404, "Not found");
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+        return;
+      }
+      console.error("Error:", error);
+      sendJson(res, 500, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  server.listen(port, () => {
+    console.log(`Upload endpoint listening on port ${port}`);
+  });
+}
+
+main();
@@ -0,0 +1,51 @@
+import { PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+
+// Same bucket and credentials as trigger/utils/storage.ts
+
+let s3Client: S3Client | null = null;
+
+function getStorageClient(): S3Client {
+  if (!s3Client) {
+    const endpoint = process.env.SUPABASE_STORAGE_ACCESS_POINT;
+    const region = process.env.SUPABASE_STORAGE_REGION;
+    const accessKeyId = process.env.SUPABASE_STORAGE_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.SUPABASE_STORAGE_ACCESS_KEY;
+
+    if (!endpoint || !region || !accessKeyId || !secretAccessKey) {
+      throw new Error("Missing Supabase Storage environment variables");
+    }
+
+    s3Client = new S3Client({
+      forcePathStyle: true,
+      region,
+      endpoint,
+      credentials: { accessKeyId, secretAccessKey },
+    });
+  }
+  return s3Client;
+}
+
+function getBucket(): string {
+  const bucket = process.env.SUPABASE_STORAGE_BUCKET;
+  if (!bucket) {
+    throw new Error("SUPABASE_STORAGE_BUCKET environment variable is not set");
+  }
+  return bucket;
+}
+
+export async function stageFile(
+  key: string,
+  content: Buffer,
+  contentType: string,
+  originalFilename: string
+): Promise<void> {
+  await getStorageClient().send(
+    new PutObjectCommand({
+      Bucket: getBucket(),
+      Key: key,
+      Body: content,
+      ContentType: contentType,
+      Metadata: { "original-filename": encodeURIComponent(originalFilename) },
+    })
+  );
+}
@@ -20,6 +20,10 @@ export default defineConfig({
     },
   },
   dirs: ["trigger"],
+  build: {
+    // Native image codecs must not be bundled
+    external: ["sharp"],
+  },
   init: async () => {
     initLangfuseTracing();
   },
@@ -0,0 +1,250 @@
+import { z } from "zod";
+import type {
+  Extracted,
+  StatementAccount,
+  StatementData,
+} from "../types/domain";
+import type { DbClient } from "../utils/db";
+import {
+  localizedNumber,
+  nullableString,
+  nullableNumber,
+} from "../types/schemas";
+import {
+  reconcileStatementBalances,
+  validateStatement,
+} from "../utils/statementReconciliation";
+import { mergeStatementChunks } from "../utils/statementChunks";
+import { resolveCounterparties } from "../utils/counterparties";
+import { findIbans } from "../utils/iban";
+import {
+  refreshInvoicePaymentStatus,
+  repinPaymentMatches,
+  statementTransactionFingerprints,
+} from "../utils/paymentMatching";
+import { validateStatementIdentifiers } from "../utils/identifierValidation";
+import { normalizeStatementLocale } from "../utils/localeNormalization";
+import { combineValidators } from "../utils/validationReport";
+import { defineDocumentType } from "./types";
+
+export const statementDataSchema = z.object({
+  document_info: z.object({
+    statement_type: z.literal("bank_statement"),
+    bank_name: nullableString(),
+    document_title: nullableString(),
+    period_start: nullableString(),
+    period_end: nullableString(),
+    language: nullableString(),
+  }),
+  accounts: z
+    .array(
+      z.object({
+        account_name: nullableString(),
+        holder_name: nullableString(),
+        account_number: nullableString(),
+        iban: nullableString(),
+        currency: nullableString(),
+        opening_balance: nullableNumber(),
+        closing_balance: nullableNumber(),
+        transactions: z.array(
+          z.object({
+            date: z.string(),
+            description: z.string(),
+            counterparty: nullableString(),
+            amount: localizedNumber(),
+            balance: nullableNumber(),
+          })
+        ),
+      })
+    )
+    .min(1),
+}) satisfies z.ZodType<Extracted<StatementData>>;
+
+/**
+ * Upsert one account section; the balance check is stored per section
+ */
+async function persistAccountSection(
+  sql: DbClient,
+  docId: string,
+  sectionIndex: number,
+  stmt: StatementData,
+  account: StatementAccount,
+  fingerprints: string[]
+): Promise<void> {
+  const reconciliation = reconcileStatementBalances(account);
+  const currency = account.currency;
+
+  await sql`
+    INSERT INTO statements (
+      doc_id,
+      section_index,
+      account_name,
+      bank_name,
+      document_title,
+      period_start,
+      period_end,
+      currency,
+      language,
+      holder_name,
+      account_number,
+      iban,
+      opening_balance,
+      closing_balance,
+      transactions,
+      reconciliation_status,
+      expected_closing_balance,
+      balance_difference,
+      balance_breaks
+    ) VALUES (
+      ${docId},
+      ${sectionIndex},
+      ${account.account_name},
+      ${stmt.document_info.bank_name},
+      ${stmt.document_info.document_title},
+      ${stmt.document_info.period_start},
+      ${stmt.document_info.period_end},
+      ${account.currency},
+      ${stmt.document_info.language},
+      ${account.holder_name},
+      ${account.account_number},
+      ${account.iban},
+      ${account.opening_balance},
+      ${account.closing_balance},
+      ${JSON.stringify(account.transactions)}::jsonb,
+      ${reconciliation.status},
+      ${reconciliation.expectedClosing},
+      ${reconciliation.difference},
+      ${JSON.stringify(reconciliation.chainBreaks)}::jsonb
+    )
+    ON CONFLICT (doc_id, section_index) DO UPDATE SET
+      account_name = EXCLUDED.account_name,
+      bank_name = EXCLUDED.bank_name,
+      document_title = EXCLUDED.document_title,
+      period_start = EXCLUDED.period_start,
+      period_end = EXCLUDED.period_end,
+      currency = EXCLUDED.currency,
+      language = EXCLUDED.language,
+      holder_name = EXCLUDED.holder_name,
+      account_number = EXCLUDED.account_number,
+      iban = EXCLUDED.iban,
+      opening_balance = EXCLUDED.opening_balance,
+      closing_balance = EXCLUDED.closing_balance,
+      transactions = EXCLUDED.transactions,
+      reconciliation_status = EXCLUDED.reconciliation_status,
+      expected_closing_balance = EXCLUDED.expected_closing_balance,
+      balance_difference = EXCLUDED.balance_difference,
+      balance_breaks = EXCLUDED.balance_breaks
+  `;
+
+  // Typed copy of the transactions for SQL reporting
+  if (account.transactions.length > 0) {
+    await sql`
+      INSERT INTO statement_transactions ${sql(
+        account.transactions.map((transaction, ordinal) => ({
+          doc_id: docId,
+          section_index: sectionIndex,
+          ordinal,
+          fingerprint: fingerprints[ordinal],
+          booking_date: transaction.date,
+          description: transaction.description,
+          counterparty: transaction.counterparty,
+          amount: transaction.amount,
+          balance: transaction.balance,
+          currency,
+        }))
+      )}
+    `;
+  }
+}
+
+export const bankStatementDocumentType = defineDocumentType<StatementData>({
+  label: "bank_statement",
+  description: "Bank or card account statement listing transactions",
+  storageFolder: "statements",
+  extraction: {
+    promptName: "poc-3f/statement",
+    observationName: "extract-statement",
+    toolName: "record_statement",
+    toolDescription:
+      "Record the structured data extracted from the bank statement. Use one entry in accounts per account section (e.g. current account, savings account, foreign currency sub-account), each with its own balances and transactions.",
+    defaultMaxTokens: 4096,
+    schema: statementDataSchema,
+    // Two pages of transactions fit comfortably in one response
+    chunking: { pagesPerChunk: 2, merge: mergeStatementChunks },
+  },
+  normalize: normalizeStatementLocale,
+  validate: combineValidators(validateStatementIdentifiers, validateStatement),
+  summarize: stmt => [
+    `Bank: ${stmt.document_info.bank_name}`,
+    `Period: ${stmt.document_info.period_start} to ${stmt.document_info.period_end}`,
+    `Accounts: ${stmt.accounts.length}`,
+    ...stmt.accounts.map(
+      account =>
+        `${account.account_name ?? account.iban ?? account.account_number}: ${account.transactions.length} transactions, ${account.opening_balance} -> ${account.closing_balance} ${account.currency} (${reconcileStatementBalances(account).status})`
+    ),
+  ],
+  // One statements row per account section, all under the same doc_id
+  persist: async (sql, docId, stmt) => {
+    // Rewritten on every run; sections re-insert their own rows
+    await sql`DELETE FROM statement_transactions WHERE doc_id = ${docId}`;
+
+    const fingerprints = statementTransactionFingerprints(stmt);
+    for (const [sectionIndex, account] of stmt.accounts.entries()) {
+      await persistAccountSection(
+        sql,
+        docId,
+        sectionIndex,
+        stmt,
+        account,
+        fingerprints[sectionIndex]
+      );
+    }
+
+    // A re-extraction may find fewer sections than the previous run
+    await sql`
+      DELETE FROM statements
+      WHERE doc_id = ${docId} AND section_index >= ${stmt.accounts.length}
+    `;
+
+    // Payment matches follow their transaction to its new position
+    const unpaidInvoices = await repinPaymentMatches(sql, docId);
+    await refreshInvoicePaymentStatus(sql, unpaidInvoices);
+  },
+  // Payees and payers by name, or by an IBAN quoted in the booking text
+  linkCounterparties: async (sql, docId, stmt) => {
+    const rows = stmt.accounts.flatMap((account, sectionIndex) =>
+      account.transactions.map((transaction, ordinal) => ({
+        sectionIndex,
+        ordinal,
+        observation: {
+          name: transaction.counterparty,
+          ibans: findIbans(transaction.description),
+        },
+      }))
+    );
+    const resolutions = await resolveCounterparties(
+      sql,
+      rows.map(row => row.observation)
+    );
+
+    const links = rows.flatMap((row, index) => {
+      const resolution = resolutions[index];
+      return resolution
+        ? [[row.sectionIndex, row.ordinal, resolution.counterpartyId]]
+        : [];
+    });
+    if (links.length > 0) {
+      await sql`
+        UPDATE statement_transactions t
+        SET counterparty_id = link.counterparty_id::uuid
+        FROM (VALUES ${sql(links)}) AS link (section_index, ordinal, counterparty_id)
+        WHERE t.doc_id = ${docId}
+          AND t.section_index = link.section_index::int
+          AND t.ordinal = link.ordinal::int
+      `;
+    }
+
+    return resolutions.filter(resolution => resolution !== null);
+  },
+  paymentMatching: "statement",
+});
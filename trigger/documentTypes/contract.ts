@@ -0,0 +1,135 @@
+import { z } from "zod";
+import type { ContractData, Extracted } from "../types/domain";
+import { nullableString, nullableNumber } from "../types/schemas";
+import { validateContractIdentifiers } from "../utils/identifierValidation";
+import { normalizeContractLocale } from "../utils/localeNormalization";
+import { defineDocumentType } from "./types";
+
+export const contractDataSchema = z.object({
+  document_info: z.object({
+    title: nullableString(),
+    contract_type: z.enum([
+      "service_agreement",
+      "lease",
+      "subscription",
+      "license",
+      "other",
+    ]),
+    reference_number: nullableString(),
+    signing_date: nullableString(),
+    language: nullableString(),
+  }),
+  parties: z.array(
+    z.object({
+      name: z.string(),
+      role: z.enum(["provider", "customer", "landlord", "tenant", "other"]),
+      address: nullableString(),
+      vat_number: nullableString(),
+    })
+  ),
+  term: z.object({
+    start_date: nullableString(),
+    // End of the current term; for auto-renewing contracts the next renewal date
+    end_date: nullableString(),
+    auto_renewal: z.boolean(),
+    renewal_period_months: nullableNumber(),
+    notice_period: z
+      .object({
+        value: z.number().int().nonnegative(),
+        unit: z.enum(["days", "weeks", "months"]),
+      })
+      .nullable()
+      .default(null),
+  }),
+  fee: z.object({
+    amount: nullableNumber(),
+    currency: nullableString(),
+    frequency: z
+      .enum(["monthly", "quarterly", "yearly", "one_time", "other"])
+      .nullable()
+      .default(null),
+  }),
+}) satisfies z.ZodType<Extracted<ContractData>>;
+
+export const contractDocumentType = defineDocumentType<ContractData>({
+  label: "contract",
+  description:
+    "Contract such as a service agreement, lease, subscription or license, with parties, term and fees",
+  storageFolder: "contracts",
+  extraction: {
+    promptName: "poc-3f/contract",
+    observationName: "extract-contract",
+    toolName: "record_contract",
+    toolDescription:
+      "Record the structured data extracted from the contract. Give the notice period as a number with its unit exactly as stated.",
+    defaultMaxTokens: 2048,
+    schema: contractDataSchema,
+  },
+  normalize: normalizeContractLocale,
+  validate: validateContractIdentifiers,
+  summarize: contract => [
+    `Contract Type: ${contract.document_info.contract_type}`,
+    `Parties: ${contract.parties.map(party => party.name).join(", ")}`,
+    `Term: ${contract.term.start_date} to ${contract.term.end_date}`,
+    `Auto Renewal: ${contract.term.auto_renewal}`,
+    `Notice Period: ${contract.term.notice_period ? `${contract.term.notice_period.value} ${contract.term.notice_period.unit}` : "N/A"}`,
+    `Fee: ${contract.fee.amount} ${contract.fee.currency} (${contract.fee.frequency})`,
+  ],
+  persist: async (sql, docId, contract) => {
+    // notice_deadline is a generated column derived from end_date and the
+    // notice period, so it is not written here
+    await sql`
+      INSERT INTO contracts (
+        doc_id,
+        title,
+        contract_type,
+        reference_number,
+        signing_date,
+        language,
+        parties,
+        start_date,
+        end_date,
+        auto_renewal,
+        renewal_period_months,
+        notice_period_value,
+        notice_period_unit,
+        fee_amount,
+        fee_currency,
+        fee_frequency
+      ) VALUES (
+        ${docId},
+        ${contract.document_info.title},
+        ${contract.document_info.contract_type},
+        ${contract.document_info.reference_number},
+        ${contract.document_info.signing_date},
+        ${contract.document_info.language},
+        ${JSON.stringify(contract.parties)}::jsonb,
+        ${contract.term.start_date},
+        ${contract.term.end_date},
+        ${contract.term.auto_renewal},
+        ${contract.term.renewal_period_months},
+        ${contract.term.notice_period?.value ?? null},
+        ${contract.term.notice_period?.unit ?? null},
+        ${contract.fee.amount},
+        ${contract.fee.currency},
+        ${contract.fee.frequency}
+      )
+      ON CONFLICT (doc_id) DO UPDATE SET
+        title = EXCLUDED.title,
+        contract_type = EXCLUDED.contract_type,
+        reference_number = EXCLUDED.reference_number,
+        signing_date = EXCLUDED.signing_date,
+        language = EXCLUDED.language,
+        parties = EXCLUDED.parties,
+        start_date = EXCLUDED.start_date,
+        end_date = EXCLUDED.end_date,
+        auto_renewal = EXCLUDED.auto_renewal,
+        renewal_period_months = EXCLUDED.renewal_period_months,
+        notice_period_value = EXCLUDED.notice_period_value,
+        notice_period_unit = EXCLUDED.notice_period_unit,
+        fee_amount = EXCLUDED.fee_amount,
+        fee_currency = EXCLUDED.fee_currency,
+        fee_frequency = EXCLUDED.fee_frequency
+    `;
+  },
+});
@@ -0,0 +1,157 @@
+import { z } from "zod";
+import type { Extracted, LetterData } from "../types/domain";
+import { nullableString, nullableNumber } from "../types/schemas";
+import { resolveCounterparty } from "../utils/counterparties";
+import { normalizeLetterLocale } from "../utils/localeNormalization";
+import { defineDocumentType } from "./types";
+
+export const letterDataSchema = z.object({
+  reasoning_checklist: z.object({
+    has_due_date: z.boolean(),
+    due_date_field_name: nullableString(),
+    due_date_value: nullableString(),
+    has_money_amount: z.boolean(),
+    money_amount_quote: nullableString(),
+  }),
+  document_info: z.object({
+    document_type: z.literal("official_letter"),
+    language: nullableString(),
+    date: nullableString(),
+  }),
+  letter_details: z.object({
+    subject: nullableString(),
+    reference_number: nullableString(),
+    due_date: nullableString(),
+    amount_due: nullableNumber(),
+    currency: nullableString(),
+    letter_type: z.enum([
+      "tax_notice",
+      "vat_reminder",
+      "audit_notice",
+      "compliance",
+      "other",
+    ]),
+  }),
+  sender: z.object({
+    organization: nullableString(),
+    address: nullableString(),
+    country: nullableString(),
+    contact_title: nullableString(),
+    reference: nullableString(),
+  }),
+  recipient: z.object({
+    organization: nullableString(),
+    title: nullableString(),
+    address: nullableString(),
+    country: nullableString(),
+  }),
+  content: z.object({
+    greeting: nullableString(),
+    main_text: nullableString(),
+    closing: nullableString(),
+  }),
+}) satisfies z.ZodType<Extracted<LetterData>>;
+
+export const governmentLetterDocumentType = defineDocumentType<LetterData>({
+  label: "government_letter",
+  description:
+    "Official letter from a tax office or other authority (notices, reminders, audits)",
+  storageFolder: "letters",
+  extraction: {
+    promptName: "poc-3f/letters",
+    observationName: "extract-letter",
+    toolName: "record_letter",
+    toolDescription:
+      "Record the structured data extracted from the official letter.",
+    defaultMaxTokens: 2048,
+    schema: letterDataSchema,
+  },
+  normalize: normalizeLetterLocale,
+  summarize: letter => [
+    `Letter Type: ${letter.letter_details.letter_type}`,
+    `Subject: ${letter.letter_details.subject}`,
+    `Due Date: ${letter.letter_details.due_date}`,
+    `Amount Due: ${letter.letter_details.amount_due} ${letter.letter_details.currency}`,
+  ],
+  persist: async (sql, docId, letter) => {
+    await sql`
+      INSERT INTO letters (
+        doc_id,
+        letter_type,
+        language,
+        letter_date,
+        subject,
+        reference_number,
+        due_date,
+        amount_due,
+        currency,
+        sender_organization,
+        sender_address,
+        sender_country,
+        sender_contact_title,
+        sender_reference,
+        recipient_organization,
+        recipient_title,
+        recipient_address,
+        recipient_country,
+        content_greeting,
+        content_main_text,
+        content_closing
+      ) VALUES (
+        ${docId},
+        ${letter.letter_details.letter_type},
+        ${letter.document_info.language},
+        ${letter.document_info.date},
+        ${letter.letter_details.subject},
+        ${letter.letter_details.reference_number},
+        ${letter.letter_details.due_date},
+        ${letter.letter_details.amount_due},
+        ${letter.letter_details.currency},
+        ${letter.sender.organization},
+        ${letter.sender.address},
+        ${letter.sender.country},
+        ${letter.sender.contact_title},
+        ${letter.sender.reference},
+        ${letter.recipient.organization},
+        ${letter.recipient.title},
+        ${letter.recipient.address},
+        ${letter.recipient.country},
+        ${letter.content.greeting},
+        ${letter.content.main_text},
+        ${letter.content.closing}
+      )
+      ON CONFLICT (doc_id) DO UPDATE SET
+        letter_type = EXCLUDED.letter_type,
+        language = EXCLUDED.language,
+        letter_date = EXCLUDED.letter_date,
+        subject = EXCLUDED.subject,
+        reference_number = EXCLUDED.reference_number,
+        due_date = EXCLUDED.due_date,
+        amount_due = EXCLUDED.amount_due,
+        currency = EXCLUDED.currency,
+        sender_organization = EXCLUDED.sender_organization,
+        sender_address = EXCLUDED.sender_address,
+        sender_country = EXCLUDED.sender_country,
+        sender_contact_title = EXCLUDED.sender_contact_title,
+        sender_reference = EXCLUDED.sender_reference,
+        recipient_organization = EXCLUDED.recipient_organization,
+        recipient_title = EXCLUDED.recipient_title,
+        recipient_address = EXCLUDED.recipient_address,
+        recipient_country = EXCLUDED.recipient_country,
+        content_greeting = EXCLUDED.content_greeting,
+        content_main_text = EXCLUDED.content_main_text,
+        content_closing = EXCLUDED.content_closing
+    `;
+  },
+  linkCounterparties: async (sql, docId, letter) => {
+    const sender = await resolveCounterparty(sql, {
+      name: letter.sender.organization,
+    });
+    await sql`
+      UPDATE letters
+      SET sender_counterparty_id = ${sender?.counterpartyId ?? null}
+      WHERE doc_id = ${docId}
+    `;
+    return sender ? [sender] : [];
+  },
+});
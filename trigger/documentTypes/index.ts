@@ -0,0 +1,92 @@
+import type { DocumentType } from "../types/domain";
+import type { DocumentTypeDefinition } from "./types";
+import { invoiceDocumentType } from "./invoice";
+import { bankStatementDocumentType } from "./bankStatement";
+import { governmentLetterDocumentType } from "./governmentLetter";
+import { receiptDocumentType } from "./receipt";
+import { contractDocumentType } from "./contract";
+
+// ============================================================================
+// DOCUMENT TYPE REGISTRY
+// ============================================================================
+// To add a document type, create a module next to this file that exports a
+// definition built with defineDocumentType() and append it to the list below.
+
+// Each entry keeps its own TData; the registry only hands data back to the
+// definition that validated it, so it holds them with the data type erased
+export type AnyDocumentTypeDefinition = DocumentTypeDefinition<unknown>;
+
+export const DOCUMENT_TYPES: readonly AnyDocumentTypeDefinition[] = [
+  invoiceDocumentType,
+  bankStatementDocumentType,
+  governmentLetterDocumentType,
+  receiptDocumentType,
+  contractDocumentType,
+];
+
+export const UNKNOWN_DOCUMENT_TYPE: DocumentType = "unknown";
+export const UNKNOWN_STORAGE_FOLDER = "unknown";
+
+// Parent of a PDF that was split into several child documents; never offered
+// to the classifier
+export const MULTI_DOCUMENT_TYPE: DocumentType = "multi_document";
+export const MULTI_DOCUMENT_STORAGE_FOLDER = "multi_document";
+
+const registry = new Map<string, AnyDocumentTypeDefinition>(
+  DOCUMENT_TYPES.map(definition => [definition.label, definition])
+);
+
+if (registry.size !== DOCUMENT_TYPES.length) {
+  throw new Error("Duplicate document type label in DOCUMENT_TYPES");
+}
+
+/**
+ * Look up a registered document type; returns undefined for "unknown" and
+ * for labels that are not registered
+ */
+export function getDocumentType(
+  label: DocumentType
+): AnyDocumentTypeDefinition | undefined {
+  return registry.get(label);
+}
+
+/**
+ * Labels the classifier may answer with, including "unknown"
+ */
+export function getClassifierLabels(): [string, ...string[]] {
+  return [UNKNOWN_DOCUMENT_TYPE, ...DOCUMENT_TYPES.map(type => type.label)];
+}
+
+function folderNameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+const folderNames = new Map<string, AnyDocumentTypeDefinition>(
+  DOCUMENT_TYPES.flatMap(definition =>
+    [definition.label, `${definition.label}s`, definition.storageFolder].map(
+      name => [folderNameKey(name), definition] as const
+    )
+  )
+);
+
+/**
+ * Document type named by an inbox subfolder, e.g. "Invoices/2025" or
+ * "Bank Statements". The innermost folder naming a type wins; returns
+ * undefined when no folder does.
+ */
+export function getDocumentTypeFromFolderPath(
+  folderPath: string
+): AnyDocumentTypeDefinition | undefined {
+  const segments = folderPath.split("/").reverse();
+  for (const segment of segments) {
+    const definition = folderNames.get(folderNameKey(segment));
+    if (definition) return definition;
+  }
+  return undefined;
+}
+
+export { defineDocumentType } from "./types";
+export type { DocumentTypeDefinition } from "./types";
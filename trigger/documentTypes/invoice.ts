@@ -0,0 +1,191 @@
+import { z } from "zod";
+import type { Extracted, InvoiceData } from "../types/domain";
+import {
+  localizedNumber,
+  nullableString,
+  nullableNumber,
+} from "../types/schemas";
+import { resolveCounterparty } from "../utils/counterparties";
+import { findIbans } from "../utils/iban";
+import { detectInvoiceAnomalies } from "../utils/invoiceAnomalies";
+import { findDuplicateInvoice } from "../utils/invoiceDuplicates";
+import { validateInvoice } from "../utils/invoiceValidation";
+import { validateInvoiceIdentifiers } from "../utils/identifierValidation";
+import { normalizeInvoiceLocale } from "../utils/localeNormalization";
+import { combineValidators } from "../utils/validationReport";
+import { defineDocumentType } from "./types";
+
+export const invoiceDataSchema = z.object({
+  document_info: z.object({
+    invoice_number: nullableString(),
+    invoice_date: nullableString(),
+    due_date: nullableString(),
+    currency: nullableString(),
+    language: nullableString(),
+  }),
+  vendor: z.object({
+    name: nullableString(),
+    address: nullableString(),
+    vat_number: nullableString(),
+    tax_id: nullableString(),
+    contact_email: nullableString(),
+  }),
+  customer: z.object({
+    name: nullableString(),
+    address: nullableString(),
+    vat_number: nullableString(),
+  }),
+  amounts: z.object({
+    subtotal: nullableNumber(),
+    total_vat: nullableNumber(),
+    total_amount: localizedNumber(),
+    vat_rate: nullableNumber(),
+  }),
+  line_items: z.array(
+    z.object({
+      description: z.string(),
+      quantity: nullableNumber(),
+      unit_price: nullableNumber(),
+      vat_rate: nullableNumber(),
+      vat_amount: nullableNumber(),
+      line_total: nullableNumber(),
+    })
+  ),
+  payment: z.object({
+    terms: nullableString(),
+    method: nullableString(),
+    bank_details: nullableString(),
+  }),
+}) satisfies z.ZodType<Extracted<InvoiceData>>;
+
+export const invoiceDocumentType = defineDocumentType<InvoiceData>({
+  label: "invoice",
+  description: "Invoice or bill requesting payment for goods or services",
+  storageFolder: "invoices",
+  extraction: {
+    promptName: "poc-3f/invoice",
+    observationName: "extract-invoice",
+    toolName: "record_invoice",
+    toolDescription: "Record the structured data extracted from the invoice.",
+    defaultMaxTokens: 2048,
+    schema: invoiceDataSchema,
+  },
+  normalize: normalizeInvoiceLocale,
+  validate: combineValidators(validateInvoiceIdentifiers, validateInvoice),
+  summarize: inv => [
+    `Invoice Number: ${inv.document_info.invoice_number}`,
+    `Total Amount: ${inv.amounts.total_amount} ${inv.document_info.currency}`,
+    `Line Items: ${inv.line_items.length}`,
+  ],
+  persist: async (sql, docId, inv) => {
+    await sql`
+      INSERT INTO invoices (
+        doc_id,
+        invoice_number,
+        invoice_date,
+        due_date,
+        currency,
+        language,
+        vendor_name,
+        vendor_address,
+        vendor_vat_number,
+        vendor_tax_id,
+        vendor_contact_email,
+        customer_name,
+        customer_address,
+        customer_vat_number,
+        subtotal,
+        total_vat,
+        total_amount,
+        vat_rate,
+        line_items,
+        payment_terms,
+        payment_method,
+        payment_bank_details
+      ) VALUES (
+        ${docId},
+        ${inv.document_info.invoice_number},
+        ${inv.document_info.invoice_date},
+        ${inv.document_info.due_date},
+        ${inv.document_info.currency},
+        ${inv.document_info.language},
+        ${inv.vendor.name},
+        ${inv.vendor.address},
+        ${inv.vendor.vat_number},
+        ${inv.vendor.tax_id},
+        ${inv.vendor.contact_email},
+        ${inv.customer.name},
+        ${inv.customer.address},
+        ${inv.customer.vat_number},
+        ${inv.amounts.subtotal},
+        ${inv.amounts.total_vat},
+        ${inv.amounts.total_amount},
+        ${inv.amounts.vat_rate},
+        ${JSON.stringify(inv.line_items)}::jsonb,
+        ${inv.payment.terms},
+        ${inv.payment.method},
+        ${inv.payment.bank_details}
+      )
+      ON CONFLICT (doc_id) DO UPDATE SET
+        invoice_number = EXCLUDED.invoice_number,
+        invoice_date = EXCLUDED.invoice_date,
+        due_date = EXCLUDED.due_date,
+        currency = EXCLUDED.currency,
+        language = EXCLUDED.language,
+        vendor_name = EXCLUDED.vendor_name,
+        vendor_address = EXCLUDED.vendor_address,
+        vendor_vat_number = EXCLUDED.vendor_vat_number,
+        vendor_tax_id = EXCLUDED.vendor_tax_id,
+        vendor_contact_email = EXCLUDED.vendor_contact_email,
+        customer_name = EXCLUDED.customer_name,
+        customer_address = EXCLUDED.customer_address,
+        customer_vat_number = EXCLUDED.customer_vat_number,
+        subtotal = EXCLUDED.subtotal,
+        total_vat = EXCLUDED.total_vat,
+        total_amount = EXCLUDED.total_amount,
+        vat_rate = EXCLUDED.vat_rate,
+        line_items = EXCLUDED.line_items,
+        payment_terms = EXCLUDED.payment_terms,
+        payment_method = EXCLUDED.payment_method,
+        payment_bank_details = EXCLUDED.payment_bank_details
+    `;
+
+    // Typed copy of the line items for SQL reporting; rewritten on every run
+    await sql`DELETE FROM invoice_line_items WHERE doc_id = ${docId}`;
+    if (inv.line_items.length > 0) {
+      await sql`
+        INSERT INTO invoice_line_items ${sql(
+          inv.line_items.map((item, ordinal) => ({
+            doc_id: docId,
+            ordinal,
+            description: item.description,
+            quantity: item.quantity,
+            unit_price: item.unit_price,
+            vat_rate: item.vat_rate,
+            vat_amount: item.vat_amount,
+            line_total: item.line_total,
+            invoice_date: inv.document_info.invoice_date,
+            currency: inv.document_info.currency,
+            vendor_name: inv.vendor.name,
+          }))
+        )}
+      `;
+    }
+  },
+  findDuplicate: findDuplicateInvoice,
+  linkCounterparties: async (sql, docId, inv) => {
+    const vendor = await resolveCounterparty(sql, {
+      name: inv.vendor.name,
+      vatNumber: inv.vendor.vat_number,
+      ibans: findIbans(inv.payment.bank_details),
+    });
+    await sql`
+      UPDATE invoices
+      SET vendor_counterparty_id = ${vendor?.counterpartyId ?? null}
+      WHERE doc_id = ${docId}
+    `;
+    return vendor ? [vendor] : [];
+  },
+  detectAnomalies: detectInvoiceAnomalies,
+  paymentMatching: "invoice",
+});
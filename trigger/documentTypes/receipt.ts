@@ -0,0 +1,139 @@
+import { z } from "zod";
+import type { Extracted, ReceiptData } from "../types/domain";
+import {
+  localizedNumber,
+  nullableString,
+  nullableNumber,
+} from "../types/schemas";
+import { validateReceiptIdentifiers } from "../utils/identifierValidation";
+import { normalizeReceiptLocale } from "../utils/localeNormalization";
+import { defineDocumentType } from "./types";
+
+export const receiptDataSchema = z.object({
+  document_info: z.object({
+    receipt_number: nullableString(),
+    date: nullableString(),
+    time: nullableString(),
+    currency: nullableString(),
+    language: nullableString(),
+    category: z.enum([
+      "fuel",
+      "meals",
+      "taxi",
+      "public_transport",
+      "parking",
+      "accommodation",
+      "office_supplies",
+      "other",
+    ]),
+  }),
+  merchant: z.object({
+    name: nullableString(),
+    address: nullableString(),
+    vat_number: nullableString(),
+  }),
+  payment: z.object({
+    method: z
+      .enum(["cash", "card", "mobile", "other"])
+      .nullable()
+      .default(null),
+    card_last_four: nullableString(),
+  }),
+  // One entry per VAT rate printed on the slip
+  tax_lines: z.array(
+    z.object({
+      vat_rate: localizedNumber(),
+      net_amount: nullableNumber(),
+      vat_amount: nullableNumber(),
+      gross_amount: nullableNumber(),
+    })
+  ),
+  amounts: z.object({
+    subtotal: nullableNumber(),
+    total_vat: nullableNumber(),
+    tip: nullableNumber(),
+    total_amount: localizedNumber(),
+  }),
+}) satisfies z.ZodType<Extracted<ReceiptData>>;
+
+export const receiptDocumentType = defineDocumentType<ReceiptData>({
+  label: "receipt",
+  description:
+    "Till receipt or expense slip (fuel, meals, taxi, parking), usually a photo of a small paper slip",
+  storageFolder: "receipts",
+  extraction: {
+    promptName: "poc-3f/receipt",
+    observationName: "extract-receipt",
+    toolName: "record_receipt",
+    toolDescription: "Record the structured data extracted from the receipt.",
+    defaultMaxTokens: 1024,
+    schema: receiptDataSchema,
+  },
+  normalize: normalizeReceiptLocale,
+  validate: validateReceiptIdentifiers,
+  summarize: receipt => [
+    `Merchant: ${receipt.merchant.name}`,
+    `Date: ${receipt.document_info.date}`,
+    `Category: ${receipt.document_info.category}`,
+    `Total Amount: ${receipt.amounts.total_amount} ${receipt.document_info.currency}`,
+    `Tax Lines: ${receipt.tax_lines.length}`,
+  ],
+  persist: async (sql, docId, receipt) => {
+    await sql`
+      INSERT INTO receipts (
+        doc_id,
+        receipt_number,
+        receipt_date,
+        receipt_time,
+        currency,
+        language,
+        category,
+        merchant_name,
+        merchant_address,
+        merchant_vat_number,
+        payment_method,
+        card_last_four,
+        subtotal,
+        total_vat,
+        tip,
+        total_amount,
+        tax_lines
+      ) VALUES (
+        ${docId},
+        ${receipt.document_info.receipt_number},
+        ${receipt.document_info.date},
+        ${receipt.document_info.time},
+        ${receipt.document_info.currency},
+        ${receipt.document_info.language},
+        ${receipt.document_info.category},
+        ${receipt.merchant.name},
+        ${receipt.merchant.address},
+        ${receipt.merchant.vat_number},
+        ${receipt.payment.method},
+        ${receipt.payment.card_last_four},
+        ${receipt.amounts.subtotal},
+        ${receipt.amounts.total_vat},
+        ${receipt.amounts.tip},
+        ${receipt.amounts.total_amount},
+        ${JSON.stringify(receipt.tax_lines)}::jsonb
+      )
+      ON CONFLICT (doc_id) DO UPDATE SET
+        receipt_number = EXCLUDED.receipt_number,
+        receipt_date = EXCLUDED.receipt_date,
+        receipt_time = EXCLUDED.receipt_time,
+        currency = EXCLUDED.currency,
+        language = EXCLUDED.language,
+        category = EXCLUDED.category,
+        merchant_name = EXCLUDED.merchant_name,
+        merchant_address = EXCLUDED.merchant_address,
+        merchant_vat_number = EXCLUDED.merchant_vat_number,
+        payment_method = EXCLUDED.payment_method,
+        card_last_four = EXCLUDED.card_last_four,
+        subtotal = EXCLUDED.subtotal,
+        total_vat = EXCLUDED.total_vat,
+        tip = EXCLUDED.tip,
+        total_amount = EXCLUDED.total_amount,
+        tax_lines = EXCLUDED.tax_lines
+    `;
+  },
+});
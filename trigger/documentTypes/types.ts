@@ -0,0 +1,112 @@
+import type { z } from "zod";
+import type { DbClient } from "../utils/db";
+import type {
+  CounterpartyResolution,
+  DocumentFlag,
+  DuplicateMatch,
+  Extracted,
+  PaymentMatchRole,
+  ValidationReport,
+} from "../types/domain";
+
+/**
+ * Everything the pipeline needs to know about one kind of document.
+ *
+ * A document type is defined by a single module in this folder and added to
+ * the DOCUMENT_TYPES list in ./index.ts. Classification, storage paths,
+ * extraction and metadata persistence all look the definition up by `label`.
+ *
+ * The hooks are declared as methods so a definition for a concrete `TData`
+ * can be held as `DocumentTypeDefinition<unknown>` in the registry: data
+ * reaches them from task payloads, where its type is not known statically.
+ */
+export interface DocumentTypeDefinition<TData = unknown> {
+  /** Classifier label; also stored in income_registry.classification */
+  label: string;
+  /** One-line description shown to the classifier next to the label */
+  description: string;
+  /** Top-level Supabase Storage folder for the PDF and JSON files */
+  storageFolder: string;
+  extraction: {
+    /** Langfuse prompt holding the extraction instructions */
+    promptName: string;
+    /** Langfuse generation name */
+    observationName: string;
+    /** Tool Claude must call; its input schema is generated from `schema` */
+    toolName: string;
+    toolDescription: string;
+    defaultMaxTokens: number;
+    schema: z.ZodType<Extracted<TData>>;
+    /**
+     * Extract PDFs longer than `pagesPerChunk` one page range at a time and
+     * merge the partial results in page order, so long documents do not hit
+     * max_tokens. Needs the stored PDF (`storagePath` in the task payload).
+     */
+    chunking?: {
+      pagesPerChunk: number;
+      merge(chunks: Extracted<TData>[]): Extracted<TData>;
+    };
+  };
+  /**
+   * Turn the extraction output into `TData`: printed amounts, dates and
+   * currencies are read with the document language as hint. Values that
+   * cannot be resolved are cleared and reported as warnings.
+   */
+  normalize(data: Extracted<TData>): {
+    data: TData;
+    report: ValidationReport;
+  };
+  /**
+   * Cross-check the normalized values. Returns the data with
+   * derivable gaps filled and a report; a "failed" report sends the document
+   * to "needs_review" instead of "processed".
+   */
+  validate?(data: TData): { data: TData; report: ValidationReport };
+  /** Log lines describing extracted data, printed by the extraction task */
+  summarize(data: TData): string[];
+  /** Upsert the extracted data into the type-specific table */
+  persist(sql: DbClient, docId: string, data: TData): Promise<void>;
+  /**
+   * Look for an earlier record of the same business document. A match is
+   * still persisted, but flagged as "suspected_duplicate" with a link to it.
+   */
+  findDuplicate?(
+    sql: DbClient,
+    docId: string,
+    data: TData
+  ): Promise<DuplicateMatch | null>;
+  /**
+   * Link the parties named in the document (vendor, sender, payees) to
+   * canonical counterparties. Runs after `persist`, in the same transaction.
+   */
+  linkCounterparties?(
+    sql: DbClient,
+    docId: string,
+    data: TData
+  ): Promise<CounterpartyResolution[]>;
+  /**
+   * Compare the document with stored history for signs of fraud or error.
+   * Runs after `linkCounterparties`, in the same transaction; open flags
+   * hold the document at "flagged" until acknowledged.
+   */
+  detectAnomalies?(
+    sql: DbClient,
+    docId: string,
+    data: TData
+  ): Promise<DocumentFlag[]>;
+  /**
+   * Match stored records against payments (reconcile-payments), as the
+   * invoice being paid or the statement whose transactions pay invoices.
+   * Runs after the registry update, for processed and needs_review documents.
+   */
+  paymentMatching?: PaymentMatchRole;
+}
+
+/**
+ * Identity helper that keeps `TData` inferred from the schema
+ */
+export function defineDocumentType<TData>(
+  definition: DocumentTypeDefinition<TData>
+): DocumentTypeDefinition<TData> {
+  return definition;
+}
@@ -0,0 +1,13 @@
+import { deleteStagedFile, fetchStagedFile } from "./staged";
+import { defineDocumentSource } from "./types";
+
+// Attachments staged by ingest-email. The mailbox is left untouched (the
+// ingester tracks its position by UID); acknowledging only drops the staged
+// copy.
+export const emailSource = defineDocumentSource<"email">({
+  kind: "email",
+  key: ref => `email:${ref.attachmentId}`,
+  describe: ref => ({ ...ref.provenance }),
+  fetch: (ref, mimeType) => fetchStagedFile(ref.stagedStoragePath, mimeType),
+  acknowledge: ref => deleteStagedFile(ref.stagedStoragePath),
+});
@@ -0,0 +1,54 @@
+import {
+  convertFileToPdfViaDrive,
+  downloadFileFromDrive,
+  exportFileAsPdf,
+  getFileMetadata,
+  moveFileToFolder,
+} from "../utils/drive";
+import { getGoogleImportMimeType, getSourceKind } from "../utils/sourceFormats";
+import { defineDocumentSource } from "./types";
+
+// Files found by the Drive cron (packages/cron). Native Google files and
+// office files are converted to PDF by Drive itself.
+export const googleDriveSource = defineDocumentSource<"google_drive">({
+  kind: "google_drive",
+  key: ref => `google_drive:${ref.fileId}`,
+  describe: ref => ({ fileId: ref.fileId }),
+
+  fetch: async (ref, mimeType) => {
+    const metadata = await getFileMetadata(ref.fileId);
+    const sourceKind = getSourceKind(mimeType);
+
+    const original =
+      sourceKind === "google_workspace"
+        ? null
+        : await downloadFileFromDrive(ref.fileId);
+    const pdf =
+      sourceKind === "google_workspace"
+        ? await exportFileAsPdf(ref.fileId)
+        : sourceKind === "office"
+          ? await convertFileToPdfViaDrive(
+              ref.fileId,
+              getGoogleImportMimeType(mimeType)!
+            )
+          : null;
+
+    return {
+      original,
+      pdf,
+      md5Checksum: metadata.md5Checksum ?? null,
+      createdTime: metadata.createdTime ?? null,
+    };
+  },
+
+  acknowledge: async ref => {
+    const processedFolderId = process.env.DRIVE_PROCESSED_FOLDER_ID;
+    if (!processedFolderId) {
+      console.log(
+        `[google_drive] ⚠️  DRIVE_PROCESSED_FOLDER_ID not configured - ${ref.fileId} stays in the inbox`
+      );
+      return;
+    }
+    await moveFileToFolder(ref.fileId, processedFolderId);
+  },
+});
@@ -0,0 +1,81 @@
+import type { DocumentSourceKind, DocumentSourceRef } from "../types/domain";
+import type { DocumentSourceDefinition, FetchedFile } from "./types";
+import { googleDriveSource } from "./googleDrive";
+import { emailSource } from "./email";
+import { uploadSource } from "./upload";
+import { localPathSource } from "./localPath";
+
+// ============================================================================
+// DOCUMENT SOURCE REGISTRY
+// ============================================================================
+// To add a source, extend DocumentSourceRef in types/domain.ts, create a
+// module next to this file with defineDocumentSource() and add it to
+// DOCUMENT_SOURCES and to the switch in withDocumentSource() below.
+
+const DOCUMENT_SOURCES: {
+  [K in DocumentSourceKind]: DocumentSourceDefinition<
+    Extract<DocumentSourceRef, { kind: K }>
+  >;
+} = {
+  google_drive: googleDriveSource,
+  email: emailSource,
+  upload: uploadSource,
+  local_path: localPathSource,
+};
+
+/**
+ * Hand `ref` to the source of its kind; the switch narrows the ref to the
+ * type that source accepts
+ */
+function withDocumentSource<T>(
+  ref: DocumentSourceRef,
+  use: <TRef extends DocumentSourceRef>(
+    source: DocumentSourceDefinition<TRef>,
+    ref: TRef
+  ) => T
+): T {
+  switch (ref.kind) {
+    case "google_drive":
+      return use(DOCUMENT_SOURCES.google_drive, ref);
+    case "email":
+      return use(DOCUMENT_SOURCES.email, ref);
+    case "upload":
+      return use(DOCUMENT_SOURCES.upload, ref);
+    case "local_path":
+      return use(DOCUMENT_SOURCES.local_path, ref);
+  }
+}
+
+/**
+ * income_registry.source_key of a file, e.g. "google_drive:{fileId}"
+ */
+export function getSourceKey(ref: DocumentSourceRef): string {
+  return withDocumentSource(ref, (source, sourceRef) => source.key(sourceRef));
+}
+
+export function describeSource(
+  ref: DocumentSourceRef
+): Record<string, unknown> {
+  return withDocumentSource(ref, (source, sourceRef) =>
+    source.describe(sourceRef)
+  );
+}
+
+export function fetchFromSource(
+  ref: DocumentSourceRef,
+  mimeType: string
+): Promise<FetchedFile> {
+  return withDocumentSource(ref, (source, sourceRef) =>
+    source.fetch(sourceRef, mimeType)
+  );
+}
+
+export function acknowledgeInSource(ref: DocumentSourceRef): Promise<void> {
+  return withDocumentSource(ref, (source, sourceRef) =>
+    source.acknowledge(sourceRef)
+  );
+}
+
+export { buildStagingPath } from "./stagingPath";
+export { defineDocumentSource } from "./types";
+export type { DocumentSourceDefinition, FetchedFile } from "./types";
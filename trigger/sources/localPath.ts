@@ -0,0 +1,38 @@
+import { mkdir, readFile, rename, stat } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { getSourceKind } from "../utils/sourceFormats";
+import { defineDocumentSource } from "./types";
+
+// Files on the machine running the tasks (`trigger dev`). Once stored, a file
+// is moved into a processed/ folder next to it, like Drive files are moved
+// to the processed folder.
+export const localPathSource = defineDocumentSource<"local_path">({
+  kind: "local_path",
+  key: ref => `local_path:${ref.path}@${ref.modifiedTime}`,
+  describe: ref => ({ path: ref.path, modifiedTime: ref.modifiedTime }),
+
+  fetch: async (ref, mimeType) => {
+    const sourceKind = getSourceKind(mimeType);
+    if (sourceKind !== "pdf" && sourceKind !== "image") {
+      throw new Error(
+        `${mimeType} can only be converted for files in Google Drive`
+      );
+    }
+    const [original, stats] = await Promise.all([
+      readFile(ref.path),
+      stat(ref.path),
+    ]);
+    return {
+      original,
+      pdf: null,
+      md5Checksum: null,
+      createdTime: stats.birthtime.toISOString(),
+    };
+  },
+
+  acknowledge: async ref => {
+    const processedDir = join(dirname(ref.path), "processed");
+    await mkdir(processedDir, { recursive: true });
+    await rename(ref.path, join(processedDir, basename(ref.path)));
+  },
+});
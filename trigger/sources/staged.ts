@@ -0,0 +1,33 @@
+import { deleteFile, downloadFile } from "../utils/storage";
+import { getSourceKind } from "../utils/sourceFormats";
+import type { FetchedFile } from "./types";
+
+// ============================================================================
+// STAGED FILES
+// ============================================================================
+// Email attachments and HTTP uploads are put in Supabase Storage under
+// inbox/staged/ before the workflow is triggered. Without Drive there is no
+// converter for office files, so only PDFs and images are accepted. Paths
+// come from buildStagingPath (stagingPath.ts).
+
+export async function fetchStagedFile(
+  stagedStoragePath: string,
+  mimeType: string
+): Promise<FetchedFile> {
+  const sourceKind = getSourceKind(mimeType);
+  if (sourceKind !== "pdf" && sourceKind !== "image") {
+    throw new Error(
+      `${mimeType} can only be converted for files in Google Drive`
+    );
+  }
+  return {
+    original: await downloadFile(stagedStoragePath),
+    pdf: null,
+    md5Checksum: null,
+    createdTime: null,
+  };
+}
+
+export async function deleteStagedFile(stagedStoragePath: string) {
+  await deleteFile(stagedStoragePath);
+}
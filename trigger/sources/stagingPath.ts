@@ -0,0 +1,5 @@
+// Storage path of a staged email attachment or HTTP upload. No imports, so
+// the upload endpoint stages files exactly where the upload source reads them.
+export function buildStagingPath(stagingId: string, extension: string) {
+  return `inbox/staged/${stagingId}.${extension}`;
+}
@@ -0,0 +1,54 @@
+import type { DocumentSourceKind, DocumentSourceRef } from "../types/domain";
+
+/**
+ * Bytes of a file fetched from its source
+ */
+export interface FetchedFile {
+  // As stored in the source; null for native Google files, which only
+  // exist as an export
+  original: Buffer | null;
+  // PDF the source converted itself (Drive export or office conversion);
+  // null when download-and-prepare normalizes `original`
+  pdf: Buffer | null;
+  md5Checksum: string | null; // Reported by the source, if it has one
+  createdTime: string | null;
+}
+
+/**
+ * How the pipeline reads from and cleans up one ingestion source.
+ *
+ * A source is defined by a single module in this folder and added to the
+ * DOCUMENT_SOURCES map in ./index.ts. register-document, download-and-prepare
+ * and store-file look the definition up by the `kind` of the payload's ref.
+ */
+export interface DocumentSourceDefinition<
+  TRef extends DocumentSourceRef = DocumentSourceRef,
+> {
+  kind: TRef["kind"];
+  /**
+   * Identity of the file within its source, stored in
+   * income_registry.source_key; registering the same key twice returns the
+   * existing document
+   */
+  key: (ref: TRef) => string;
+  /** Provenance stored in income_registry.source_metadata */
+  describe: (ref: TRef) => Record<string, unknown>;
+  /** Download the file for download-and-prepare */
+  fetch: (ref: TRef, mimeType: string) => Promise<FetchedFile>;
+  /**
+   * Take the file out of the source's inbox once it is stored (or found to
+   * be a duplicate), so it is not ingested again
+   */
+  acknowledge: (ref: TRef) => Promise<void>;
+}
+
+/**
+ * Identity helper that ties a definition to its ref type
+ */
+export function defineDocumentSource<TKind extends DocumentSourceKind>(
+  definition: DocumentSourceDefinition<
+    Extract<DocumentSourceRef, { kind: TKind }>
+  >
+): DocumentSourceDefinition<Extract<DocumentSourceRef, { kind: TKind }>> {
+  return definition;
+}
@@ -0,0 +1,11 @@
+import { deleteStagedFile, fetchStagedFile } from "./staged";
+import { defineDocumentSource } from "./types";
+
+// Files posted to the HTTP upload endpoint (packages/upload)
+export const uploadSource = defineDocumentSource<"upload">({
+  kind: "upload",
+  key: ref => `upload:${ref.uploadId}`,
+  describe: ref => ({ uploadId: ref.uploadId, uploadedBy: ref.uploadedBy }),
+  fetch: (ref, mimeType) => fetchStagedFile(ref.stagedStoragePath, mimeType),
+  acknowledge: ref => deleteStagedFile(ref.stagedStoragePath),
+});
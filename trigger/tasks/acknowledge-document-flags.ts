@@ -0,0 +1,106 @@
+import { AbortTaskRunError, task } from "@trigger.dev/sdk";
+import { getDb } from "../utils/db";
+import { getDocumentType } from "../documentTypes";
+import { acknowledgeOpenFlags, countOpenFlags } from "../utils/documentFlags";
+import { reconcilePayments } from "./reconcile-payments";
+import type { DocumentFlagKind, DocumentStatus } from "../types/domain";
+
+// ============================================================================
+// REVIEW: ACKNOWLEDGE DOCUMENT FLAGS
+// ============================================================================
+// Run from the dashboard once a reviewer has checked a flagged document
+// (e.g. called the vendor about new bank details). When no open flag is
+// left, a "flagged" document becomes "processed" and invoices are matched
+// against payments.
+
+export const acknowledgeDocumentFlags = task({
+  id: "acknowledge-document-flags",
+  retry: {
+    maxAttempts: 3,
+    factor: 1.8,
+    minTimeoutInMs: 1000,
+    maxTimeoutInMs: 10000,
+    randomize: false,
+  },
+  run: async (payload: {
+    docId: string;
+    acknowledgedBy: string; // Reviewer, recorded on each flag
+    kinds?: DocumentFlagKind[]; // Default: every open flag
+  }): Promise<{
+    acknowledged: number;
+    openFlags: number;
+    status: DocumentStatus;
+  }> => {
+    const taskId = "acknowledge-document-flags";
+    console.log(
+      `[${taskId}] Acknowledging ${payload.kinds?.join(", ") ?? "all"} flags of ${payload.docId}...`
+    );
+
+    const sql = getDb();
+
+    const result = await sql.begin(async tx => {
+      const [registry] = await tx<
+        { status: DocumentStatus; classification: string | null }[]
+      >`
+        SELECT status, classification
+        FROM income_registry
+        WHERE doc_id = ${payload.docId}
+        FOR UPDATE
+      `;
+      if (!registry) return null;
+
+      const acknowledged = await acknowledgeOpenFlags(
+        tx,
+        payload.docId,
+        payload.acknowledgedBy,
+        payload.kinds
+      );
+      const openFlags = await countOpenFlags(tx, payload.docId);
+
+      let status = registry.status;
+      if (openFlags === 0 && status === "flagged") {
+        status = "processed";
+        await tx`
+          UPDATE income_registry
+          SET status = ${status}
+          WHERE doc_id = ${payload.docId}
+        `;
+      }
+
+      return {
+        acknowledged,
+        openFlags,
+        status,
+        released: status !== registry.status,
+        classification: registry.classification,
+      };
+    });
+
+    if (!result) {
+      throw new AbortTaskRunError(`Document ${payload.docId} does not exist`);
+    }
+
+    console.log(
+      `[${taskId}] ✓ ${result.acknowledged} flags acknowledged, ${result.openFlags} open - status: "${result.status}"`
+    );
+
+    const paymentMatching = result.classification
+      ? getDocumentType(result.classification)?.paymentMatching
+      : undefined;
+    if (result.released && paymentMatching) {
+      await reconcilePayments.trigger({
+        docId: payload.docId,
+        role: paymentMatching,
+      });
+      console.log(`[${taskId}] Payment matching triggered`);
+    }
+
+    console.log(`[${taskId}] Completed successfully`);
+
+    return {
+      acknowledged: result.acknowledged,
+      openFlags: result.openFlags,
+      status: result.status,
+    };
+  },
+});
@@ -5,7 +5,13 @@ import {
   uploadFileToClaude,
   classifyDocument as claudeClassify,
 } from "../utils/claude";
-import type { FileMetadata, ClassificationResult } from "../types/domain";
+import { getClassifierLabels } from "../documentTypes";
+import type {
+  FileMetadata,
+  ClassificationPreset,
+  ClassificationResult,
+} from "../types/domain";
+import type { ClassificationResponse } from "../types/schemas";
 
 // ============================================================================
 // TASK 2: CLASSIFY DOCUMENT (Hidden)
@@ -25,6 +31,7 @@ export const classifyDocument = task({
     storagePath: string;
     metadata: FileMetadata;
     langfuseTraceId?: string;
+    preset?: ClassificationPreset; // Skips the Claude call
   }) => {
     const taskId = "classify-document";
     console.log(
@@ -71,22 +78,34 @@ export const classifyDocument = task({
       console.log(`[${taskId}] ✓ File uploaded to Claude`);
       console.log(`[${taskId}] - Claude File ID: ${uploadResult.id}`);
 
-      // Step 3: Classify document using Claude API
-      console.log(`[${taskId}] Calling Claude with classification prompt...`);
-      console.log(`[${taskId}] - Model: claude-3-5-haiku-20241022`);
-      console.log(`[${taskId}] Requesting classification into:`);
-      console.log(`[${taskId}] - invoice`);
-      console.log(`[${taskId}] - bank_statement`);
-      console.log(`[${taskId}] - government_letter`);
-      console.log(`[${taskId}] - unknown`);
-
-      const classification = await claudeClassify(
-        uploadResult.id,
-        payload.metadata.fileName,
-        payload.langfuseTraceId
-          ? { traceId: payload.langfuseTraceId }
-          : undefined
-      );
+      // Step 3: Classify document using Claude API, unless the inbox folder
+      // already names the type (the upload is still needed for extraction)
+      let classification: ClassificationResponse;
+      if (payload.preset) {
+        console.log(
+          `[${taskId}] Document type preset by inbox folder: ${payload.preset.documentType}`
+        );
+        classification = {
+          document_type: payload.preset.documentType,
+          confidence: 1,
+          reasoning: payload.preset.reason,
+        };
+      } else {
+        console.log(`[${taskId}] Calling Claude with classification prompt...`);
+        console.log(`[${taskId}] - Model: claude-3-5-haiku-20241022`);
+        console.log(`[${taskId}] Requesting classification into:`);
+        for (const label of getClassifierLabels()) {
+          console.log(`[${taskId}] - ${label}`);
+        }
+
+        classification = await claudeClassify(
+          uploadResult.id,
+          payload.metadata.fileName,
+          payload.langfuseTraceId
+            ? { traceId: payload.langfuseTraceId }
+            : undefined
+        );
+      }
 
       console.log(`[${taskId}] ✓ Classification completed`);
       console.log(
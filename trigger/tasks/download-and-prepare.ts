@@ -1,13 +1,49 @@
+import { createHash } from "node:crypto";
 import { task } from "@trigger.dev/sdk";
 import { getDb } from "../utils/db";
-import { downloadFileFromDrive, getFileMetadata } from "../utils/drive";
 import { uploadFile } from "../utils/storage";
-import type { FileMetadata } from "../types/domain";
+import {
+  PDF_MIME_TYPE,
+  getSourceKind,
+  getOriginalExtension,
+  toPdfFileName,
+} from "../utils/sourceFormats";
+import { convertImageToPdf } from "../utils/pdfConversion";
+import { acknowledgeInSource, fetchFromSource } from "../sources";
+import type { DocumentSourceRef, FileMetadata } from "../types/domain";
 
 // ============================================================================
 // TASK 1: DOWNLOAD AND PREPARE (Hidden)
 // ============================================================================
 
+// Documents a copy is a duplicate of: finished ones, and ones still being
+// processed that claimed the content first. Documents that ended in a
+// terminal failure (download, storage or extraction) are not, so uploading
+// the file again retries it. classification_failed and
+// metadata_storage_failed are intermediate: the run continues or retries.
+const FINISHED_STATUSES = [
+  "processed",
+  "needs_review",
+  "flagged",
+  "split",
+  "rejected",
+  "suspected_duplicate",
+];
+const IN_PROGRESS_STATUSES = [
+  "downloading",
+  "downloaded",
+  "segmenting",
+  "classifying",
+  "classified",
+  "classification_failed",
+  "storing",
+  "stored",
+  "extracting",
+  "extracted",
+  "saving_metadata",
+  "metadata_storage_failed",
+];
+
 export const downloadAndPrepare = task({
   id: "download-and-prepare",
   retry: {
@@ -19,9 +55,10 @@ export const downloadAndPrepare = task({
   },
   run: async (payload: {
     docId: string;
-    fileId: string;
+    source: DocumentSourceRef;
     fileName: string;
     mimeType: string;
+    createdTime?: string; // Fallback when the source reports none
   }) => {
     const taskId = "download-and-prepare";
     console.log(
@@ -42,7 +79,8 @@ export const downloadAndPrepare = task({
 
       // Validate MIME type
       console.log(`[${taskId}] Validating MIME type...`);
-      if (payload.mimeType !== "application/pdf") {
+      const sourceKind = getSourceKind(payload.mimeType);
+      if (!sourceKind) {
         console.log(
           `[${taskId}] ERROR: Invalid MIME type "${payload.mimeType}"`
         );
@@ -57,39 +95,135 @@ export const downloadAndPrepare = task({
 
         throw new Error(`Unsupported MIME type: ${payload.mimeType}`);
       }
-      console.log(`[${taskId}] ✓ MIME type validated: application/pdf`);
-
-      // Get file metadata from Google Drive
-      console.log(`[${taskId}] Fetching file metadata from Google Drive...`);
-      const driveMetadata = await getFileMetadata(payload.fileId);
-      console.log(`[${taskId}] ✓ Metadata fetched`);
       console.log(
-        `[${taskId}] - Size: ${driveMetadata.size ? (Number(driveMetadata.size) / 1024).toFixed(2) : "unknown"} KB`
+        `[${taskId}] ✓ MIME type validated: ${payload.mimeType} (${sourceKind})`
       );
+
+      // Download (or export) the file from its source
       console.log(
-        `[${taskId}] - MD5 Checksum: ${driveMetadata.md5Checksum || "N/A"}`
+        `[${taskId}] Downloading file from ${payload.source.kind}...`
       );
-
-      // Download file from Google Drive
-      console.log(`[${taskId}] Downloading file from Google Drive...`);
-      console.log(`[${taskId}] - File ID: ${payload.fileId}`);
       console.log(`[${taskId}] - File Name: ${payload.fileName}`);
 
-      const fileBuffer = await downloadFileFromDrive(payload.fileId);
+      // Native Google files have no binary original; everything else is
+      // downloaded as-is and kept next to the normalized PDF
+      const fetched = await fetchFromSource(payload.source, payload.mimeType);
+      const originalBuffer = fetched.original;
+      const md5Checksum = fetched.md5Checksum;
 
-      console.log(`[${taskId}] ✓ File downloaded successfully`);
-      console.log(
-        `[${taskId}] - Downloaded size: ${(fileBuffer.length / 1024).toFixed(2)} KB`
-      );
+      if (originalBuffer) {
+        console.log(`[${taskId}] ✓ File downloaded successfully`);
+        console.log(
+          `[${taskId}] - Downloaded size: ${(originalBuffer.length / 1024).toFixed(2)} KB`
+        );
+      }
+      console.log(`[${taskId}] - MD5 Checksum: ${md5Checksum || "N/A"}`);
+
+      // Normalize to PDF; Drive exports and converts its own formats
+      let fileBuffer: Buffer;
+      if (fetched.pdf) {
+        fileBuffer = fetched.pdf;
+      } else if (sourceKind === "image") {
+        console.log(`[${taskId}] Converting image to PDF...`);
+        fileBuffer = await convertImageToPdf(originalBuffer!, payload.mimeType);
+      } else {
+        fileBuffer = originalBuffer!;
+      }
+
+      if (sourceKind !== "pdf") {
+        console.log(`[${taskId}] ✓ Normalized to PDF`);
+        console.log(
+          `[${taskId}] - PDF size: ${(fileBuffer.length / 1024).toFixed(2)} KB`
+        );
+      }
+
+      // Identical bytes under another source file (re-upload or copy) are
+      // not processed again. Hash the downloaded original so conversions
+      // that are not byte-stable do not hide duplicates.
+      const contentHash = createHash("sha256")
+        .update(originalBuffer ?? fileBuffer)
+        .digest("hex");
+      console.log(`[${taskId}] - SHA-256: ${contentHash}`);
+
+      // Claim the hash under a lock, so of two copies processed at the same
+      // time only the first goes on; a run stuck for a day no longer blocks
+      const duplicateOf = await sql.begin(async tx => {
+        await tx`SELECT pg_advisory_xact_lock(hashtext(${contentHash}))`;
+
+        const [original] = await tx<{ doc_id: string }[]>`
+          SELECT doc_id
+          FROM income_registry
+          WHERE content_sha256 = ${contentHash}
+            AND doc_id <> ${payload.docId}
+            AND (
+              status IN ${tx(FINISHED_STATUSES)}
+              OR (
+                status IN ${tx(IN_PROGRESS_STATUSES)}
+                AND registered_at > NOW() - INTERVAL '1 day'
+              )
+            )
+          ORDER BY registered_at ASC
+          LIMIT 1
+        `;
+
+        if (original) {
+          await tx`
+            UPDATE income_registry
+            SET status = 'duplicate',
+                content_sha256 = ${contentHash},
+                md5_checksum = ${md5Checksum},
+                duplicate_of = ${original.doc_id},
+                duplicate_score = 1,
+                processed_at = NOW()
+            WHERE doc_id = ${payload.docId}
+          `;
+          return original.doc_id;
+        }
+
+        await tx`
+          UPDATE income_registry
+          SET content_sha256 = ${contentHash},
+              md5_checksum = ${md5Checksum}
+          WHERE doc_id = ${payload.docId}
+        `;
+        return null;
+      });
+
+      if (duplicateOf) {
+        console.log(
+          `[${taskId}] ⚠️  Duplicate of ${duplicateOf} - skipping processing`
+        );
+
+        // Take the copy out of the source inbox so it is not picked up again
+        try {
+          await acknowledgeInSource(payload.source);
+          console.log(`[${taskId}] ✓ Acknowledged in ${payload.source.kind}`);
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          console.log(
+            `[${taskId}] ⚠️  Could not acknowledge in ${payload.source.kind}: ${message}`
+          );
+        }
+
+        console.log(`[${taskId}] Completed successfully (duplicate)`);
+
+        return {
+          duplicateOf,
+          contentHash,
+          md5Checksum,
+        };
+      }
 
       // Upload to Supabase Storage inbox folder
       console.log(`[${taskId}] Uploading file to Supabase Storage inbox...`);
       const storageKey = `inbox/${payload.docId}.pdf`;
+      const pdfFileName = toPdfFileName(payload.fileName);
 
       const uploadResult = await uploadFile(
         storageKey,
         fileBuffer,
-        payload.mimeType,
+        PDF_MIME_TYPE,
         payload.fileName // Pass original filename to metadata
       );
 
@@ -97,11 +231,32 @@ export const downloadAndPrepare = task({
       console.log(`[${taskId}] - Storage Key: ${uploadResult.key}`);
       console.log(`[${taskId}] - Storage URL: ${uploadResult.url}`);
 
+      // Keep the original (image/office file) next to the normalized PDF
+      let originalStoragePath: string | undefined;
+      if (sourceKind !== "pdf" && originalBuffer) {
+        const extension = getOriginalExtension(payload.mimeType);
+        originalStoragePath = `inbox/${payload.docId}.original.${extension}`;
+
+        console.log(`[${taskId}] Uploading original file to inbox...`);
+        await uploadFile(
+          originalStoragePath,
+          originalBuffer,
+          payload.mimeType,
+          payload.fileName
+        );
+        console.log(`[${taskId}] ✓ Original stored: ${originalStoragePath}`);
+      }
+
+      // Downstream tasks only ever see the normalized PDF
       const metadata: FileMetadata = {
-        fileName: payload.fileName,
-        mimeType: payload.mimeType,
+        fileName: pdfFileName,
+        mimeType: PDF_MIME_TYPE,
+        originalMimeType: payload.mimeType,
         size: fileBuffer.length,
-        createdTime: driveMetadata.createdTime || new Date().toISOString(),
+        createdTime:
+          fetched.createdTime ||
+          payload.createdTime ||
+          new Date().toISOString(),
       };
 
       // Update status to "downloaded"
@@ -116,10 +271,13 @@ export const downloadAndPrepare = task({
 
       // Return storage path instead of buffer to keep tasks stateless
       return {
+        duplicateOf: null,
+        contentHash,
         storagePath: storageKey,
         storageUrl: uploadResult.url,
+        originalStoragePath,
         metadata,
-        md5Checksum: driveMetadata.md5Checksum,
+        md5Checksum,
       };
     } catch (error) {
       console.error(`[${taskId}] Error:`, error);
@@ -1,22 +1,144 @@
-import { task } from "@trigger.dev/sdk";
+import { task, AbortTaskRunError } from "@trigger.dev/sdk";
 import {
-  extractInvoice as claudeExtractInvoice,
-  extractStatement as claudeExtractStatement,
-  extractLetter as claudeExtractLetter,
+  extractDocument as claudeExtractDocument,
+  uploadFileToClaude,
+  ExtractionValidationError,
+  ClaudeTruncationError,
 } from "../utils/claude";
-import type {
-  InvoiceData,
-  StatementData,
-  LetterData,
-  ExtractionTaskPayload,
-} from "../types/domain";
+import { downloadFile } from "../utils/storage";
+import {
+  countPdfPages,
+  extractPdfPages,
+  pageRangeFileName,
+} from "../utils/pdfPages";
+import { PDF_MIME_TYPE } from "../utils/sourceFormats";
+import { buildValidationReport } from "../utils/validationReport";
+import { getDocumentType } from "../documentTypes";
+import type { AnyDocumentTypeDefinition } from "../documentTypes";
+import type { ExtractionTaskPayload, ExtractedDocument } from "../types/domain";
+import {
+  extractionTaskPayloadSchema,
+  parseTaskPayload,
+} from "../types/schemas";
+
+/**
+ * Validation failures (the repair loop already re-asked the model) and
+ * max_tokens truncation are deterministic, so a task retry would only repeat
+ * the same paid calls - fail the run without retrying instead
+ */
+function toExtractionFailure(label: string, error: unknown): Error {
+  const message = `Failed to extract ${label} data: ${error instanceof Error ? error.message : String(error)}`;
+  return error instanceof ExtractionValidationError ||
+    error instanceof ClaudeTruncationError
+    ? new AbortTaskRunError(message)
+    : new Error(message);
+}
+
+/**
+ * Extract one page range; a range that still hits max_tokens is split in
+ * half and retried, down to single pages
+ */
+async function extractPageRange(
+  taskId: string,
+  definition: AnyDocumentTypeDefinition,
+  pdf: Buffer,
+  range: { start: number; end: number; pageCount: number },
+  payload: ExtractionTaskPayload
+): Promise<unknown[]> {
+  const fileName = pageRangeFileName(payload.fileName, range.start, range.end);
+  console.log(
+    `[${taskId}] Extracting pages ${range.start}-${range.end} of ${range.pageCount}...`
+  );
+
+  const chunkBuffer = await extractPdfPages(pdf, range.start, range.end);
+  const upload = await uploadFileToClaude(chunkBuffer, fileName, PDF_MIME_TYPE);
+
+  try {
+    const data = await claudeExtractDocument(
+      definition,
+      upload.id,
+      fileName,
+      payload.langfuseTraceId
+        ? { traceId: payload.langfuseTraceId }
+        : undefined,
+      range
+    );
+    return [data];
+  } catch (error) {
+    if (
+      !(error instanceof ClaudeTruncationError) ||
+      range.start === range.end
+    ) {
+      throw error;
+    }
+    const middle = Math.floor((range.start + range.end) / 2);
+    console.log(
+      `[${taskId}] ⚠️  Pages ${range.start}-${range.end} truncated, splitting at page ${middle}`
+    );
+    return [
+      ...(await extractPageRange(
+        taskId,
+        definition,
+        pdf,
+        { ...range, end: middle },
+        payload
+      )),
+      ...(await extractPageRange(
+        taskId,
+        definition,
+        pdf,
+        { ...range, start: middle + 1 },
+        payload
+      )),
+    ];
+  }
+}
+
+/**
+ * Page-range extraction for types with `chunking`, when the stored PDF is
+ * longer than one chunk; null means the whole file fits in one request
+ */
+async function extractInChunks(
+  taskId: string,
+  definition: AnyDocumentTypeDefinition,
+  payload: ExtractionTaskPayload
+): Promise<unknown | null> {
+  const chunking = definition.extraction.chunking;
+  if (!chunking || !payload.storagePath) return null;
+
+  const pdf = await downloadFile(payload.storagePath);
+  const pageCount = await countPdfPages(pdf);
+  if (pageCount <= chunking.pagesPerChunk) return null;
+
+  console.log(
+    `[${taskId}] ${pageCount} pages - extracting in ranges of ${chunking.pagesPerChunk}`
+  );
+
+  const chunks: unknown[] = [];
+  for (let start = 1; start <= pageCount; start += chunking.pagesPerChunk) {
+    const end = Math.min(start + chunking.pagesPerChunk - 1, pageCount);
+    chunks.push(
+      ...(await extractPageRange(
+        taskId,
+        definition,
+        pdf,
+        { start, end, pageCount },
+        payload
+      ))
+    );
+  }
+
+  console.log(`[${taskId}] ✓ Merging ${chunks.length} page ranges`);
+  return chunking.merge(chunks);
+}
 
 // ============================================================================
-// TASK 4a: EXTRACT INVOICE DATA (Hidden)
+// TASK 4: EXTRACT DOCUMENT DATA (Hidden)
 // ============================================================================
+// Prompt, output schema and log summary come from the document type registry
 
-export const extractInvoiceData = task({
-  id: "extract-invoice-data",
+export const extractDocumentData = task({
+  id: "extract-document-data",
   retry: {
     maxAttempts: 10,
     factor: 1.5,
@@ -24,176 +146,86 @@ export const extractInvoiceData = task({
     maxTimeoutInMs: 30000,
     randomize: true,
   },
-  run: async (payload: ExtractionTaskPayload) => {
-    const taskId = "extract-invoice-data";
+  run: async (input: ExtractionTaskPayload): Promise<ExtractedDocument> => {
+    const taskId = "extract-document-data";
+    const payload = parseTaskPayload(
+      extractionTaskPayloadSchema,
+      input,
+      taskId
+    );
     console.log(`[${taskId}] Starting extraction for doc: ${payload.docId}`);
+    console.log(`[${taskId}] Document Type: ${payload.documentType}`);
     console.log(`[${taskId}] Claude File ID: ${payload.claudeFileId}`);
 
-    if (!payload.claudeFileId) {
-      throw new Error("Claude File ID is required for invoice extraction");
-    }
-
-    try {
-      // Call Claude API for invoice extraction
-      console.log(
-        `[${taskId}] Calling Claude with invoice extraction prompt...`
-      );
-      console.log(`[${taskId}] Requesting structured invoice data...`);
-
-      const invoiceData = await claudeExtractInvoice(
-        payload.claudeFileId,
-        payload.fileName,
-        payload.langfuseTraceId
-          ? { traceId: payload.langfuseTraceId }
-          : undefined
-      );
-
-      console.log(`[${taskId}] ✓ Extraction completed successfully`);
-      console.log(
-        `[${taskId}] - Invoice Number: ${invoiceData.document_info.invoice_number}`
-      );
-      console.log(
-        `[${taskId}] - Total Amount: ${invoiceData.amounts.total_amount} ${invoiceData.document_info.currency}`
-      );
-      console.log(`[${taskId}] - Line Items: ${invoiceData.line_items.length}`);
-
-      console.log(`[${taskId}] Completed successfully`);
-
-      return { invoiceData };
-    } catch (error) {
-      console.error(`[${taskId}] Extraction failed:`, error);
-      throw new Error(
-        `Failed to extract invoice data: ${error instanceof Error ? error.message : String(error)}`
+    const definition = getDocumentType(payload.documentType);
+    if (!definition) {
+      throw new AbortTaskRunError(
+        `No extractor registered for document type "${payload.documentType}"`
       );
     }
-  },
-});
-
-// ============================================================================
-// TASK 4b: EXTRACT STATEMENT DATA (Hidden)
-// ============================================================================
-
-export const extractStatementData = task({
-  id: "extract-statement-data",
-  retry: {
-    maxAttempts: 10,
-    factor: 1.5,
-    minTimeoutInMs: 2000,
-    maxTimeoutInMs: 30000,
-    randomize: true,
-  },
-  run: async (payload: ExtractionTaskPayload) => {
-    const taskId = "extract-statement-data";
-    console.log(`[${taskId}] Starting extraction for doc: ${payload.docId}`);
-    console.log(`[${taskId}] Claude File ID: ${payload.claudeFileId}`);
 
     if (!payload.claudeFileId) {
-      throw new Error("Claude File ID is required for statement extraction");
-    }
-
-    try {
-      // Call Claude API for statement extraction
-      console.log(
-        `[${taskId}] Calling Claude with statement extraction prompt...`
-      );
-      console.log(`[${taskId}] Requesting structured bank statement data...`);
-
-      const statementData = await claudeExtractStatement(
-        payload.claudeFileId,
-        payload.fileName,
-        payload.langfuseTraceId
-          ? { traceId: payload.langfuseTraceId }
-          : undefined
-      );
-
-      console.log(`[${taskId}] ✓ Extraction completed successfully`);
-      console.log(
-        `[${taskId}] - Bank: ${statementData.document_info.bank_name}`
-      );
-      console.log(
-        `[${taskId}] - Period: ${statementData.document_info.period_start} to ${statementData.document_info.period_end}`
-      );
-      console.log(
-        `[${taskId}] - Transactions: ${statementData.transactions.length}`
-      );
-      console.log(
-        `[${taskId}] - Opening Balance: ${statementData.account.opening_balance} ${statementData.document_info.currency}`
-      );
-      console.log(
-        `[${taskId}] - Closing Balance: ${statementData.account.closing_balance} ${statementData.document_info.currency}`
-      );
-
-      console.log(`[${taskId}] Completed successfully`);
-
-      return { statementData };
-    } catch (error) {
-      console.error(`[${taskId}] Extraction failed:`, error);
       throw new Error(
-        `Failed to extract statement data: ${error instanceof Error ? error.message : String(error)}`
+        `Claude File ID is required for ${definition.label} extraction`
       );
     }
-  },
-});
-
-// ============================================================================
-// TASK 4c: EXTRACT LETTER DATA (Hidden)
-// ============================================================================
-
-export const extractLetterData = task({
-  id: "extract-letter-data",
-  retry: {
-    maxAttempts: 10,
-    factor: 1.5,
-    minTimeoutInMs: 2000,
-    maxTimeoutInMs: 30000,
-    randomize: true,
-  },
-  run: async (payload: ExtractionTaskPayload) => {
-    const taskId = "extract-letter-data";
-    console.log(`[${taskId}] Starting extraction for doc: ${payload.docId}`);
-    console.log(`[${taskId}] Claude File ID: ${payload.claudeFileId}`);
-
-    if (!payload.claudeFileId) {
-      throw new Error("Claude File ID is required for letter extraction");
-    }
 
     try {
-      // Call Claude API for letter extraction
       console.log(
-        `[${taskId}] Calling Claude with letter extraction prompt...`
-      );
-      console.log(`[${taskId}] Requesting structured official letter data...`);
-
-      const letterData = await claudeExtractLetter(
-        payload.claudeFileId,
-        payload.fileName,
-        payload.langfuseTraceId
-          ? { traceId: payload.langfuseTraceId }
-          : undefined
-      );
+        `[${taskId}] Calling Claude with ${definition.extraction.promptName} prompt...`
+      );
+
+      // Long documents are extracted page range by page range when the type
+      // supports it; the merged result goes through the same validation
+      const extracted =
+        (await extractInChunks(taskId, definition, payload)) ??
+        (await claudeExtractDocument(
+          definition,
+          payload.claudeFileId,
+          payload.fileName,
+          payload.langfuseTraceId
+            ? { traceId: payload.langfuseTraceId }
+            : undefined
+        ));
 
       console.log(`[${taskId}] ✓ Extraction completed successfully`);
-      console.log(
-        `[${taskId}] - Letter Type: ${letterData.letter_details.letter_type}`
-      );
-      console.log(
-        `[${taskId}] - Subject: ${letterData.letter_details.subject}`
-      );
-      console.log(
-        `[${taskId}] - Due Date: ${letterData.letter_details.due_date}`
-      );
-      console.log(
-        `[${taskId}] - Amount Due: ${letterData.letter_details.amount_due} ${letterData.letter_details.currency}`
-      );
+
+      // Read printed amounts, dates and currencies, then cross-check the
+      // values and fill derivable gaps
+      const normalized = definition.normalize(extracted);
+      const checked = definition.validate?.(normalized.data);
+      const data = checked ? checked.data : normalized.data;
+      const report = buildValidationReport(
+        [...normalized.report.issues, ...(checked?.report.issues ?? [])],
+        [...normalized.report.derived, ...(checked?.report.derived ?? [])]
+      );
+
+      for (const line of definition.summarize(data)) {
+        console.log(`[${taskId}] - ${line}`);
+      }
+
+      console.log(`[${taskId}] Validation: ${report.status}`);
+      for (const field of report.derived) {
+        console.log(
+          `[${taskId}] - Derived ${field.path} = ${field.value} (${field.rule})`
+        );
+      }
+      for (const issue of report.issues) {
+        console.log(
+          `[${taskId}] - ${issue.severity.toUpperCase()} ${issue.check}: ${issue.message} (expected ${issue.expected}, got ${issue.actual}, tolerance ${issue.tolerance})`
+        );
+      }
 
       console.log(`[${taskId}] Completed successfully`);
 
-      return { letterData };
+      return {
+        documentType: definition.label,
+        data,
+        validation: report,
+      };
     } catch (error) {
       console.error(`[${taskId}] Extraction failed:`, error);
-      throw new Error(
-        `Failed to extract letter data: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw toExtractionFailure(definition.label, error);
     }
   },
 });
@@ -5,14 +5,18 @@
 // Individual task exports
 export { registerDocument } from "./register-document";
 export { downloadAndPrepare } from "./download-and-prepare";
+export { segmentDocument } from "./segment-document";
 export { classifyDocument } from "./classify-document";
 export { storeFile } from "./store-file";
-export {
-  extractInvoiceData,
-  extractStatementData,
-  extractLetterData,
-} from "./extract-data";
+export { extractDocumentData } from "./extract-data";
 export { storeMetadata } from "./store-metadata";
+export { statementContinuityReport } from "./statement-continuity-report";
+export { reconcilePayments } from "./reconcile-payments";
+export { reviewPaymentMatch } from "./review-payment-match";
+export { mergeCounterparties } from "./merge-counterparties";
+export { splitCounterparty } from "./split-counterparty";
+export { acknowledgeDocumentFlags } from "./acknowledge-document-flags";
+export { ingestEmail, pollEmailInbox } from "./ingest-email";
 
 // ============================================================================
 // TYPE EXPORTS
@@ -21,8 +25,12 @@ export { storeMetadata } from "./store-metadata";
 // Re-export domain types for convenience
 export type {
   FileMetadata,
+  DocumentSegment,
   ClassificationResult,
+  ExtractedDocument,
   InvoiceData,
   StatementData,
   LetterData,
+  ReceiptData,
+  ContractData,
 } from "../types/domain";
@@ -0,0 +1,283 @@
+import {
+  AbortTaskRunError,
+  queue,
+  schedules,
+  task,
+  tasks,
+} from "@trigger.dev/sdk";
+import { getDb, type DbClient } from "../utils/db";
+import { uploadFile } from "../utils/storage";
+import { PDF_MIME_TYPE, getOriginalExtension } from "../utils/sourceFormats";
+import {
+  emailAttachmentId,
+  fetchImapMessage,
+  getImapConfig,
+  imapMailboxKey,
+  parseEmail,
+  readLocalMailbox,
+  searchImapMessagesAfter,
+  withImapMailbox,
+  type LocalMailbox,
+} from "../utils/email";
+import { buildStagingPath, getSourceKey } from "../sources";
+import type {
+  DocumentSourceRef,
+  EmailProvenance,
+  WorkflowInput,
+} from "../types/domain";
+import type { processDocumentWorkflow } from "../workflow";
+
+// ============================================================================
+// EMAIL INGESTION
+// ============================================================================
+// Second ingestion source next to the Drive cron: PDF and image attachments
+// of new IMAP messages (or of a local Maildir / mbox when testing) are
+// staged in the Supabase inbox and fed through process-document-workflow.
+// Sender, subject and Message-ID are kept on the registry row. Progress is
+// the last ingested UID in email_sync_state, never the \Seen flag of the
+// shared mailbox.
+
+// A poll that overlaps a slow one would stage the same messages twice
+export const emailIngestionQueue = queue({
+  name: "email-ingestion",
+  concurrencyLimit: 1,
+});
+
+const TRIGGER_IDEMPOTENCY_TTL = "1d";
+
+interface IngestionSummary {
+  messages: number;
+  attachments: number;
+  triggered: number;
+  failed: number;
+}
+
+/**
+ * UID up to which every message of the mailbox was ingested, 0 when the
+ * mailbox was never read or its UIDVALIDITY changed (UIDs were reassigned;
+ * the source_key check skips the attachments read before)
+ */
+async function loadLastUid(
+  sql: DbClient,
+  mailboxKey: string,
+  uidValidity: string
+): Promise<number> {
+  const [row] = await sql<{ uid_validity: string; last_uid: string }[]>`
+    SELECT uid_validity, last_uid FROM email_sync_state WHERE mailbox = ${mailboxKey}
+  `;
+  return row && row.uid_validity === uidValidity ? Number(row.last_uid) : 0;
+}
+
+async function saveLastUid(
+  sql: DbClient,
+  mailboxKey: string,
+  uidValidity: string,
+  lastUid: number
+): Promise<void> {
+  await sql`
+    INSERT INTO email_sync_state (mailbox, uid_validity, last_uid, last_synced_at)
+    VALUES (${mailboxKey}, ${uidValidity}, ${lastUid}, NOW())
+    ON CONFLICT (mailbox) DO UPDATE SET
+      uid_validity = EXCLUDED.uid_validity,
+      last_uid = EXCLUDED.last_uid,
+      last_synced_at = EXCLUDED.last_synced_at
+  `;
+}
+
+/**
+ * Stage the new attachments of one message and start a workflow for each.
+ * Attachments already in income_registry are skipped.
+ */
+async function ingestMessage(
+  sql: DbClient,
+  raw: Buffer,
+  mailbox: string,
+  taskId: string
+): Promise<{ attachments: number; triggered: number }> {
+  const message = await parseEmail(raw);
+  console.log(
+    `[${taskId}] ${message.messageId}: "${message.subject ?? "(no subject)"}" from ${message.from ?? "unknown sender"} - ${message.attachments.length} attachments`
+  );
+
+  const items: Array<{
+    payload: WorkflowInput;
+    options: { idempotencyKey: string; idempotencyKeyTTL: string };
+  }> = [];
+  for (const attachment of message.attachments) {
+    const attachmentId = emailAttachmentId(message.messageId, attachment.index);
+    const extension =
+      attachment.mimeType === PDF_MIME_TYPE
+        ? "pdf"
+        : getOriginalExtension(attachment.mimeType);
+    const provenance: EmailProvenance = {
+      messageId: message.messageId,
+      from: message.from,
+      subject: message.subject,
+      date: message.date,
+      mailbox,
+      attachmentIndex: attachment.index,
+      attachmentName: attachment.fileName,
+    };
+    const source: DocumentSourceRef = {
+      kind: "email",
+      attachmentId,
+      stagedStoragePath: buildStagingPath(attachmentId, extension ?? "bin"),
+      provenance,
+    };
+    const sourceKey = getSourceKey(source);
+
+    const [registered] = await sql<{ doc_id: string }[]>`
+      SELECT doc_id FROM income_registry WHERE source_key = ${sourceKey}
+    `;
+    if (registered) {
+      console.log(
+        `[${taskId}] - ${attachment.fileName}: already registered as ${registered.doc_id}`
+      );
+      continue;
+    }
+
+    const { stagedStoragePath } = source;
+    await uploadFile(
+      stagedStoragePath,
+      attachment.content,
+      attachment.mimeType,
+      attachment.fileName
+    );
+    console.log(
+      `[${taskId}] - ${attachment.fileName}: staged at ${stagedStoragePath}`
+    );
+
+    items.push({
+      payload: {
+        source,
+        fileName: attachment.fileName,
+        mimeType: attachment.mimeType,
+        size: attachment.content.length,
+        createdTime: message.date ?? new Date().toISOString(),
+      },
+      options: {
+        idempotencyKey: sourceKey,
+        idempotencyKeyTTL: TRIGGER_IDEMPOTENCY_TTL,
+      },
+    });
+  }
+
+  if (items.length > 0) {
+    await tasks.batchTrigger<typeof processDocumentWorkflow>(
+      "process-document-workflow",
+      items
+    );
+  }
+
+  return { attachments: message.attachments.length, triggered: items.length };
+}
+
+export const ingestEmail = task({
+  id: "ingest-email",
+  queue: emailIngestionQueue,
+  retry: {
+    maxAttempts: 3,
+    factor: 1.8,
+    minTimeoutInMs: 1000,
+    maxTimeoutInMs: 10000,
+    randomize: false,
+  },
+  run: async (payload: {
+    // Read a local Maildir or mbox instead of the IMAP mailbox (testing)
+    mailbox?: LocalMailbox;
+  }): Promise<IngestionSummary> => {
+    const taskId = "ingest-email";
+    const sql = getDb();
+    const summary: IngestionSummary = {
+      messages: 0,
+      attachments: 0,
+      triggered: 0,
+      failed: 0,
+    };
+
+    const ingest = async (raw: Buffer, mailbox: string): Promise<boolean> => {
+      summary.messages++;
+      try {
+        const result = await ingestMessage(sql, raw, mailbox, taskId);
+        summary.attachments += result.attachments;
+        summary.triggered += result.triggered;
+        return true;
+      } catch (error) {
+        summary.failed++;
+        console.log(
+          `[${taskId}] ⚠️  Message skipped: ${error instanceof Error ? error.message : String(error)}`
+        );
+        return false;
+      }
+    };
+
+    if (payload.mailbox) {
+      console.log(
+        `[${taskId}] Reading ${payload.mailbox.kind} ${payload.mailbox.path}...`
+      );
+      const messages = await readLocalMailbox(payload.mailbox);
+      for (const raw of messages) {
+        await ingest(raw, payload.mailbox.path);
+      }
+    } else {
+      const config = getImapConfig();
+      if (!config) {
+        throw new AbortTaskRunError(
+          "IMAP_HOST is not configured and no local mailbox was given"
+        );
+      }
+
+      const mailboxKey = imapMailboxKey(config);
+      console.log(
+        `[${taskId}] Reading new messages in ${config.mailbox} on ${config.host}...`
+      );
+      await withImapMailbox(config, async (client, uidValidity) => {
+        const lastUid = await loadLastUid(sql, mailboxKey, uidValidity);
+        const uids = await searchImapMessagesAfter(client, lastUid);
+        console.log(
+          `[${taskId}] ${uids.length} messages after UID ${lastUid} (UIDVALIDITY ${uidValidity})`
+        );
+
+        // The position only moves past messages that were ingested; after a
+        // failure the following ones are still read, and read again (and
+        // skipped by their source_key) on the next poll
+        let position = lastUid;
+        let failed = false;
+        for (const uid of uids) {
+          const raw = await fetchImapMessage(client, uid);
+          if (!(await ingest(raw, config.mailbox))) failed = true;
+          else if (!failed) position = uid;
+        }
+        await saveLastUid(sql, mailboxKey, uidValidity, position);
+      });
+    }
+
+    console.log(
+      `[${taskId}] ✓ ${summary.messages} messages, ${summary.attachments} attachments, ${summary.triggered} workflows triggered`
+    );
+    if (summary.failed > 0) {
+      console.log(`[${taskId}] ⚠️  ${summary.failed} messages failed`);
+    }
+    console.log(`[${taskId}] Completed successfully`);
+
+    return summary;
+  },
+});
+
+export const pollEmailInbox = schedules.task({
+  id: "poll-email-inbox",
+  cron: "*/5 * * * *",
+  run: async () => {
+    const taskId = "poll-email-inbox";
+    if (!getImapConfig()) {
+      console.log(`[${taskId}] IMAP_HOST not configured - skipping`);
+      return;
+    }
+
+    const result = await ingestEmail.triggerAndWait({});
+    if (!result.ok) {
+      throw new Error(`Email ingestion failed: ${result.error}`);
+    }
+    console.log(`[${taskId}] Completed successfully`);
+  },
+});
@@ -0,0 +1,53 @@
+import { AbortTaskRunError, task } from "@trigger.dev/sdk";
+import { getDb } from "../utils/db";
+import {
+  counterpartyExists,
+  mergeCounterpartyInto,
+} from "../utils/counterparties";
+
+// ============================================================================
+// CORRECTION: MERGE COUNTERPARTIES
+// ============================================================================
+// Run from the dashboard when two counterparties are the same company (e.g.
+// a vendor seen once with and once without its VAT number). The source's
+// documents and identifiers move to the target and the source is deleted.
+
+export const mergeCounterparties = task({
+  id: "merge-counterparties",
+  retry: {
+    maxAttempts: 3,
+    factor: 1.8,
+    minTimeoutInMs: 1000,
+    maxTimeoutInMs: 10000,
+    randomize: false,
+  },
+  run: async (payload: {
+    sourceId: string; // Deleted after the merge
+    targetId: string;
+  }): Promise<{ targetId: string; relinked: number }> => {
+    const taskId = "merge-counterparties";
+    console.log(
+      `[${taskId}] Merging counterparty ${payload.sourceId} into ${payload.targetId}...`
+    );
+
+    if (payload.sourceId === payload.targetId) {
+      throw new AbortTaskRunError("Cannot merge a counterparty into itself");
+    }
+
+    const sql = getDb();
+
+    const relinked = await sql.begin(async tx => {
+      for (const id of [payload.sourceId, payload.targetId]) {
+        if (!(await counterpartyExists(tx, id))) {
+          throw new AbortTaskRunError(`Counterparty ${id} does not exist`);
+        }
+      }
+      return mergeCounterpartyInto(tx, payload.sourceId, payload.targetId);
+    });
+
+    console.log(`[${taskId}] ✓ Relinked ${relinked} records`);
+    console.log(`[${taskId}] Completed successfully`);
+
+    return { targetId: payload.targetId, relinked };
+  },
+});
@@ -0,0 +1,99 @@
+import { queue, task } from "@trigger.dev/sdk";
+import { getDb } from "../utils/db";
+import {
+  clearProposedMatches,
+  loadOpenInvoices,
+  loadRejectedPairs,
+  loadUnmatchedTransactions,
+  proposeMatches,
+  refreshInvoicePaymentStatus,
+  savePaymentMatches,
+} from "../utils/paymentMatching";
+import type { PaymentMatchProposal, PaymentMatchRole } from "../types/domain";
+
+// ============================================================================
+// RECONCILE PAYMENTS
+// ============================================================================
+// Triggered by store-metadata whenever a document of a type with
+// `paymentMatching` is stored: matches the new invoice against unmatched
+// transactions, or the new statement's transactions against open invoices.
+// Proposals wait for review (review-payment-match).
+
+// One run at a time, so two documents stored together cannot assign the
+// same transaction twice
+export const paymentMatchingQueue = queue({
+  name: "payment-matching",
+  concurrencyLimit: 1,
+});
+
+export const reconcilePayments = task({
+  id: "reconcile-payments",
+  queue: paymentMatchingQueue,
+  retry: {
+    maxAttempts: 3,
+    factor: 1.8,
+    minTimeoutInMs: 1000,
+    maxTimeoutInMs: 10000,
+    randomize: false,
+  },
+  run: async (payload: {
+    docId: string;
+    role: PaymentMatchRole;
+  }): Promise<{ proposals: PaymentMatchProposal[] }> => {
+    const taskId = "reconcile-payments";
+    console.log(
+      `[${taskId}] Matching payments for ${payload.role} ${payload.docId}...`
+    );
+
+    const sql = getDb();
+
+    const proposals = await sql.begin(async tx => {
+      // Undecided proposals are rebuilt; confirmed and rejected ones stay
+      const affectedInvoices = await clearProposedMatches(tx, payload.docId);
+
+      const isInvoice = payload.role === "invoice";
+      const invoices = await loadOpenInvoices(
+        tx,
+        isInvoice ? payload.docId : undefined
+      );
+      const transactions = await loadUnmatchedTransactions(
+        tx,
+        isInvoice ? undefined : payload.docId
+      );
+      console.log(
+        `[${taskId}] - ${invoices.length} open invoices, ${transactions.length} unmatched transactions`
+      );
+
+      const proposals = proposeMatches(
+        invoices,
+        transactions,
+        await loadRejectedPairs(tx)
+      );
+      await savePaymentMatches(tx, proposals);
+
+      const statuses = await refreshInvoicePaymentStatus(tx, [
+        ...new Set([
+          ...affectedInvoices,
+          ...proposals.map(proposal => proposal.invoiceDocId),
+          ...(isInvoice ? [payload.docId] : []),
+        ]),
+      ]);
+      for (const { doc_id, payment_status } of statuses) {
+        console.log(`[${taskId}] - Invoice ${doc_id}: ${payment_status}`);
+      }
+
+      return proposals;
+    });
+
+    for (const proposal of proposals) {
+      console.log(
+        `[${taskId}] ✓ Proposed ${proposal.statementDocId}#${proposal.sectionIndex}.${proposal.ordinal} -> invoice ${proposal.invoiceDocId}: ${proposal.amount} (confidence ${proposal.confidence}, ${proposal.signals.join(", ")})`
+      );
+    }
+    console.log(
+      `[${taskId}] Completed successfully (${proposals.length} proposals)`
+    );
+
+    return { proposals };
+  },
+});
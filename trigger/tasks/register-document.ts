@@ -1,5 +1,7 @@
+import { randomUUID } from "node:crypto";
 import { task } from "@trigger.dev/sdk";
 import { getDb } from "../utils/db";
+import { describeSource, getSourceKey } from "../sources";
 import type { WorkflowInput, DocumentStatus } from "../types/domain";
 
 // ============================================================================
@@ -24,32 +26,42 @@ export const registerDocument = task({
 
     const sql = getDb();
     const initialStatus: DocumentStatus = "new";
+    const sourceKey = getSourceKey(payload.source);
 
     try {
       // Insert record to income_registry table
       console.log(`[${taskId}] Inserting record to income_registry table...`);
-      console.log(`[${taskId}] - File ID: ${payload.fileId}`);
+      console.log(`[${taskId}] - Source: ${sourceKey}`);
       console.log(`[${taskId}] - File Name: ${payload.fileName}`);
       console.log(`[${taskId}] - MIME Type: ${payload.mimeType}`);
       console.log(`[${taskId}] - Created Time: ${payload.createdTime}`);
       console.log(`[${taskId}] - Status: "new"`);
 
+      // doc_id is ours, not the source's; a retried or re-triggered
+      // registration of the same source file returns the existing row
       const [result] = await sql`
         INSERT INTO income_registry (
           doc_id,
           file_name,
           mime_type,
           created_at,
+          source,
+          source_key,
+          source_metadata,
           status,
           registered_at
         ) VALUES (
-          ${payload.fileId},
+          ${randomUUID()},
           ${payload.fileName},
           ${payload.mimeType},
           ${payload.createdTime},
+          ${payload.source.kind},
+          ${sourceKey},
+          ${JSON.stringify(describeSource(payload.source))},
           ${initialStatus},
           NOW()
         )
+        ON CONFLICT (source_key) DO UPDATE SET source_key = EXCLUDED.source_key
         RETURNING id, doc_id
       `;
 
@@ -0,0 +1,85 @@
+import { AbortTaskRunError, task } from "@trigger.dev/sdk";
+import { getDb } from "../utils/db";
+import { refreshInvoicePaymentStatus } from "../utils/paymentMatching";
+import { paymentMatchingQueue, reconcilePayments } from "./reconcile-payments";
+import type { InvoicePaymentStatus, PaymentMatchStatus } from "../types/domain";
+
+// ============================================================================
+// REVIEW PAYMENT MATCH
+// ============================================================================
+// Run from the dashboard to confirm or reject a proposed match. A rejected
+// pair is never proposed again; the invoice is matched anew so the
+// transaction's place can go to a better candidate.
+
+export const reviewPaymentMatch = task({
+  id: "review-payment-match",
+  queue: paymentMatchingQueue,
+  retry: {
+    maxAttempts: 3,
+    factor: 1.8,
+    minTimeoutInMs: 1000,
+    maxTimeoutInMs: 10000,
+    randomize: false,
+  },
+  run: async (payload: {
+    matchId: string;
+    decision: Exclude<PaymentMatchStatus, "proposed">;
+  }): Promise<{
+    matchId: string;
+    status: PaymentMatchStatus;
+    invoiceDocId: string;
+    paymentStatus: InvoicePaymentStatus | null;
+  }> => {
+    const taskId = "review-payment-match";
+    console.log(
+      `[${taskId}] Marking payment match ${payload.matchId} as ${payload.decision}...`
+    );
+
+    const sql = getDb();
+
+    const result = await sql.begin(async tx => {
+      const [match] = await tx<{ invoice_doc_id: string }[]>`
+        UPDATE payment_matches
+        SET status = ${payload.decision},
+            decided_at = NOW()
+        WHERE id = ${payload.matchId}
+        RETURNING invoice_doc_id
+      `;
+      if (!match) return null;
+
+      const [invoice] = await refreshInvoicePaymentStatus(tx, [
+        match.invoice_doc_id,
+      ]);
+      return {
+        invoiceDocId: match.invoice_doc_id,
+        paymentStatus: invoice?.payment_status ?? null,
+      };
+    });
+
+    if (!result) {
+      throw new AbortTaskRunError(
+        `Payment match ${payload.matchId} does not exist`
+      );
+    }
+
+    console.log(
+      `[${taskId}] ✓ Invoice ${result.invoiceDocId}: ${result.paymentStatus ?? "N/A"}`
+    );
+
+    if (payload.decision === "rejected") {
+      await reconcilePayments.trigger({
+        docId: result.invoiceDocId,
+        role: "invoice",
+      });
+      console.log(`[${taskId}] Re-matching invoice ${result.invoiceDocId}`);
+    }
+
+    console.log(`[${taskId}] Completed successfully`);
+
+    return {
+      matchId: payload.matchId,
+      status: payload.decision,
+      ...result,
+    };
+  },
+});
@@ -0,0 +1,179 @@
+import { task } from "@trigger.dev/sdk";
+import { getDb } from "../utils/db";
+import { downloadFile, uploadFile } from "../utils/storage";
+import {
+  uploadFileToClaude,
+  segmentDocument as claudeSegment,
+} from "../utils/claude";
+import {
+  countPdfPages,
+  extractPdfPages,
+  pageRangeFileName,
+} from "../utils/pdfPages";
+import { PDF_MIME_TYPE } from "../utils/sourceFormats";
+import type { FileMetadata, DocumentSegment } from "../types/domain";
+
+// ============================================================================
+// TASK 1b: SEGMENT DOCUMENT (Hidden)
+// ============================================================================
+
+export const segmentDocument = task({
+  id: "segment-document",
+  retry: {
+    maxAttempts: 5,
+    factor: 1.5,
+    minTimeoutInMs: 2000,
+    maxTimeoutInMs: 30000,
+    randomize: true,
+  },
+  run: async (payload: {
+    docId: string;
+    storagePath: string;
+    metadata: FileMetadata;
+    langfuseTraceId?: string;
+  }): Promise<{ pageCount: number; segments: DocumentSegment[] }> => {
+    const taskId = "segment-document";
+    console.log(`[${taskId}] Starting segmentation for doc: ${payload.docId}`);
+    console.log(`[${taskId}] Storage Path: ${payload.storagePath}`);
+
+    const sql = getDb();
+
+    await sql`
+      UPDATE income_registry
+      SET status = 'segmenting'
+      WHERE doc_id = ${payload.docId}
+    `;
+
+    const fileBuffer = await downloadFile(payload.storagePath);
+    const pageCount = await countPdfPages(fileBuffer);
+    console.log(`[${taskId}] - Page count: ${pageCount}`);
+
+    // Step 1: Detect document boundaries (single-page files cannot be split)
+    let ranges: Array<{ start: number; end: number; description: string }> = [];
+    if (pageCount > 1) {
+      try {
+        console.log(`[${taskId}] Uploading file to Claude Files API...`);
+        const uploadResult = await uploadFileToClaude(
+          fileBuffer,
+          payload.metadata.fileName,
+          payload.metadata.mimeType
+        );
+
+        console.log(`[${taskId}] Calling Claude with segmentation prompt...`);
+        const segmentation = await claudeSegment(
+          uploadResult.id,
+          payload.metadata.fileName,
+          pageCount,
+          payload.langfuseTraceId
+            ? { traceId: payload.langfuseTraceId }
+            : undefined
+        );
+
+        ranges = segmentation.segments.map(segment => ({
+          start: segment.start_page,
+          end: segment.end_page,
+          description: segment.description,
+        }));
+      } catch (error) {
+        // Segmentation is an optimization - fall back to one document
+        console.error(`[${taskId}] Segmentation failed:`, error);
+        console.log(`[${taskId}] ⚠️  Treating the file as a single document`);
+      }
+    }
+
+    // The parent continues as a downloaded file either way; store-metadata
+    // marks it "split" once it is stored
+    await sql`
+      UPDATE income_registry
+      SET status = 'downloaded'
+      WHERE doc_id = ${payload.docId}
+    `;
+
+    if (ranges.length <= 1) {
+      console.log(`[${taskId}] ✓ Single document - no split needed`);
+      return { pageCount, segments: [] };
+    }
+
+    console.log(`[${taskId}] ✓ Detected ${ranges.length} documents:`);
+    ranges.forEach(range => {
+      console.log(
+        `[${taskId}] - pages ${range.start}-${range.end}: ${range.description}`
+      );
+    });
+
+    // Step 2: Write each segment to the inbox and register it as a child.
+    // Failures here throw so the task retries; inserts are idempotent.
+    const segments: DocumentSegment[] = [];
+    for (const [index, range] of ranges.entries()) {
+      const childDocId = `${payload.docId}-part${index + 1}`;
+      const childFileName = pageRangeFileName(
+        payload.metadata.fileName,
+        range.start,
+        range.end
+      );
+      const storagePath = `inbox/${childDocId}.pdf`;
+
+      const childBuffer = await extractPdfPages(
+        fileBuffer,
+        range.start,
+        range.end
+      );
+      await uploadFile(storagePath, childBuffer, PDF_MIME_TYPE, childFileName);
+
+      const [child] = await sql`
+        INSERT INTO income_registry (
+          doc_id,
+          parent_doc_id,
+          page_start,
+          page_end,
+          file_name,
+          mime_type,
+          created_at,
+          source,
+          status,
+          registered_at
+        )
+        SELECT
+          ${childDocId},
+          doc_id,
+          ${range.start},
+          ${range.end},
+          ${childFileName},
+          ${PDF_MIME_TYPE},
+          created_at,
+          source,
+          'downloaded',
+          NOW()
+        FROM income_registry
+        WHERE doc_id = ${payload.docId}
+        ON CONFLICT (doc_id) DO UPDATE SET
+          page_start = EXCLUDED.page_start,
+          page_end = EXCLUDED.page_end,
+          file_name = EXCLUDED.file_name
+        RETURNING id, doc_id
+      `;
+
+      console.log(
+        `[${taskId}] ✓ Registered child ${child.doc_id} (pages ${range.start}-${range.end})`
+      );
+
+      segments.push({
+        docId: child.doc_id,
+        registryId: child.id,
+        storagePath,
+        pageStart: range.start,
+        pageEnd: range.end,
+        metadata: {
+          fileName: childFileName,
+          mimeType: PDF_MIME_TYPE,
+          size: childBuffer.length,
+          createdTime: payload.metadata.createdTime,
+        },
+      });
+    }
+
+    console.log(`[${taskId}] Completed successfully`);
+
+    return { pageCount, segments };
+  },
+});
@@ -0,0 +1,68 @@
+import { AbortTaskRunError, task } from "@trigger.dev/sdk";
+import { getDb } from "../utils/db";
+import {
+  counterpartyExists,
+  splitOffCounterparty,
+} from "../utils/counterparties";
+
+// ============================================================================
+// CORRECTION: SPLIT COUNTERPARTY
+// ============================================================================
+// Run from the dashboard when the resolver linked different companies to one
+// counterparty (e.g. two vendors with similar names). The listed documents
+// move to a new counterparty, together with the identifiers only they use.
+
+export const splitCounterparty = task({
+  id: "split-counterparty",
+  retry: {
+    maxAttempts: 3,
+    factor: 1.8,
+    minTimeoutInMs: 1000,
+    maxTimeoutInMs: 10000,
+    randomize: false,
+  },
+  run: async (payload: {
+    counterpartyId: string;
+    docIds: string[]; // Documents that belong to the new counterparty
+    canonicalName: string;
+  }): Promise<{
+    counterpartyId: string;
+    relinked: number;
+    identifiers: number;
+  }> => {
+    const taskId = "split-counterparty";
+    console.log(
+      `[${taskId}] Splitting ${payload.docIds.length} documents off counterparty ${payload.counterpartyId}...`
+    );
+
+    if (payload.docIds.length === 0) {
+      throw new AbortTaskRunError("No documents to split off");
+    }
+
+    const sql = getDb();
+
+    const result = await sql.begin(async tx => {
+      if (!(await counterpartyExists(tx, payload.counterpartyId))) {
+        throw new AbortTaskRunError(
+          `Counterparty ${payload.counterpartyId} does not exist`
+        );
+      }
+      return splitOffCounterparty(
+        tx,
+        payload.counterpartyId,
+        payload.docIds,
+        payload.canonicalName
+      );
+    });
+
+    console.log(
+      `[${taskId}] ✓ Created counterparty ${result.counterpartyId} "${payload.canonicalName}"`
+    );
+    console.log(
+      `[${taskId}] - ${result.relinked} records and ${result.identifiers} identifiers moved`
+    );
+    console.log(`[${taskId}] Completed successfully`);
+
+    return result;
+  },
+});
@@ -0,0 +1,83 @@
+import { task } from "@trigger.dev/sdk";
+import { getDb } from "../utils/db";
+import {
+  analyzeAccountContinuity,
+  loadStatementPeriods,
+  statementAccountKey,
+} from "../utils/statementContinuity";
+import type { AccountContinuity } from "../types/domain";
+
+// ============================================================================
+// REPORT: STATEMENT CONTINUITY
+// ============================================================================
+// Run on demand (e.g. from the dashboard) to see which monthly statements
+// are still missing, per account
+
+export const statementContinuityReport = task({
+  id: "statement-continuity-report",
+  retry: {
+    maxAttempts: 3,
+    factor: 1.8,
+    minTimeoutInMs: 1000,
+    maxTimeoutInMs: 10000,
+    randomize: false,
+  },
+  run: async (payload: {
+    // Limit the report to one account, by IBAN or (for accounts without
+    // one) by account number
+    iban?: string;
+    accountNumber?: string;
+  }): Promise<{ accounts: AccountContinuity[] }> => {
+    const taskId = "statement-continuity-report";
+    const account = statementAccountKey(payload) ?? undefined;
+    console.log(
+      `[${taskId}] Building statement continuity report${account ? ` for ${account}` : ""}...`
+    );
+
+    const sql = getDb();
+    const periodsByAccount = await loadStatementPeriods(sql, account);
+
+    const accounts = [...periodsByAccount.values()].map(periods =>
+      analyzeAccountContinuity(periods)
+    );
+
+    for (const result of accounts) {
+      console.log(
+        `[${taskId}] ${result.account}${result.currency ? ` (${result.currency})` : ""}: ${result.statementCount} statements, ${result.coveredFrom} to ${result.coveredTo}`
+      );
+      for (const gap of result.gaps) {
+        console.log(
+          `[${taskId}] - ⚠️  Gap ${gap.from} to ${gap.to}: after ${gap.afterDocId}, before ${gap.beforeDocId}`
+        );
+      }
+      if (result.missingMonths.length > 0) {
+        console.log(
+          `[${taskId}] - ⚠️  Missing months: ${result.missingMonths.join(", ")}`
+        );
+      }
+      for (const overlap of result.overlaps) {
+        console.log(
+          `[${taskId}] - ⚠️  Overlap ${overlap.from} to ${overlap.to}: ${overlap.docIds.join(" / ")}`
+        );
+      }
+      for (const mismatch of result.balanceMismatches) {
+        console.log(
+          `[${taskId}] - ⚠️  Closing ${mismatch.closingBalance} (${mismatch.previousDocId}) != opening ${mismatch.openingBalance} (${mismatch.nextDocId})`
+        );
+      }
+      if (
+        result.gaps.length === 0 &&
+        result.overlaps.length === 0 &&
+        result.balanceMismatches.length === 0
+      ) {
+        console.log(`[${taskId}] - ✓ Continuous`);
+      }
+    }
+
+    console.log(
+      `[${taskId}] Completed successfully (${accounts.length} accounts)`
+    );
+
+    return { accounts };
+  },
+});
@@ -1,9 +1,9 @@
 import { task } from "@trigger.dev/sdk";
 import { getDb } from "../utils/db";
-import { moveFileToFolder } from "../utils/drive";
 import { copyFile, deleteFile } from "../utils/storage";
 import { buildDocumentStoragePath } from "../utils/storagePaths";
-import type { FileMetadata } from "../types/domain";
+import { acknowledgeInSource } from "../sources";
+import type { DocumentSourceRef, FileMetadata } from "../types/domain";
 import type { DocumentType } from "../utils/storagePaths";
 
 // ============================================================================
@@ -22,8 +22,9 @@ export const storeFile = task({
   },
   run: async (payload: {
     docId: string;
-    fileId: string;
+    source?: DocumentSourceRef; // Absent for split-off child documents
     storagePath: string; // Path to file in inbox folder
+    originalStoragePath?: string; // Pre-normalization original in inbox folder
     fileName: string;
     documentType: DocumentType;
     metadata: FileMetadata;
@@ -68,27 +69,47 @@ export const storeFile = task({
 
       console.log(`[${taskId}] ✓ Copy completed successfully`);
 
-      // Move file from Google Drive inbox to processed folder
-      console.log(
-        `[${taskId}] Moving file from Google Drive inbox to processed folder...`
-      );
-      console.log(`[${taskId}] - File ID: ${payload.fileId}`);
+      // Keep the original (image/office file) next to the normalized PDF
+      let finalOriginalPath: string | null = null;
+      if (payload.originalStoragePath) {
+        const originalExtension = payload.originalStoragePath.slice(
+          payload.originalStoragePath.indexOf(".original.") + 1
+        );
+        finalOriginalPath = buildDocumentStoragePath({
+          documentType: payload.documentType,
+          docId: payload.docId,
+          extension: originalExtension,
+          date: now,
+        });
+
+        console.log(`[${taskId}] Copying original file...`);
+        console.log(`[${taskId}] - From: ${payload.originalStoragePath}`);
+        console.log(`[${taskId}] - To: ${finalOriginalPath}`);
+
+        await copyFile(payload.originalStoragePath, finalOriginalPath);
+
+        console.log(`[${taskId}] ✓ Original copied`);
+      }
 
-      const processedFolderId = process.env.DRIVE_PROCESSED_FOLDER_ID;
-      if (!processedFolderId) {
+      // Take the file out of its source inbox (e.g. move the Drive file to
+      // the processed folder)
+      if (!payload.source) {
         console.log(
-          `[${taskId}] ⚠️  DRIVE_PROCESSED_FOLDER_ID not configured - skipping move`
+          `[${taskId}] No source file (child of a split document) - skipping acknowledge`
         );
       } else {
+        console.log(
+          `[${taskId}] Acknowledging file in ${payload.source.kind}...`
+        );
         try {
-          await moveFileToFolder(payload.fileId, processedFolderId);
-          console.log(`[${taskId}] ✓ File moved to processed folder`);
+          await acknowledgeInSource(payload.source);
+          console.log(`[${taskId}] ✓ Source acknowledged`);
         } catch (error) {
           // Log warning but don't fail the task - file might have permission issues
           const message =
             error instanceof Error ? error.message : String(error);
           console.log(
-            `[${taskId}] ⚠️  Could not move file to processed folder: ${message}`
+            `[${taskId}] ⚠️  Could not acknowledge in ${payload.source.kind}: ${message}`
           );
           console.log(
             `[${taskId}] ⚠️  This is non-fatal - continuing with workflow`
@@ -101,26 +122,33 @@ export const storeFile = task({
       console.log(`[${taskId}] - Path: ${payload.storagePath}`);
 
       await deleteFile(payload.storagePath);
+      if (payload.originalStoragePath) {
+        await deleteFile(payload.originalStoragePath);
+      }
 
       console.log(`[${taskId}] ✓ Inbox cleaned`);
 
       // Update registry with storage info
       console.log(`[${taskId}] Updating registry with storage info...`);
       console.log(`[${taskId}] - storage_path_pdf: ${finalStoragePath}`);
+      console.log(
+        `[${taskId}] - storage_path_original: ${finalOriginalPath || "N/A"}`
+      );
       console.log(`[${taskId}] - status: "stored"`);
       console.log(`[${taskId}] - stored_at: ${now.toISOString()}`);
 
       await sql`
         UPDATE income_registry
         SET status = 'stored',
-            storage_path_pdf = ${finalStoragePath}
+            storage_path_pdf = ${finalStoragePath},
+            storage_path_original = ${finalOriginalPath}
         WHERE doc_id = ${payload.docId}
       `;
 
       console.log(`[${taskId}] 🎉 SAFE POINT REACHED!`);
       console.log(`[${taskId}] - Document is persistent in Supabase Storage`);
       console.log(
-        `[${taskId}] - Drive inbox cleaned (file moved to processed folder)`
+        `[${taskId}] - Source inbox cleaned (file acknowledged in its source)`
       );
       console.log(`[${taskId}] - Safe to retry expensive AI operations`);
 
@@ -129,6 +157,7 @@ export const storeFile = task({
       return {
         stored: true,
         storagePath: finalStoragePath,
+        originalStoragePath: finalOriginalPath ?? undefined,
         deletedFromInbox: true,
       };
     } catch (error) {
@@ -3,13 +3,15 @@ import { getDb } from "../utils/db";
 import { uploadFile } from "../utils/storage";
 import type {
   ClassificationResult,
-  InvoiceData,
-  StatementData,
-  LetterData,
   DocumentStatus,
+  DuplicateMatch,
+  ExtractedDocument,
 } from "../types/domain";
 import { buildDocumentStoragePath } from "../utils/storagePaths";
 import type { DocumentType } from "../utils/storagePaths";
+import { getDocumentType } from "../documentTypes";
+import { saveDocumentFlags } from "../utils/documentFlags";
+import { reconcilePayments } from "./reconcile-payments";
 
 // ============================================================================
 // TASK 5: STORE METADATA (Hidden)
@@ -28,12 +30,9 @@ export const storeMetadata = task({
     docId: string;
     documentType: DocumentType;
     classification: ClassificationResult | null;
-    extractedData?: {
-      invoiceData?: InvoiceData;
-      statementData?: StatementData;
-      letterData?: LetterData;
-    } | null;
+    extractedData?: ExtractedDocument | null;
     extractionError?: string | null;
+    childDocIds?: string[]; // Set when the PDF was split into child documents
   }) => {
     const taskId = "store-metadata";
     console.log(
@@ -120,265 +119,140 @@ export const storeMetadata = task({
         `[${taskId}] - storage_path_json: ${jsonStoragePath || "N/A"}`
       );
 
+      const definition = payload.extractedData
+        ? getDocumentType(payload.extractedData.documentType)
+        : undefined;
+
       // Determine final status
       let finalStatus: DocumentStatus;
-      if (payload.extractionError) {
+      if (payload.childDocIds && payload.childDocIds.length > 0) {
+        finalStatus = "split";
+      } else if (payload.extractionError) {
         finalStatus = "extraction_failed";
-      } else if (!payload.extractedData || payload.documentType === "unknown") {
+      } else if (!payload.extractedData || !definition) {
         finalStatus = "rejected";
+      } else if (payload.extractedData.validation?.status === "failed") {
+        finalStatus = "needs_review";
       } else {
         finalStatus = "processed";
       }
 
-      console.log(`[${taskId}] - status: "${finalStatus}"`);
-      console.log(`[${taskId}] - processed_at: ${new Date().toISOString()}`);
-
-      // Update registry with final status and metadata
-      await sql`
-        UPDATE income_registry
-        SET status = ${finalStatus},
-            storage_path_json = ${jsonStoragePath},
-            error_message = ${payload.extractionError || null},
-            processed_at = NOW()
-        WHERE doc_id = ${payload.docId}
-      `;
-      console.log(`[${taskId}] ✓ Registry updated successfully`);
+      // extract-document-data already parsed, normalized and validated the
+      // data for this definition; re-parsing with the raw extraction schema
+      // would undo the normalization
+      const data =
+        payload.extractedData &&
+        definition &&
+        (finalStatus === "processed" || finalStatus === "needs_review")
+          ? payload.extractedData.data
+          : undefined;
 
-      // STEP 3: Insert to type-specific table (if we have extracted data)
-      if (payload.extractedData && finalStatus === "processed") {
-        if (payload.extractedData.invoiceData) {
-          console.log(`[${taskId}] Inserting to invoices table...`);
-          const inv = payload.extractedData.invoiceData;
-          console.log(
-            `[${taskId}] - invoice_number: ${inv.document_info.invoice_number}`
-          );
+      // Same business document received before (e.g. scan and portal copy)
+      let duplicate: DuplicateMatch | null = null;
+      if (definition?.findDuplicate && data !== undefined) {
+        console.log(`[${taskId}] Checking for duplicate records...`);
+        duplicate = await definition.findDuplicate(sql, payload.docId, data);
+        if (duplicate) {
+          // A failed validation stays the more urgent review reason
+          if (finalStatus === "processed") finalStatus = "suspected_duplicate";
           console.log(
-            `[${taskId}] - total_amount: ${inv.amounts.total_amount} ${inv.document_info.currency}`
-          );
-          console.log(
-            `[${taskId}] - line_items (JSONB): ${inv.line_items.length} items`
+            `[${taskId}] ⚠️  Suspected duplicate of ${duplicate.docId} (score ${duplicate.score}, matched: ${duplicate.matchedFields.join(", ")})`
           );
+        } else {
+          console.log(`[${taskId}] ✓ No duplicate found`);
+        }
+      }
 
-          await sql`
-          INSERT INTO invoices (
-            doc_id,
-            invoice_number,
-            invoice_date,
-            due_date,
-            currency,
-            language,
-            vendor_name,
-            vendor_address,
-            vendor_vat_number,
-            vendor_tax_id,
-            vendor_contact_email,
-            customer_name,
-            customer_address,
-            customer_vat_number,
-            subtotal,
-            total_vat,
-            total_amount,
-            vat_rate,
-            line_items,
-            payment_terms,
-            payment_method,
-            payment_bank_details
-          ) VALUES (
-            ${payload.docId},
-            ${inv.document_info.invoice_number},
-            ${inv.document_info.invoice_date},
-            ${inv.document_info.due_date},
-            ${inv.document_info.currency},
-            ${inv.document_info.language},
-            ${inv.vendor.name},
-            ${inv.vendor.address},
-            ${inv.vendor.vat_number},
-            ${inv.vendor.tax_id},
-            ${inv.vendor.contact_email},
-            ${inv.customer.name},
-            ${inv.customer.address},
-            ${inv.customer.vat_number},
-            ${inv.amounts.subtotal},
-            ${inv.amounts.total_vat},
-            ${inv.amounts.total_amount},
-            ${inv.amounts.vat_rate},
-            ${JSON.stringify(inv.line_items)}::jsonb,
-            ${inv.payment.terms},
-            ${inv.payment.method},
-            ${inv.payment.bank_details}
-          )
-          ON CONFLICT (doc_id) DO UPDATE SET
-            invoice_number = EXCLUDED.invoice_number,
-            invoice_date = EXCLUDED.invoice_date,
-            due_date = EXCLUDED.due_date,
-            currency = EXCLUDED.currency,
-            language = EXCLUDED.language,
-            vendor_name = EXCLUDED.vendor_name,
-            vendor_address = EXCLUDED.vendor_address,
-            vendor_vat_number = EXCLUDED.vendor_vat_number,
-            vendor_tax_id = EXCLUDED.vendor_tax_id,
-            vendor_contact_email = EXCLUDED.vendor_contact_email,
-            customer_name = EXCLUDED.customer_name,
-            customer_address = EXCLUDED.customer_address,
-            customer_vat_number = EXCLUDED.customer_vat_number,
-            subtotal = EXCLUDED.subtotal,
-            total_vat = EXCLUDED.total_vat,
-            total_amount = EXCLUDED.total_amount,
-            vat_rate = EXCLUDED.vat_rate,
-            line_items = EXCLUDED.line_items,
-            payment_terms = EXCLUDED.payment_terms,
-            payment_method = EXCLUDED.payment_method,
-            payment_bank_details = EXCLUDED.payment_bank_details
-        `;
+      console.log(`[${taskId}] - status: "${finalStatus}"`);
+      console.log(`[${taskId}] - processed_at: ${new Date().toISOString()}`);
 
-          console.log(`[${taskId}] ✓ Invoice record inserted`);
-        } else if (payload.extractedData.statementData) {
-          console.log(`[${taskId}] Inserting to statements table...`);
-          const stmt = payload.extractedData.statementData;
-          console.log(
-            `[${taskId}] - bank_name: ${stmt.document_info.bank_name}`
-          );
-          console.log(
-            `[${taskId}] - period: ${stmt.document_info.period_start} to ${stmt.document_info.period_end}`
-          );
-          console.log(
-            `[${taskId}] - transactions (JSONB): ${stmt.transactions.length} items`
-          );
+      // Type-specific insert and registry update commit together
+      await sql.begin(async tx => {
+        // STEP 3: Insert to type-specific table (if we have extracted data).
+        // Suspected duplicates and documents needing review are kept so they
+        // can be checked against the stored record.
+        if (definition && data !== undefined) {
+          console.log(`[${taskId}] Inserting ${definition.label} record...`);
+          for (const line of definition.summarize(data)) {
+            console.log(`[${taskId}] - ${line}`);
+          }
 
-          await sql`
-          INSERT INTO statements (
-            doc_id,
-            bank_name,
-            document_title,
-            period_start,
-            period_end,
-            currency,
-            language,
-            holder_name,
-            account_number,
-            iban,
-            opening_balance,
-            closing_balance,
-            transactions
-          ) VALUES (
-            ${payload.docId},
-            ${stmt.document_info.bank_name},
-            ${stmt.document_info.document_title},
-            ${stmt.document_info.period_start},
-            ${stmt.document_info.period_end},
-            ${stmt.document_info.currency},
-            ${stmt.document_info.language},
-            ${stmt.account.holder_name},
-            ${stmt.account.account_number},
-            ${stmt.account.iban},
-            ${stmt.account.opening_balance},
-            ${stmt.account.closing_balance},
-            ${JSON.stringify(stmt.transactions)}::jsonb
-          )
-          ON CONFLICT (doc_id) DO UPDATE SET
-            bank_name = EXCLUDED.bank_name,
-            document_title = EXCLUDED.document_title,
-            period_start = EXCLUDED.period_start,
-            period_end = EXCLUDED.period_end,
-            currency = EXCLUDED.currency,
-            language = EXCLUDED.language,
-            holder_name = EXCLUDED.holder_name,
-            account_number = EXCLUDED.account_number,
-            iban = EXCLUDED.iban,
-            opening_balance = EXCLUDED.opening_balance,
-            closing_balance = EXCLUDED.closing_balance,
-            transactions = EXCLUDED.transactions
-        `;
+          await definition.persist(tx, payload.docId, data);
 
-          console.log(`[${taskId}] ✓ Statement record inserted`);
-        } else if (payload.extractedData.letterData) {
-          console.log(`[${taskId}] Inserting to letters table...`);
-          const letter = payload.extractedData.letterData;
-          console.log(
-            `[${taskId}] - letter_type: ${letter.letter_details.letter_type}`
-          );
-          console.log(
-            `[${taskId}] - subject: ${letter.letter_details.subject}`
-          );
+          console.log(`[${taskId}] ✓ ${definition.label} record inserted`);
+
+          if (definition.linkCounterparties) {
+            const links = await definition.linkCounterparties(
+              tx,
+              payload.docId,
+              data
+            );
+            const created = links.filter(
+              link => link.matchedBy === "created"
+            ).length;
+            console.log(
+              `[${taskId}] ✓ Linked ${links.length} parties to counterparties (${created} new)`
+            );
+          }
+
+          if (definition.detectAnomalies) {
+            const flags = await definition.detectAnomalies(
+              tx,
+              payload.docId,
+              data
+            );
+            for (const flag of flags) {
+              console.log(`[${taskId}] ⚠️  ${flag.kind}: ${flag.message}`);
+            }
+            const openFlags = await saveDocumentFlags(tx, payload.docId, flags);
+            // Validation failures and duplicates stay the more urgent reason
+            if (openFlags > 0 && finalStatus === "processed") {
+              finalStatus = "flagged";
+              console.log(
+                `[${taskId}] ⚠️  ${openFlags} open flags - status: "flagged" until acknowledged`
+              );
+            }
+          }
+        } else {
           console.log(
-            `[${taskId}] - amount_due: ${letter.letter_details.amount_due} ${letter.letter_details.currency}`
+            `[${taskId}] Skipping type-specific table insert (status: ${finalStatus})`
           );
+        }
 
-          await sql`
-          INSERT INTO letters (
-            doc_id,
-            letter_type,
-            language,
-            letter_date,
-            subject,
-            reference_number,
-            due_date,
-            amount_due,
-            currency,
-            sender_organization,
-            sender_address,
-            sender_country,
-            sender_contact_title,
-            sender_reference,
-            recipient_organization,
-            recipient_title,
-            recipient_address,
-            recipient_country,
-            content_greeting,
-            content_main_text,
-            content_closing
-          ) VALUES (
-            ${payload.docId},
-            ${letter.letter_details.letter_type},
-            ${letter.document_info.language},
-            ${letter.document_info.date},
-            ${letter.letter_details.subject},
-            ${letter.letter_details.reference_number},
-            ${letter.letter_details.due_date},
-            ${letter.letter_details.amount_due},
-            ${letter.letter_details.currency},
-            ${letter.sender.organization},
-            ${letter.sender.address},
-            ${letter.sender.country},
-            ${letter.sender.contact_title},
-            ${letter.sender.reference},
-            ${letter.recipient.organization},
-            ${letter.recipient.title},
-            ${letter.recipient.address},
-            ${letter.recipient.country},
-            ${letter.content.greeting},
-            ${letter.content.main_text},
-            ${letter.content.closing}
-          )
-          ON CONFLICT (doc_id) DO UPDATE SET
-            letter_type = EXCLUDED.letter_type,
-            language = EXCLUDED.language,
-            letter_date = EXCLUDED.letter_date,
-            subject = EXCLUDED.subject,
-            reference_number = EXCLUDED.reference_number,
-            due_date = EXCLUDED.due_date,
-            amount_due = EXCLUDED.amount_due,
-            currency = EXCLUDED.currency,
-            sender_organization = EXCLUDED.sender_organization,
-            sender_address = EXCLUDED.sender_address,
-            sender_country = EXCLUDED.sender_country,
-            sender_contact_title = EXCLUDED.sender_contact_title,
-            sender_reference = EXCLUDED.sender_reference,
-            recipient_organization = EXCLUDED.recipient_organization,
-            recipient_title = EXCLUDED.recipient_title,
-            recipient_address = EXCLUDED.recipient_address,
-            recipient_country = EXCLUDED.recipient_country,
-            content_greeting = EXCLUDED.content_greeting,
-            content_main_text = EXCLUDED.content_main_text,
-            content_closing = EXCLUDED.content_closing
+        // Update registry with final status and metadata
+        await tx`
+          UPDATE income_registry
+          SET status = ${finalStatus},
+              storage_path_json = ${jsonStoragePath},
+              error_message = ${payload.extractionError || null},
+              duplicate_of = ${duplicate?.docId ?? null},
+              duplicate_score = ${duplicate?.score ?? null},
+              validation_status = ${payload.extractedData?.validation?.status ?? null},
+              validation_report = ${payload.extractedData?.validation ? JSON.stringify(payload.extractedData.validation) : null}::jsonb,
+              processed_at = NOW()
+          WHERE doc_id = ${payload.docId}
         `;
+        console.log(`[${taskId}] ✓ Registry updated successfully`);
+      });
 
-          console.log(`[${taskId}] ✓ Letter record inserted`);
+      // STEP 4: Match payments against the stored invoice or statement
+      // (suspected duplicates and flagged documents wait until resolved)
+      if (
+        (finalStatus === "processed" || finalStatus === "needs_review") &&
+        definition?.paymentMatching
+      ) {
+        try {
+          await reconcilePayments.trigger({
+            docId: payload.docId,
+            role: definition.paymentMatching,
+          });
+          console.log(`[${taskId}] ✓ Payment matching triggered`);
+        } catch (error) {
+          // Matching can be re-run later; the document itself is stored
+          console.error(
+            `[${taskId}] ⚠️  Failed to trigger payment matching: ${error instanceof Error ? error.message : String(error)}`
+          );
         }
-      } else {
-        console.log(
-          `[${taskId}] Skipping type-specific table insert (status: ${finalStatus})`
-        );
       }
 
       console.log(`[${taskId}] Completed successfully`);
@@ -387,6 +261,8 @@ export const storeMetadata = task({
         registryId: `reg_${payload.docId}`,
         status: finalStatus,
         jsonStoragePath: jsonStoragePath || undefined,
+        duplicateOf: duplicate?.docId,
+        duplicateScore: duplicate?.score,
       };
     } catch (error) {
       console.error(`[${taskId}] Error during metadata storage:`, error);
@@ -5,113 +5,154 @@
 export interface FileMetadata {
   fileName: string;
   mimeType: string;
+  originalMimeType?: string; // Source format before PDF normalization
   size?: number;
   createdTime: string;
 }
 
+/**
+ * Label of a document type registered in trigger/documentTypes, or "unknown"
+ */
+export type DocumentType = string;
+
 export interface ClassificationResult {
-  documentType: "invoice" | "bank_statement" | "government_letter" | "unknown";
+  documentType: DocumentType;
   confidence: number;
   reasoning: string;
   possibleType: string;
   claudeFileId: string | null;
 }
 
+/**
+ * Document type fixed before classification, e.g. by the inbox folder a file
+ * was filed in; classify-document records it instead of asking Claude
+ */
+export interface ClassificationPreset {
+  documentType: DocumentType; // Registered label
+  reason: string; // Stored as the classification reasoning
+}
+
 /**
  * Payload for extraction tasks
  */
 export interface ExtractionTaskPayload {
   docId: string;
+  documentType: DocumentType;
   claudeFileId: string | null;
   fileName: string;
+  storagePath?: string; // Stored PDF; needed for page-range extraction
   langfuseTraceId?: string;
 }
 
+/**
+ * Amount as the model returned it: a number, or the text printed on the
+ * document ("1.234,56", "CHF 1'200.-") when it did not convert it
+ */
+export type ExtractedAmount = number | string;
+
+/**
+ * Extraction output before the locale step: every number of `T` may still be
+ * printed text. The document type's `normalize` turns it into `T`.
+ */
+export type Extracted<T> = T extends number
+  ? ExtractedAmount
+  : T extends Array<infer U>
+    ? Array<Extracted<U>>
+    : T extends object
+      ? { [K in keyof T]: Extracted<T[K]> }
+      : T;
+
 export interface InvoiceData {
   document_info: {
-    invoice_number: string;
-    invoice_date: string;
-    due_date: string;
-    currency: string;
-    language: string;
+    invoice_number: string | null;
+    invoice_date: string | null;
+    due_date: string | null;
+    currency: string | null;
+    language: string | null;
   };
   vendor: {
-    name: string;
-    address: string;
-    vat_number: string;
-    tax_id: string;
-    contact_email: string;
+    name: string | null;
+    address: string | null;
+    vat_number: string | null;
+    tax_id: string | null;
+    contact_email: string | null;
   };
   customer: {
-    name: string;
-    address: string;
-    vat_number: string;
+    name: string | null;
+    address: string | null;
+    vat_number: string | null;
   };
   amounts: {
-    subtotal: number;
-    total_vat: number;
+    subtotal: number | null;
+    total_vat: number | null;
     total_amount: number;
-    vat_rate: number;
+    vat_rate: number | null;
   };
   line_items: Array<{
     description: string;
-    quantity: number;
-    unit_price: number;
-    vat_rate: number;
-    vat_amount: number;
-    line_total: number;
+    quantity: number | null;
+    unit_price: number | null;
+    vat_rate: number | null;
+    vat_amount: number | null;
+    line_total: number | null;
   }>;
   payment: {
-    terms: string;
-    method: string;
-    bank_details: string;
+    terms: string | null;
+    method: string | null;
+    bank_details: string | null;
   };
 }
 
 export interface StatementData {
   document_info: {
     statement_type: "bank_statement";
-    bank_name: string;
-    document_title: string;
-    period_start: string;
-    period_end: string;
-    currency: string;
-    language: string;
-  };
-  account: {
-    holder_name: string;
-    account_number: string;
-    iban: string;
-    opening_balance: number;
-    closing_balance: number;
-  };
-  transactions: Array<{
-    date: string;
-    description: string;
-    amount: number;
-    balance: number;
+    bank_name: string | null;
+    document_title: string | null;
+    period_start: string | null;
+    period_end: string | null;
+    language: string | null;
+  };
+  // One section per account in the document (current account, savings,
+  // foreign currency sub-account), each with its own balances
+  accounts: Array<{
+    account_name: string | null; // Section heading, e.g. "Savings account"
+    holder_name: string | null;
+    account_number: string | null;
+    iban: string | null;
+    currency: string | null;
+    opening_balance: number | null;
+    closing_balance: number | null;
+    transactions: Array<{
+      date: string | null; // null when the printed date could not be read
+      description: string;
+      counterparty: string | null; // Payer or payee named in the booking text
+      amount: number;
+      balance: number | null;
+    }>;
   }>;
 }
 
+export type StatementAccount = StatementData["accounts"][number];
+
 export interface LetterData {
   reasoning_checklist: {
     has_due_date: boolean;
-    due_date_field_name: string;
-    due_date_value: string;
+    due_date_field_name: string | null;
+    due_date_value: string | null;
     has_money_amount: boolean;
-    money_amount_quote: string;
+    money_amount_quote: string | null;
   };
   document_info: {
     document_type: "official_letter";
-    language: string;
-    date: string;
+    language: string | null;
+    date: string | null;
   };
   letter_details: {
-    subject: string;
-    reference_number: string;
-    due_date: string;
-    amount_due: number;
-    currency: string;
+    subject: string | null;
+    reference_number: string | null;
+    due_date: string | null;
+    amount_due: number | null;
+    currency: string | null;
     letter_type:
       | "tax_notice"
       | "vat_reminder"
@@ -120,34 +161,320 @@ export interface LetterData {
       | "other";
   };
   sender: {
-    organization: string;
-    address: string;
-    country: string;
-    contact_title: string;
-    reference: string;
+    organization: string | null;
+    address: string | null;
+    country: string | null;
+    contact_title: string | null;
+    reference: string | null;
   };
   recipient: {
-    organization: string;
-    title: string;
-    address: string;
-    country: string;
+    organization: string | null;
+    title: string | null;
+    address: string | null;
+    country: string | null;
   };
   content: {
-    greeting: string;
-    main_text: string;
-    closing: string;
+    greeting: string | null;
+    main_text: string | null;
+    closing: string | null;
   };
 }
 
+export interface ReceiptData {
+  document_info: {
+    receipt_number: string | null;
+    date: string | null;
+    time: string | null;
+    currency: string | null;
+    language: string | null;
+    category:
+      | "fuel"
+      | "meals"
+      | "taxi"
+      | "public_transport"
+      | "parking"
+      | "accommodation"
+      | "office_supplies"
+      | "other";
+  };
+  merchant: {
+    name: string | null;
+    address: string | null;
+    vat_number: string | null;
+  };
+  payment: {
+    method: "cash" | "card" | "mobile" | "other" | null;
+    card_last_four: string | null;
+  };
+  tax_lines: Array<{
+    vat_rate: number;
+    net_amount: number | null;
+    vat_amount: number | null;
+    gross_amount: number | null;
+  }>;
+  amounts: {
+    subtotal: number | null;
+    total_vat: number | null;
+    tip: number | null;
+    total_amount: number;
+  };
+}
+
+export interface ContractData {
+  document_info: {
+    title: string | null;
+    contract_type:
+      | "service_agreement"
+      | "lease"
+      | "subscription"
+      | "license"
+      | "other";
+    reference_number: string | null;
+    signing_date: string | null;
+    language: string | null;
+  };
+  parties: Array<{
+    name: string;
+    role: "provider" | "customer" | "landlord" | "tenant" | "other";
+    address: string | null;
+    vat_number: string | null;
+  }>;
+  term: {
+    start_date: string | null;
+    end_date: string | null;
+    auto_renewal: boolean;
+    renewal_period_months: number | null;
+    notice_period: {
+      value: number;
+      unit: "days" | "weeks" | "months";
+    } | null;
+  };
+  fee: {
+    amount: number | null;
+    currency: string | null;
+    frequency: "monthly" | "quarterly" | "yearly" | "one_time" | "other" | null;
+  };
+}
+
+/**
+ * One discrepancy found by a document type's cross-checks
+ */
+export interface ValidationIssue {
+  check: string; // e.g. "line_items_sum", "total_amount"
+  severity: "error" | "warning"; // Errors send the document to needs_review
+  path: string; // Field in the extracted data, e.g. "amounts.subtotal"
+  message: string;
+  expected: number | string | null; // Strings for identifier checks
+  actual: number | string | null;
+  difference: number | null;
+  tolerance: number | null;
+}
+
+/**
+ * Value filled in because it follows from other extracted fields
+ */
+export interface DerivedField {
+  path: string;
+  value: number;
+  rule: string; // e.g. "total_amount - total_vat"
+}
+
+export interface ValidationReport {
+  status: "passed" | "warnings" | "failed";
+  issues: ValidationIssue[];
+  derived: DerivedField[];
+}
+
+/**
+ * Balance check of a bank statement, stored on the statements row
+ */
+export interface BalanceReconciliation {
+  // "incomplete" when opening or closing balance is unknown
+  status: "reconciled" | "unreconciled" | "incomplete";
+  transactionSum: number;
+  expectedClosing: number | null; // opening_balance + transactionSum
+  difference: number | null; // closing_balance - expectedClosing
+  tolerance: number;
+  // Rows whose printed balance does not follow from the previous one
+  chainBreaks: Array<{
+    index: number; // 0-based position in transactions
+    date: string | null;
+    description: string;
+    expected: number;
+    actual: number;
+    difference: number;
+    likelyCause: "sign_flipped" | "missing_or_extra_rows";
+  }>;
+}
+
+/**
+ * Coverage of one account's statements over time (statement continuity)
+ */
+export interface AccountContinuity {
+  account: string; // Normalized IBAN, or "account:{number}" without one
+  currency: string | null; // One report per account and currency
+  statementCount: number;
+  coveredFrom: string; // YYYY-MM-DD, start of the earliest statement
+  coveredTo: string; // YYYY-MM-DD, end of the latest statement
+  gaps: Array<{
+    from: string;
+    to: string;
+    afterDocId: string;
+    beforeDocId: string;
+  }>;
+  overlaps: Array<{ from: string; to: string; docIds: [string, string] }>;
+  // Closing balance of one statement differs from the next opening balance
+  balanceMismatches: Array<{
+    previousDocId: string;
+    nextDocId: string;
+    closingBalance: number;
+    openingBalance: number;
+    difference: number;
+  }>;
+  missingMonths: string[]; // YYYY-MM months with no statement for any day, up to last month
+}
+
+/**
+ * Output of the extract-document-data task, consumed by store-metadata.
+ * `data` has been validated against the document type's extraction schema
+ * and, when the type defines cross-checks, completed with derived values.
+ */
+export interface ExtractedDocument {
+  documentType: DocumentType;
+  data: unknown;
+  validation?: ValidationReport | null;
+}
+
+/**
+ * Earlier record that looks like the same business document (e.g. the same
+ * invoice received as a scan and as a portal download)
+ */
+export interface DuplicateMatch {
+  docId: string; // doc_id of the earlier document
+  score: number; // Similarity, 0-1
+  matchedFields: string[];
+}
+
+/**
+ * Statement transaction proposed as payment of an invoice
+ * (see utils/paymentMatching.ts)
+ */
+export interface PaymentMatchProposal {
+  invoiceDocId: string;
+  statementDocId: string;
+  sectionIndex: number; // Account section of the statement
+  ordinal: number; // Transaction within the section
+  transactionFingerprint: string; // statement_transactions.fingerprint
+  amount: number; // Applied to the invoice; less than the total for partial payments
+  confidence: number; // 0-1
+  signals: string[]; // e.g. amount, invoice_number, vendor_name, booking_date
+}
+
+export type PaymentMatchStatus = "proposed" | "confirmed" | "rejected";
+
+// Side a document type takes in payment matching: invoices are paid by the
+// transactions of statements
+export type PaymentMatchRole = "invoice" | "statement";
+
+export type InvoicePaymentStatus = "matched" | "partially_paid" | "unpaid";
+
+export type DocumentFlagKind =
+  | "changed_bank_details" // Known vendor, IBAN never seen on its invoices
+  | "abnormal_amount" // Total far outside the vendor's historical range
+  | "unusual_currency" // Currency the vendor never invoiced in
+  | "first_time_vendor"; // No earlier invoice from this vendor
+
+/**
+ * Anomaly found after extraction; open flags hold the document at "flagged"
+ * until acknowledged (see utils/invoiceAnomalies.ts)
+ */
+export interface DocumentFlag {
+  kind: DocumentFlagKind;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+export type CounterpartyIdentifierKind = "vat_number" | "iban" | "name";
+
+/**
+ * Canonical counterparty a party on a document was linked to
+ * (see utils/counterparties.ts)
+ */
+export interface CounterpartyResolution {
+  counterpartyId: string;
+  matchedBy: CounterpartyIdentifierKind | "similar_name" | "created";
+}
+
+/**
+ * Child document cut out of a multi-document PDF by segment-document.
+ * The child PDF is already in the inbox and registered with parent_doc_id.
+ */
+export interface DocumentSegment {
+  docId: string;
+  registryId: string;
+  storagePath: string; // inbox/{childDocId}.pdf
+  pageStart: number; // 1-based, inclusive
+  pageEnd: number;
+  metadata: FileMetadata;
+}
+
+/**
+ * Ingestion source, stored in income_registry.source (see trigger/sources)
+ */
+export type DocumentSourceKind =
+  | "google_drive"
+  | "email"
+  | "upload"
+  | "local_path";
+
+/**
+ * Email an attachment was taken from, stored in income_registry.source_metadata
+ */
+export interface EmailProvenance {
+  messageId: string; // Message-ID header (or a hash of the raw message without one)
+  from: string | null;
+  subject: string | null;
+  date: string | null; // ISO 8601 Date header
+  mailbox: string; // IMAP mailbox, Maildir or mbox path
+  attachmentIndex: number; // 0-based among the message's supported attachments
+  attachmentName: string;
+}
+
+/**
+ * Where a file to process lives. Staged sources (email, upload) put the
+ * bytes in Supabase Storage before triggering the workflow.
+ */
+export type DocumentSourceRef =
+  | { kind: "google_drive"; fileId: string }
+  | {
+      kind: "email";
+      attachmentId: string; // email-{hash} of Message-ID and attachment index
+      stagedStoragePath: string;
+      provenance: EmailProvenance;
+    }
+  | {
+      kind: "upload";
+      uploadId: string;
+      stagedStoragePath: string;
+      uploadedBy: string | null; // Client name sent with the upload
+    }
+  | {
+      kind: "local_path";
+      path: string; // Absolute path on the machine running the tasks
+      modifiedTime: string; // A changed file is a new document
+    };
+
 /**
  * Workflow input payload
  */
 export interface WorkflowInput {
-  fileId: string; // Google Drive file ID
+  source: DocumentSourceRef;
   fileName: string; // Original file name
-  mimeType: string; // Must be "application/pdf"
+  mimeType: string; // PDF, image, Google Workspace or office type (see utils/sourceFormats)
   size?: number; // File size in bytes
-  createdTime: string; // ISO 8601 timestamp from Google Drive
+  createdTime: string; // ISO 8601 timestamp reported by the source
+  sourcePath?: string; // Folder path hint, e.g. "Invoices/2025" below the Drive inbox
+  documentTypeHint?: DocumentType; // Default type of the inbox folder or upload
 }
 
 /**
@@ -159,8 +486,13 @@ export interface WorkflowOutput {
     | "extraction_failed"
     | "rejected"
     | "download_failed"
-    | "store_failed";
-  documentType: "invoice" | "bank_statement" | "government_letter" | "unknown";
+    | "store_failed"
+    | "split"
+    | "duplicate"
+    | "suspected_duplicate"
+    | "needs_review"
+    | "flagged";
+  documentType: DocumentType;
   confidence: number;
   registryId: string;
   docId: string;
@@ -168,6 +500,10 @@ export interface WorkflowOutput {
   jsonStoragePath?: string;
   inboxCleaned: boolean;
   error?: string;
+  parentDocId?: string; // Set on documents cut out of a multi-document PDF
+  duplicateOf?: string; // doc_id of the original for (suspected) duplicates
+  duplicateScore?: number; // Similarity to duplicateOf, 1 for identical files
+  children?: WorkflowOutput[]; // Set when status is "split"
 }
 
 /**
@@ -178,6 +514,8 @@ export type DocumentStatus =
   | "downloading" // Downloading from Drive
   | "downloaded" // Download complete
   | "download_failed" // Download failed (terminal)
+  | "segmenting" // Detecting document boundaries in a multi-page PDF
+  | "split" // Split into child documents (terminal for the parent)
   | "classifying" // Classifying document type
   | "classified" // Classification complete
   | "classification_failed" // Classification failed (continues as "unknown")
@@ -190,4 +528,8 @@ export type DocumentStatus =
   | "saving_metadata" // Saving metadata to database
   | "metadata_storage_failed" // Metadata storage failed (retries)
   | "processed" // Successfully completed with data
-  | "rejected"; // Low confidence or unknown type (stored without extraction)
+  | "rejected" // Low confidence or unknown type (stored without extraction)
+  | "duplicate" // Same content as an earlier document (terminal, see duplicate_of)
+  | "suspected_duplicate" // Stored, but matches an earlier record (see duplicate_of)
+  | "needs_review" // Stored, but failed a hard validation check (see validation_report)
+  | "flagged"; // Stored, but has anomaly flags to acknowledge (see document_flags)
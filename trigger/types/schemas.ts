@@ -0,0 +1,190 @@
+import { z } from "zod";
+import { AbortTaskRunError } from "@trigger.dev/sdk";
+import type {
+  ExtractionTaskPayload,
+  DocumentSourceRef,
+  EmailProvenance,
+  WorkflowInput,
+  DocumentType,
+} from "./domain";
+
+// ============================================================================
+// RUNTIME SCHEMAS FOR DOMAIN TYPES
+// ============================================================================
+// Each schema is checked against its interface in domain.ts with `satisfies`,
+// so the two cannot drift apart without a type error. Task payloads that
+// arrive from outside the worker (sources, CLI, upload endpoint) are parsed
+// with parseTaskPayload at the top of the task. Extraction output schemas
+// live with their document type in trigger/documentTypes/.
+
+/**
+ * Amounts are kept as the model returned them: a number, or the printed text
+ * ("1.234,56", "CHF 1'200.-"). The document type's locale step reads the text
+ * with the document language as hint (trigger/utils/localeNormalization.ts),
+ * so an ambiguous "1.234" becomes a warning rather than a schema failure.
+ */
+const extractedAmount = () => z.union([z.number(), z.string()]);
+
+export const localizedNumber = () => extractedAmount();
+
+/**
+ * Optional scalar fields: the model may return null or omit the key entirely
+ */
+export const nullableString = () => z.string().nullable().default(null);
+export const nullableNumber = () => extractedAmount().nullable().default(null);
+
+// Labels are validated against the registry where they enter the pipeline
+// (the classifier tool schema), so any string is accepted here
+const documentTypeSchema = z.string();
+
+/**
+ * Raw classifier answer, before the confidence threshold is applied.
+ * `labels` are the registered document type labels plus "unknown".
+ */
+export function buildClassificationResponseSchema(
+  labels: readonly [string, ...string[]]
+) {
+  return z.object({
+    document_type: z.enum(labels),
+    confidence: z.number().min(0).max(1),
+    reasoning: z.string(),
+  });
+}
+
+export type ClassificationResponse = {
+  document_type: DocumentType;
+  confidence: number;
+  reasoning: string;
+};
+
+/**
+ * Segmenter answer for a PDF that may contain several documents. Segments
+ * must cover pages 1..pageCount in order without gaps or overlaps, so a bad
+ * answer is sent back through the repair loop.
+ */
+export function buildSegmentationResponseSchema(pageCount: number) {
+  return z
+    .object({
+      segments: z
+        .array(
+          z.object({
+            start_page: z.number().int().min(1).max(pageCount),
+            end_page: z.number().int().min(1).max(pageCount),
+            description: z.string(),
+          })
+        )
+        .min(1),
+    })
+    .superRefine((value, ctx) => {
+      let expectedStart = 1;
+      value.segments.forEach((segment, index) => {
+        if (segment.start_page !== expectedStart) {
+          ctx.addIssue({
+            code: "custom",
+            message: `segment must start on page ${expectedStart} (segments are ordered, contiguous and non-overlapping)`,
+            path: ["segments", index, "start_page"],
+          });
+        }
+        if (segment.end_page < segment.start_page) {
+          ctx.addIssue({
+            code: "custom",
+            message: "end_page must not be before start_page",
+            path: ["segments", index, "end_page"],
+          });
+        }
+        expectedStart = segment.end_page + 1;
+      });
+      if (expectedStart !== pageCount + 1) {
+        ctx.addIssue({
+          code: "custom",
+          message: `segments must cover all ${pageCount} pages`,
+          path: ["segments"],
+        });
+      }
+    });
+}
+
+export type SegmentationResponse = z.infer<
+  ReturnType<typeof buildSegmentationResponseSchema>
+>;
+
+export const extractionTaskPayloadSchema = z.object({
+  docId: z.string(),
+  documentType: documentTypeSchema,
+  claudeFileId: z.string().nullable(),
+  fileName: z.string(),
+  storagePath: z.string().optional(),
+  langfuseTraceId: z.string().optional(),
+}) satisfies z.ZodType<ExtractionTaskPayload>;
+
+const emailProvenanceSchema = z.object({
+  messageId: z.string(),
+  from: z.string().nullable(),
+  subject: z.string().nullable(),
+  date: z.string().nullable(),
+  mailbox: z.string(),
+  attachmentIndex: z.number().int().min(0),
+  attachmentName: z.string(),
+}) satisfies z.ZodType<EmailProvenance>;
+
+const documentSourceRefSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("google_drive"), fileId: z.string() }),
+  z.object({
+    kind: z.literal("email"),
+    attachmentId: z.string(),
+    stagedStoragePath: z.string(),
+    provenance: emailProvenanceSchema,
+  }),
+  z.object({
+    kind: z.literal("upload"),
+    uploadId: z.string(),
+    stagedStoragePath: z.string(),
+    uploadedBy: z.string().nullable(),
+  }),
+  z.object({
+    kind: z.literal("local_path"),
+    path: z.string(),
+    modifiedTime: z.string(),
+  }),
+]) satisfies z.ZodType<DocumentSourceRef>;
+
+export const workflowInputSchema = z.object({
+  source: documentSourceRefSchema,
+  fileName: z.string(),
+  mimeType: z.string(),
+  size: z.number().optional(),
+  createdTime: z.string(),
+  sourcePath: z.string().optional(),
+  documentTypeHint: documentTypeSchema.optional(),
+}) satisfies z.ZodType<WorkflowInput>;
+
+/**
+ * Format Zod issues as one "path: message" line per issue, suitable for logs
+ * and for feeding back to the model in a repair request
+ */
+export function formatSchemaIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => {
+      const path = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+      return `- ${path}: ${issue.message}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Parse a task payload at the task boundary. A malformed payload fails the
+ * run without retrying, since every attempt would receive the same payload.
+ */
+export function parseTaskPayload<T>(
+  schema: z.ZodType<T>,
+  payload: unknown,
+  taskId: string
+): T {
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    throw new AbortTaskRunError(
+      `[${taskId}] Invalid payload:\n${formatSchemaIssues(result.error)}`
+    );
+  }
+  return result.data;
+}
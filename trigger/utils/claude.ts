@@ -2,6 +2,19 @@ import Anthropic, { toFile } from "@anthropic-ai/sdk";
 import { getLangfuseClient } from "./langfuse";
 import { startObservation } from "@langfuse/tracing";
 import { randomBytes } from "node:crypto";
+import { z } from "zod";
+import {
+  buildClassificationResponseSchema,
+  buildSegmentationResponseSchema,
+  formatSchemaIssues,
+} from "../types/schemas";
+import type {
+  ClassificationResponse,
+  SegmentationResponse,
+} from "../types/schemas";
+import { DOCUMENT_TYPES, getClassifierLabels } from "../documentTypes";
+import type { DocumentTypeDefinition } from "../documentTypes";
+import type { Extracted } from "../types/domain";
 
 type LangfusePromptAttributes = {
   name: string;
@@ -94,449 +107,329 @@ export async function uploadFileToClaude(
 }
 
 /**
- * Classify a document using Claude API
- * Matches the n8n workflow implementation
+ * Raised when Claude stops at max_tokens before finishing its tool call, so
+ * the structured output is incomplete. Raise max_tokens in the prompt config.
  */
-export async function classifyDocument(
-  fileId: string,
-  fileName: string,
-  options?: ObservationOptions
-): Promise<{
-  document_type: "invoice" | "bank_statement" | "government_letter" | "unknown";
-  confidence: number;
-  reasoning: string;
-}> {
-  const langfuse = getLangfuseClient();
-  const client = getClaudeClient();
-
-  // Fetch prompt from Langfuse
-  const langfusePrompt = await langfuse.prompt.get("poc-3f/classify");
-  const promptText = langfusePrompt.prompt;
-  const config = langfusePrompt.config as
-    | { model?: string; max_tokens?: number; temperature?: number }
-    | undefined;
-
-  const model = config?.model || "claude-3-5-haiku-20241022";
-  const maxTokens = config?.max_tokens || 256;
-  const temperature = config?.temperature || 0;
-
-  const parentSpanContext = buildParentSpanContext(options);
-
-  // Create generation observation
-  const generation = startObservation(
-    "classify-document",
-    {
-      model,
-      input: promptText,
-      modelParameters: { maxTokens, temperature },
-      metadata: {
-        promptName: "poc-3f/classify",
-        promptVersion: langfusePrompt.version,
-        fileName,
-        fileId,
-      },
-      prompt: toLangfusePromptAttributes(langfusePrompt),
-    },
-    { asType: "generation", parentSpanContext }
-  );
-
-  try {
-    // Call Claude with the file ID using beta header
-    const response = await client.beta.messages.create({
-      model,
-      max_tokens: maxTokens,
-      temperature,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "document",
-              source: {
-                type: "file",
-                file_id: fileId,
-              },
-            },
-            {
-              type: "text",
-              text: promptText,
-            },
-          ],
-        },
-      ],
-      betas: ["files-api-2025-04-14"],
-    });
-
-    // Update generation with raw LLM response
-    generation.update({
-      output: response.content,
-      usageDetails: {
-        input: response.usage.input_tokens,
-        output: response.usage.output_tokens,
-      },
-      metadata: {
-        stopReason: response.stop_reason,
-      },
-    });
-
-    generation.end();
+export class ClaudeTruncationError extends Error {
+  constructor(
+    public readonly promptName: string,
+    public readonly maxTokens: number
+  ) {
+    super(
+      `Claude response for ${promptName} was truncated at max_tokens=${maxTokens}`
+    );
+    this.name = "ClaudeTruncationError";
+  }
+}
 
-    // Extract the text response for processing
-    const textContent = response.content.find(block => block.type === "text");
-    if (!textContent || textContent.type !== "text") {
-      throw new Error("No text response from Claude");
-    }
+/**
+ * Raised when the model's structured output still fails schema validation
+ * after all repair attempts
+ */
+export class ExtractionValidationError extends Error {
+  constructor(
+    public readonly promptName: string,
+    public readonly issues: string,
+    public readonly attempts: number
+  ) {
+    super(
+      `Extraction output for ${promptName} failed schema validation after ${attempts} attempt(s):\n${issues}`
+    );
+    this.name = "ExtractionValidationError";
+  }
+}
 
-    const responseText = textContent.text;
+// Follow-up requests sent to the model when its answer fails validation
+const MAX_REPAIR_ATTEMPTS = 2;
 
-    // Clean any markdown formatting
-    const cleanText = responseText
-      .replace(/```json\n?/g, "")
-      .replace(/```\n?/g, "")
-      .trim();
+/**
+ * Build an Anthropic tool definition whose input schema is the JSON Schema
+ * of the expected output, so the answer comes back as a tool call
+ */
+function buildOutputTool(
+  name: string,
+  description: string,
+  schema: z.ZodType
+): Anthropic.Beta.BetaTool {
+  const { $schema: _ignored, ...jsonSchema } = z.toJSONSchema(schema, {
+    io: "output",
+  });
 
-    // Parse JSON response
-    const classification = JSON.parse(cleanText);
+  return {
+    name,
+    description,
+    input_schema: jsonSchema as Anthropic.Beta.BetaTool.InputSchema,
+  };
+}
 
-    return {
-      document_type: classification.document_type,
-      confidence: classification.confidence,
-      reasoning: classification.reasoning,
-    };
-  } catch (error) {
-    generation.update({
-      level: "ERROR",
-      statusMessage: error instanceof Error ? error.message : String(error),
-    });
-    generation.end();
-    throw error;
-  }
+function buildRepairRequest(issues: string): string {
+  return [
+    "The tool input does not match the required schema.",
+    "Validation errors:",
+    issues,
+    "",
+    "Call the tool again with the complete corrected input. Use null for values that are not present in the document.",
+  ].join("\n");
 }
 
 /**
- * Extract invoice data from a document using Claude API
- * Matches the n8n workflow "Analyze Invoice" node
+ * Run a Langfuse-managed prompt against a document, forcing Claude to answer
+ * through a single tool whose input schema is `schema`. Invalid tool input is
+ * sent back as an error tool_result together with the validation errors, up
+ * to MAX_REPAIR_ATTEMPTS times.
  */
-export async function extractInvoice(
-  fileId: string,
-  fileName: string,
-  options?: ObservationOptions
-): Promise<any> {
+async function runStructuredPrompt<T>(params: {
+  observationName: string;
+  promptName: string;
+  toolName: string;
+  toolDescription: string;
+  schema: z.ZodType<T>;
+  defaultMaxTokens: number;
+  fileId: string;
+  fileName: string;
+  options?: ObservationOptions;
+  // Extra instructions sent after the prompt, e.g. which pages the file holds
+  context?: string;
+}): Promise<T> {
+  const {
+    observationName,
+    promptName,
+    toolName,
+    toolDescription,
+    schema,
+    defaultMaxTokens,
+    fileId,
+    fileName,
+    options,
+    context,
+  } = params;
   const langfuse = getLangfuseClient();
   const client = getClaudeClient();
 
   // Fetch prompt from Langfuse
-  const langfusePrompt = await langfuse.prompt.get("poc-3f/invoice");
+  const langfusePrompt = await langfuse.prompt.get(promptName);
   const promptText = langfusePrompt.prompt;
   const config = langfusePrompt.config as
     | { model?: string; max_tokens?: number; temperature?: number }
     | undefined;
 
   const model = config?.model || "claude-3-5-haiku-20241022";
-  const maxTokens = config?.max_tokens || 2048;
+  const maxTokens = config?.max_tokens || defaultMaxTokens;
   const temperature = config?.temperature || 0;
 
   const parentSpanContext = buildParentSpanContext(options);
+  const tool = buildOutputTool(toolName, toolDescription, schema);
 
-  // Create generation observation
-  const generation = startObservation(
-    "extract-invoice",
+  const messages: Anthropic.Beta.BetaMessageParam[] = [
     {
-      model,
-      input: promptText,
-      modelParameters: { maxTokens, temperature },
-      metadata: {
-        promptName: "poc-3f/invoice",
-        promptVersion: langfusePrompt.version,
-        fileName,
-        fileId,
-      },
-      prompt: toLangfusePromptAttributes(langfusePrompt),
-    },
-    { asType: "generation", parentSpanContext }
-  );
-
-  try {
-    const response = await client.beta.messages.create({
-      model,
-      max_tokens: maxTokens,
-      temperature,
-      messages: [
+      role: "user",
+      content: [
+        {
+          type: "document",
+          source: {
+            type: "file",
+            file_id: fileId,
+          },
+        },
         {
-          role: "user",
-          content: [
-            {
-              type: "document",
-              source: {
-                type: "file",
-                file_id: fileId,
-              },
-            },
-            {
-              type: "text",
-              text: promptText,
-            },
-          ],
+          type: "text",
+          text: promptText,
         },
+        ...(context ? [{ type: "text" as const, text: context }] : []),
       ],
-      betas: ["files-api-2025-04-14"],
-    });
-
-    // Update generation with raw LLM response
-    generation.update({
-      output: response.content,
-      usageDetails: {
-        input: response.usage.input_tokens,
-        output: response.usage.output_tokens,
-        cache_creation_input_tokens:
-          response.usage.cache_creation_input_tokens || 0,
-        cache_read_input_tokens: response.usage.cache_read_input_tokens || 0,
-      },
-      metadata: {
-        stopReason: response.stop_reason,
+    },
+  ];
+
+  let lastIssues = "";
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    // Create generation observation (one per attempt)
+    const generation = startObservation(
+      attempt === 0 ? observationName : `${observationName}-repair`,
+      {
+        model,
+        input: attempt === 0 ? promptText : messages[messages.length - 1],
+        modelParameters: { maxTokens, temperature },
+        metadata: {
+          promptName,
+          promptVersion: langfusePrompt.version,
+          fileName,
+          fileId,
+          toolName,
+          attempt,
+          context,
+        },
+        prompt: toLangfusePromptAttributes(langfusePrompt),
       },
-    });
-
-    generation.end();
-
-    const textContent = response.content.find(block => block.type === "text");
-    if (!textContent || textContent.type !== "text") {
-      throw new Error("No text response from Claude");
+      { asType: "generation", parentSpanContext }
+    );
+
+    let toolUse: Anthropic.Beta.BetaToolUseBlock;
+    let responseContent: Anthropic.Beta.BetaContentBlock[];
+    try {
+      const response = await client.beta.messages.create({
+        model,
+        max_tokens: maxTokens,
+        temperature,
+        messages,
+        tools: [tool],
+        tool_choice: { type: "tool", name: toolName },
+        betas: ["files-api-2025-04-14"],
+      });
+
+      // Update generation with raw LLM response
+      generation.update({
+        output: response.content,
+        usageDetails: {
+          input: response.usage.input_tokens,
+          output: response.usage.output_tokens,
+          cache_creation_input_tokens:
+            response.usage.cache_creation_input_tokens || 0,
+          cache_read_input_tokens: response.usage.cache_read_input_tokens || 0,
+        },
+        metadata: {
+          stopReason: response.stop_reason,
+        },
+      });
+
+      if (response.stop_reason === "max_tokens") {
+        throw new ClaudeTruncationError(promptName, maxTokens);
+      }
+
+      const block = response.content.find(
+        (candidate): candidate is Anthropic.Beta.BetaToolUseBlock =>
+          candidate.type === "tool_use" && candidate.name === toolName
+      );
+      if (!block) {
+        throw new Error(`No ${toolName} tool call in Claude response`);
+      }
+
+      toolUse = block;
+      responseContent = response.content;
+    } catch (error) {
+      generation.update({
+        level: "ERROR",
+        statusMessage: error instanceof Error ? error.message : String(error),
+      });
+      generation.end();
+      throw error;
     }
 
-    const responseText = textContent.text;
-    const cleanText = responseText
-      .replace(/```json\n?/g, "")
-      .replace(/```\n?/g, "")
-      .trim();
+    const result = schema.safeParse(toolUse.input);
 
-    const invoiceData = JSON.parse(cleanText);
+    if (result.success) {
+      generation.end();
+      return result.data;
+    }
 
-    return invoiceData;
-  } catch (error) {
+    lastIssues = formatSchemaIssues(result.error);
     generation.update({
-      level: "ERROR",
-      statusMessage: error instanceof Error ? error.message : String(error),
+      level: "WARNING",
+      statusMessage: `Schema validation failed:\n${lastIssues}`,
     });
     generation.end();
-    throw error;
+
+    console.log(
+      `[claude] ${promptName} output failed validation (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS + 1}):\n${lastIssues}`
+    );
+
+    messages.push(
+      { role: "assistant", content: responseContent },
+      {
+        role: "user",
+        content: [
+          {
+            type: "tool_result",
+            tool_use_id: toolUse.id,
+            is_error: true,
+            content: buildRepairRequest(lastIssues),
+          },
+        ],
+      }
+    );
   }
+
+  throw new ExtractionValidationError(
+    promptName,
+    lastIssues,
+    MAX_REPAIR_ATTEMPTS + 1
+  );
 }
 
 /**
- * Extract bank statement data from a document using Claude API
- * Matches the n8n workflow "Analyze Statement" node
+ * Classify a document using Claude API
+ * Matches the n8n workflow implementation. The allowed labels come from the
+ * document type registry, so new types are offered to the classifier
+ * automatically.
  */
-export async function extractStatement(
+export async function classifyDocument(
   fileId: string,
   fileName: string,
   options?: ObservationOptions
-): Promise<any> {
-  const langfuse = getLangfuseClient();
-  const client = getClaudeClient();
-
-  const langfusePrompt = await langfuse.prompt.get("poc-3f/statement");
-  const promptText = langfusePrompt.prompt;
-  const config = langfusePrompt.config as
-    | { model?: string; max_tokens?: number; temperature?: number }
-    | undefined;
-
-  const model = config?.model || "claude-3-5-haiku-20241022";
-  const maxTokens = config?.max_tokens || 2048;
-  const temperature = config?.temperature || 0;
-
-  const parentSpanContext = buildParentSpanContext(options);
-
-  // Create generation observation
-  const generation = startObservation(
-    "extract-statement",
-    {
-      model,
-      input: promptText,
-      modelParameters: { maxTokens, temperature },
-      metadata: {
-        promptName: "poc-3f/statement",
-        promptVersion: langfusePrompt.version,
-        fileName,
-        fileId,
-      },
-      prompt: toLangfusePromptAttributes(langfusePrompt),
-    },
-    { asType: "generation", parentSpanContext }
-  );
-
-  try {
-    const response = await client.beta.messages.create({
-      model,
-      max_tokens: maxTokens,
-      temperature,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "document",
-              source: {
-                type: "file",
-                file_id: fileId,
-              },
-            },
-            {
-              type: "text",
-              text: promptText,
-            },
-          ],
-        },
-      ],
-      betas: ["files-api-2025-04-14"],
-    });
-
-    // Update generation with raw LLM response
-    generation.update({
-      output: response.content,
-      usageDetails: {
-        input: response.usage.input_tokens,
-        output: response.usage.output_tokens,
-        cache_creation_input_tokens:
-          response.usage.cache_creation_input_tokens || 0,
-        cache_read_input_tokens: response.usage.cache_read_input_tokens || 0,
-      },
-      metadata: {
-        stopReason: response.stop_reason,
-      },
-    });
-
-    generation.end();
-
-    const textContent = response.content.find(block => block.type === "text");
-    if (!textContent || textContent.type !== "text") {
-      throw new Error("No text response from Claude");
-    }
-
-    const responseText = textContent.text;
-    const cleanText = responseText
-      .replace(/```json\n?/g, "")
-      .replace(/```\n?/g, "")
-      .trim();
-
-    const statementData = JSON.parse(cleanText);
-
-    return statementData;
-  } catch (error) {
-    generation.update({
-      level: "ERROR",
-      statusMessage: error instanceof Error ? error.message : String(error),
-    });
-    generation.end();
-    throw error;
-  }
+): Promise<ClassificationResponse> {
+  const typeList = DOCUMENT_TYPES.map(
+    type => `- ${type.label}: ${type.description}`
+  ).join("\n");
+
+  return runStructuredPrompt({
+    observationName: "classify-document",
+    promptName: "poc-3f/classify",
+    toolName: "record_classification",
+    toolDescription: `Record the document type, your confidence (0.0 - 1.0) and a short reasoning. Document types:\n${typeList}\n- unknown: none of the above`,
+    schema: buildClassificationResponseSchema(getClassifierLabels()),
+    // Tool calls need a little more room than the old bare JSON answer
+    defaultMaxTokens: 512,
+    fileId,
+    fileName,
+    options,
+  });
 }
 
 /**
- * Extract letter data from a document using Claude API
- * Matches the n8n workflow "Analyze Letter" node
+ * Detect document boundaries in a multi-page PDF using Claude API
+ * Returns ordered page ranges covering the whole file; a single segment
+ * means the file holds one document.
  */
-export async function extractLetter(
+export async function segmentDocument(
   fileId: string,
   fileName: string,
+  pageCount: number,
   options?: ObservationOptions
-): Promise<any> {
-  const langfuse = getLangfuseClient();
-  const client = getClaudeClient();
-
-  const langfusePrompt = await langfuse.prompt.get("poc-3f/letters");
-  const promptText = langfusePrompt.prompt;
-  const config = langfusePrompt.config as
-    | { model?: string; max_tokens?: number; temperature?: number }
-    | undefined;
-
-  const model = config?.model || "claude-3-5-haiku-20241022";
-  const maxTokens = config?.max_tokens || 2048;
-  const temperature = config?.temperature || 0;
-
-  const parentSpanContext = buildParentSpanContext(options);
-
-  // Create generation observation
-  const generation = startObservation(
-    "extract-letter",
-    {
-      model,
-      input: promptText,
-      modelParameters: { maxTokens, temperature },
-      metadata: {
-        promptName: "poc-3f/letters",
-        promptVersion: langfusePrompt.version,
-        fileName,
-        fileId,
-      },
-      prompt: toLangfusePromptAttributes(langfusePrompt),
-    },
-    { asType: "generation", parentSpanContext }
-  );
-
-  try {
-    const response = await client.beta.messages.create({
-      model,
-      max_tokens: maxTokens,
-      temperature,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "document",
-              source: {
-                type: "file",
-                file_id: fileId,
-              },
-            },
-            {
-              type: "text",
-              text: promptText,
-            },
-          ],
-        },
-      ],
-      betas: ["files-api-2025-04-14"],
-    });
-
-    // Update generation with raw LLM response
-    generation.update({
-      output: response.content,
-      usageDetails: {
-        input: response.usage.input_tokens,
-        output: response.usage.output_tokens,
-        cache_creation_input_tokens:
-          response.usage.cache_creation_input_tokens || 0,
-        cache_read_input_tokens: response.usage.cache_read_input_tokens || 0,
-      },
-      metadata: {
-        stopReason: response.stop_reason,
-      },
-    });
-
-    generation.end();
-
-    const textContent = response.content.find(block => block.type === "text");
-    if (!textContent || textContent.type !== "text") {
-      throw new Error("No text response from Claude");
-    }
-
-    const responseText = textContent.text;
-    const cleanText = responseText
-      .replace(/```json\n?/g, "")
-      .replace(/```\n?/g, "")
-      .trim();
-
-    const letterData = JSON.parse(cleanText);
+): Promise<SegmentationResponse> {
+  return runStructuredPrompt({
+    observationName: "segment-document",
+    promptName: "poc-3f/segment",
+    toolName: "record_segments",
+    toolDescription: `Record where each separate document in this ${pageCount}-page PDF starts and ends. Use one segment per document (e.g. one per invoice in a scanned stack); pages of the same document, including continuation pages, belong to one segment.`,
+    schema: buildSegmentationResponseSchema(pageCount),
+    defaultMaxTokens: 1024,
+    fileId,
+    fileName,
+    options,
+  });
+}
 
-    return letterData;
-  } catch (error) {
-    generation.update({
-      level: "ERROR",
-      statusMessage: error instanceof Error ? error.message : String(error),
-    });
-    generation.end();
-    throw error;
-  }
+/**
+ * Extract structured data for a registered document type using Claude API
+ * Prompt, tool and schema come from the type's registry definition. With
+ * `pageRange` the file holds only those pages of a longer document.
+ */
+export async function extractDocument<TData>(
+  definition: DocumentTypeDefinition<TData>,
+  fileId: string,
+  fileName: string,
+  options?: ObservationOptions,
+  pageRange?: { start: number; end: number; pageCount: number }
+): Promise<Extracted<TData>> {
+  const { chunking: _chunking, ...extraction } = definition.extraction;
+
+  return runStructuredPrompt({
+    ...extraction,
+    fileId,
+    fileName,
+    options,
+    context: pageRange
+      ? `This file contains only pages ${pageRange.start}-${pageRange.end} of a ${pageRange.pageCount}-page document. Record only what is printed on these pages, in order. Use null for values that do not appear on them, such as an opening or closing balance printed on another page.`
+      : undefined,
+  });
 }
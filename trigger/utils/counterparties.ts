@@ -0,0 +1,402 @@
+import type { DbClient } from "./db";
+import type {
+  CounterpartyIdentifierKind,
+  CounterpartyResolution,
+} from "../types/domain";
+import { companyNameTokens, nameSimilarity } from "./invoiceDuplicates";
+import { findIbans, normalizeIban } from "./iban";
+import { normalizeVatNumber } from "./vatNumber";
+
+// ============================================================================
+// COUNTERPARTIES: ENTITY RESOLUTION
+// ============================================================================
+// Vendors, letter senders and statement counterparties are linked to one
+// canonical counterparty. Each counterparty owns the identifiers it was seen
+// with: VAT numbers, IBANs and name keys (name words without legal form and
+// punctuation, so "ACME GmbH" and "Acme GmbH." share one). A VAT number wins
+// over an IBAN, an IBAN over the name; a similar name only matches a
+// counterparty without a conflicting VAT number. Wrong links are corrected
+// with merge-counterparties / split-counterparty.
+
+// Name keys below this token overlap are different counterparties; one
+// extra word on a two-word name ("Amazon EU" / "Amazon EU Sarl") still matches
+const MIN_NAME_SIMILARITY = 0.65;
+
+// Serializes resolution so concurrent documents cannot create the same
+// counterparty twice (pg_advisory_xact_lock key)
+const RESOLUTION_LOCK_KEY = 4_185_203;
+
+// Identifiers that settle the match on their own, strongest first
+const STRONG_KINDS: CounterpartyIdentifierKind[] = ["vat_number", "iban"];
+
+/**
+ * A party as it appears on one document
+ */
+export interface CounterpartyObservation {
+  name: string | null;
+  vatNumber?: string | null;
+  ibans?: string[];
+}
+
+export interface CounterpartyIdentifier {
+  kind: CounterpartyIdentifierKind;
+  value: string;
+}
+
+/**
+ * Name words without legal form, sorted ("Acme GmbH." -> "ACME")
+ */
+export function counterpartyNameKey(name: string | null): string | null {
+  if (!name) return null;
+  const tokens = [...companyNameTokens(name)].sort();
+  return tokens.length > 0 ? tokens.join(" ") : null;
+}
+
+export function observationIdentifiers(
+  observation: CounterpartyObservation
+): CounterpartyIdentifier[] {
+  const identifiers: CounterpartyIdentifier[] = [];
+  if (observation.vatNumber) {
+    identifiers.push({
+      kind: "vat_number",
+      value: normalizeVatNumber(observation.vatNumber),
+    });
+  }
+  for (const iban of observation.ibans ?? []) {
+    identifiers.push({ kind: "iban", value: normalizeIban(iban) });
+  }
+  const nameKey = counterpartyNameKey(observation.name);
+  if (nameKey) {
+    identifiers.push({ kind: "name", value: nameKey });
+  }
+  return identifiers.filter(identifier => identifier.value.length > 0);
+}
+
+export function identifierKey(identifier: CounterpartyIdentifier): string {
+  return `${identifier.kind}:${identifier.value}`;
+}
+
+/**
+ * Take the resolution lock; must run inside a transaction
+ */
+export async function lockCounterparties(sql: DbClient): Promise<void> {
+  await sql`SELECT pg_advisory_xact_lock(${RESOLUTION_LOCK_KEY})`;
+}
+
+/**
+ * Most similar counterparty by name key that does not carry a different VAT
+ * number than the observation
+ */
+async function findSimilarName(
+  sql: DbClient,
+  nameKey: string,
+  vatNumber: string | null
+): Promise<{ id: string; similarity: number } | null> {
+  const candidates = await sql<{ counterparty_id: string; value: string }[]>`
+    SELECT n.counterparty_id, n.value
+    FROM counterparty_identifiers n
+    WHERE n.kind = 'name'
+      AND string_to_array(n.value, ' ') && ${sql.array(nameKey.split(" "))}::text[]
+      AND (
+        ${vatNumber}::text IS NULL
+        OR NOT EXISTS (
+          SELECT 1
+          FROM counterparty_identifiers v
+          WHERE v.counterparty_id = n.counterparty_id
+            AND v.kind = 'vat_number'
+        )
+      )
+  `;
+
+  let best: { id: string; similarity: number } | null = null;
+  for (const candidate of candidates) {
+    const similarity = nameSimilarity(nameKey, candidate.value);
+    if (
+      similarity >= MIN_NAME_SIMILARITY &&
+      (!best || similarity > best.similarity)
+    ) {
+      best = { id: candidate.counterparty_id, similarity };
+    }
+  }
+  return best;
+}
+
+/**
+ * Link an observed party to its canonical counterparty, creating one when
+ * nothing matches, and record its identifiers on it. Returns null when the
+ * observation has nothing to identify it by. Must run inside a transaction.
+ */
+export async function resolveCounterparty(
+  sql: DbClient,
+  observation: CounterpartyObservation
+): Promise<CounterpartyResolution | null> {
+  const identifiers = observationIdentifiers(observation);
+  if (identifiers.length === 0) return null;
+
+  await lockCounterparties(sql);
+
+  const known = await sql<
+    {
+      kind: CounterpartyIdentifierKind;
+      value: string;
+      counterparty_id: string;
+    }[]
+  >`
+    SELECT kind, value, counterparty_id
+    FROM counterparty_identifiers
+    WHERE value IN ${sql(identifiers.map(identifier => identifier.value))}
+  `;
+  const owners = new Map(
+    known.map(row => [identifierKey(row), row.counterparty_id])
+  );
+
+  let resolution: CounterpartyResolution | null = null;
+  for (const kind of STRONG_KINDS) {
+    const identifier = identifiers.find(candidate => candidate.kind === kind);
+    const owner = identifier && owners.get(identifierKey(identifier));
+    if (owner) {
+      resolution = { counterpartyId: owner, matchedBy: kind };
+      break;
+    }
+  }
+
+  const nameKey = identifiers.find(identifier => identifier.kind === "name");
+  if (!resolution && nameKey) {
+    const vat = identifiers.find(
+      identifier => identifier.kind === "vat_number"
+    );
+    const similar = await findSimilarName(
+      sql,
+      nameKey.value,
+      vat?.value ?? null
+    );
+    if (similar) {
+      resolution = {
+        counterpartyId: similar.id,
+        matchedBy: similar.similarity === 1 ? "name" : "similar_name",
+      };
+    }
+  }
+
+  if (!resolution) {
+    const [created] = await sql<{ id: string }[]>`
+      INSERT INTO counterparties (canonical_name)
+      VALUES (${observation.name?.trim() || identifiers[0].value})
+      RETURNING id
+    `;
+    resolution = { counterpartyId: created.id, matchedBy: "created" };
+  }
+
+  // Identifiers already owned by another counterparty stay there; a
+  // reviewer merges the two when they are the same
+  const { counterpartyId } = resolution;
+  await sql`
+    INSERT INTO counterparty_identifiers ${sql(
+      identifiers.map(identifier => ({
+        counterparty_id: counterpartyId,
+        kind: identifier.kind,
+        value: identifier.value,
+      }))
+    )}
+    ON CONFLICT (kind, value) DO NOTHING
+  `;
+
+  return resolution;
+}
+
+/**
+ * Resolve several observations of one document, resolving repeated parties
+ * (the same payee on many statement rows) only once
+ */
+export async function resolveCounterparties(
+  sql: DbClient,
+  observations: CounterpartyObservation[]
+): Promise<Array<CounterpartyResolution | null>> {
+  const cache = new Map<string, CounterpartyResolution | null>();
+  const resolutions: Array<CounterpartyResolution | null> = [];
+  for (const observation of observations) {
+    const key = observationIdentifiers(observation)
+      .map(identifierKey)
+      .join("|");
+    if (!cache.has(key)) {
+      cache.set(key, await resolveCounterparty(sql, observation));
+    }
+    resolutions.push(cache.get(key) ?? null);
+  }
+  return resolutions;
+}
+
+// ============================================================================
+// CORRECTIONS: MERGE AND SPLIT
+// ============================================================================
+
+// Columns linking stored records to a counterparty
+const LINK_COLUMNS = [
+  { table: "invoices", column: "vendor_counterparty_id" },
+  { table: "letters", column: "sender_counterparty_id" },
+  { table: "statement_transactions", column: "counterparty_id" },
+];
+
+export async function counterpartyExists(
+  sql: DbClient,
+  id: string
+): Promise<boolean> {
+  const [row] = await sql`SELECT 1 FROM counterparties WHERE id = ${id}`;
+  return row !== undefined;
+}
+
+/**
+ * Move every link and identifier of `sourceId` to `targetId` and delete the
+ * source. Returns the number of records relinked.
+ */
+export async function mergeCounterpartyInto(
+  sql: DbClient,
+  sourceId: string,
+  targetId: string
+): Promise<number> {
+  await lockCounterparties(sql);
+
+  let relinked = 0;
+  for (const link of LINK_COLUMNS) {
+    const result = await sql`
+      UPDATE ${sql(link.table)}
+      SET ${sql(link.column)} = ${targetId}
+      WHERE ${sql(link.column)} = ${sourceId}
+    `;
+    relinked += result.count;
+  }
+
+  await sql`
+    UPDATE counterparty_identifiers
+    SET counterparty_id = ${targetId}
+    WHERE counterparty_id = ${sourceId}
+  `;
+  await sql`DELETE FROM counterparties WHERE id = ${sourceId}`;
+
+  return relinked;
+}
+
+/**
+ * Parties of the records linked to a counterparty, as observed on each
+ * document
+ */
+async function linkedObservations(
+  sql: DbClient,
+  counterpartyId: string
+): Promise<Array<{ docId: string; observation: CounterpartyObservation }>> {
+  const invoices = await sql<
+    {
+      doc_id: string;
+      vendor_name: string | null;
+      vendor_vat_number: string | null;
+      payment_bank_details: string | null;
+    }[]
+  >`
+    SELECT doc_id, vendor_name, vendor_vat_number, payment_bank_details
+    FROM invoices
+    WHERE vendor_counterparty_id = ${counterpartyId}
+  `;
+  const letters = await sql<
+    { doc_id: string; sender_organization: string | null }[]
+  >`
+    SELECT doc_id, sender_organization
+    FROM letters
+    WHERE sender_counterparty_id = ${counterpartyId}
+  `;
+  const transactions = await sql<
+    { doc_id: string; counterparty: string | null; description: string }[]
+  >`
+    SELECT doc_id, counterparty, description
+    FROM statement_transactions
+    WHERE counterparty_id = ${counterpartyId}
+  `;
+
+  return [
+    ...invoices.map(row => ({
+      docId: row.doc_id,
+      observation: {
+        name: row.vendor_name,
+        vatNumber: row.vendor_vat_number,
+        ibans: findIbans(row.payment_bank_details),
+      },
+    })),
+    ...letters.map(row => ({
+      docId: row.doc_id,
+      observation: { name: row.sender_organization },
+    })),
+    ...transactions.map(row => ({
+      docId: row.doc_id,
+      observation: {
+        name: row.counterparty,
+        ibans: findIbans(row.description),
+      },
+    })),
+  ];
+}
+
+/**
+ * Move the records of `docIds` linked to `counterpartyId` to a new
+ * counterparty named `canonicalName`. Identifiers seen only on the moved
+ * documents move with them, so later documents follow the correction;
+ * identifiers seen on both sides stay. Returns the new counterparty's id.
+ */
+export async function splitOffCounterparty(
+  sql: DbClient,
+  counterpartyId: string,
+  docIds: string[],
+  canonicalName: string
+): Promise<{ counterpartyId: string; relinked: number; identifiers: number }> {
+  await lockCounterparties(sql);
+
+  const moving = new Set(docIds);
+  const keysOf = (docs: Array<{ observation: CounterpartyObservation }>) =>
+    new Set(
+      docs.flatMap(doc =>
+        observationIdentifiers(doc.observation).map(identifierKey)
+      )
+    );
+  const linked = await linkedObservations(sql, counterpartyId);
+  const movedKeys = keysOf(linked.filter(doc => moving.has(doc.docId)));
+  const remainingKeys = keysOf(linked.filter(doc => !moving.has(doc.docId)));
+
+  const [created] = await sql<{ id: string }[]>`
+    INSERT INTO counterparties (canonical_name)
+    VALUES (${canonicalName})
+    RETURNING id
+  `;
+
+  let relinked = 0;
+  for (const link of LINK_COLUMNS) {
+    const result = await sql`
+      UPDATE ${sql(link.table)}
+      SET ${sql(link.column)} = ${created.id}
+      WHERE ${sql(link.column)} = ${counterpartyId}
+        AND doc_id IN ${sql(docIds)}
+    `;
+    relinked += result.count;
+  }
+
+  const owned = await sql<
+    { id: string; kind: CounterpartyIdentifierKind; value: string }[]
+  >`
+    SELECT id, kind, value
+    FROM counterparty_identifiers
+    WHERE counterparty_id = ${counterpartyId}
+  `;
+  const moved = owned
+    .filter(
+      identifier =>
+        movedKeys.has(identifierKey(identifier)) &&
+        !remainingKeys.has(identifierKey(identifier))
+    )
+    .map(identifier => identifier.id);
+  if (moved.length > 0) {
+    await sql`
+      UPDATE counterparty_identifiers
+      SET counterparty_id = ${created.id}
+      WHERE id IN ${sql(moved)}
+    `;
+  }
+
+  return { counterpartyId: created.id, relinked, identifiers: moved.length };
+}
@@ -0,0 +1,105 @@
+import type { LanguageTag, LocaleParse } from "./localeFormats";
+
+// ============================================================================
+// CURRENCY CODES (ISO 4217)
+// ============================================================================
+// Extracted currencies are stored as ISO 4217 codes. Symbols are mapped to
+// their code; symbols shared by several currencies ("$", "kr", "¥") are
+// resolved from the document language and region where that is conclusive.
+
+// Active codes as of the 2025 amendments (XCG replaces ANG, ZWG replaces ZWL)
+const ISO_4217_CODES = new Set(
+  (
+    "AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BHD BIF BMD BND " +
+    "BOB BRL BSD BTN BWP BYN BZD CAD CDF CHF CLP CNY COP CRC CUP CVE CZK DJF " +
+    "DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP GEL GHS GIP GMD GNF GTQ GYD HKD " +
+    "HNL HTG HUF IDR ILS INR IQD IRR ISK JMD JOD JPY KES KGS KHR KMF KPW KRW " +
+    "KWD KYD KZT LAK LBP LKR LRD LSL LYD MAD MDL MGA MKD MMK MNT MOP MRU MUR " +
+    "MVR MWK MXN MYR MZN NAD NGN NIO NOK NPR NZD OMR PAB PEN PGK PHP PKR PLN " +
+    "PYG QAR RON RSD RUB RWF SAR SBD SCR SDG SEK SGD SHP SLE SOS SRD SSP STN " +
+    "SVC SYP SZL THB TJS TMT TND TOP TRY TTD TWD TZS UAH UGX USD UYU UZS VES " +
+    "VND VUV WST XAF XCD XCG XOF XPF YER ZAR ZMW ZWG ZWL"
+  ).split(" ")
+);
+
+// Unambiguous symbols and names, uppercased
+const CURRENCY_ALIASES: Record<string, string> = {
+  "€": "EUR",
+  EURO: "EUR",
+  EUROS: "EUR",
+  "£": "GBP",
+  US$: "USD",
+  CA$: "CAD",
+  C$: "CAD",
+  A$: "AUD",
+  AU$: "AUD",
+  NZ$: "NZD",
+  HK$: "HKD",
+  S$: "SGD",
+  R$: "BRL",
+  "FR.": "CHF",
+  SFR: "CHF",
+  "SFR.": "CHF",
+  ZŁ: "PLN",
+  ZL: "PLN",
+  KČ: "CZK",
+  FT: "HUF",
+  LEI: "RON",
+  "₹": "INR",
+  "₽": "RUB",
+  "₺": "TRY",
+  "₩": "KRW",
+  "₪": "ILS",
+  "฿": "THB",
+  "₴": "UAH",
+};
+
+// Shared symbols: currency by "language-REGION", then by language
+const SHARED_SYMBOLS: Record<string, Record<string, string>> = {
+  $: {
+    "en-US": "USD",
+    "es-US": "USD",
+    "en-CA": "CAD",
+    "fr-CA": "CAD",
+    "en-AU": "AUD",
+    "en-NZ": "NZD",
+    "es-MX": "MXN",
+  },
+  "¥": { ja: "JPY", zh: "CNY" },
+  KR: { sv: "SEK", da: "DKK", no: "NOK", nb: "NOK", nn: "NOK", is: "ISK" },
+  "KR.": { sv: "SEK", da: "DKK", no: "NOK", nb: "NOK", nn: "NOK", is: "ISK" },
+};
+
+/**
+ * Map a currency code, symbol or name to its ISO 4217 code
+ */
+export function normalizeCurrency(
+  value: string,
+  language: LanguageTag | null
+): LocaleParse<string> {
+  const text = value.trim().toUpperCase().replace(/\s+/g, "");
+
+  if (/^[A-Z]{3}$/.test(text)) {
+    return ISO_4217_CODES.has(text)
+      ? { ok: true, value: text }
+      : { ok: false, reason: "not an ISO 4217 currency code" };
+  }
+
+  const alias = CURRENCY_ALIASES[text];
+  if (alias) return { ok: true, value: alias };
+
+  const shared = SHARED_SYMBOLS[text];
+  if (shared) {
+    const code =
+      (language?.region && shared[`${language.language}-${language.region}`]) ||
+      (language && shared[language.language]);
+    return code
+      ? { ok: true, value: code }
+      : {
+          ok: false,
+          reason: `"${value.trim()}" is used by several currencies (${[...new Set(Object.values(shared))].join(", ")})`,
+        };
+  }
+
+  return { ok: false, reason: "unknown currency" };
+}
@@ -20,3 +20,9 @@ export function getDb() {
 
   return sql;
 }
+
+/**
+ * Connection or transaction handle - `sql.begin()` callbacks receive a
+ * TransactionSql, which is accepted anywhere a plain client is
+ */
+export type DbClient = postgres.Sql;
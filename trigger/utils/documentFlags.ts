@@ -0,0 +1,74 @@
+import type { DbClient } from "./db";
+import type { DocumentFlag } from "../types/domain";
+
+// ============================================================================
+// DOCUMENT FLAGS
+// ============================================================================
+// Anomalies found by a document type's detectAnomalies hook. A document with
+// open (unacknowledged) flags ends in "flagged" instead of "processed";
+// acknowledge-document-flags releases it.
+
+/**
+ * Replace the open flags of `docId` with `flags`. Acknowledged flags are
+ * kept, and a re-run does not raise the same kind again. Returns the number
+ * of open flags.
+ */
+export async function saveDocumentFlags(
+  sql: DbClient,
+  docId: string,
+  flags: DocumentFlag[]
+): Promise<number> {
+  await sql`
+    DELETE FROM document_flags
+    WHERE doc_id = ${docId} AND acknowledged_at IS NULL
+  `;
+  if (flags.length > 0) {
+    await sql`
+      INSERT INTO document_flags ${sql(
+        flags.map(flag => ({
+          doc_id: docId,
+          kind: flag.kind,
+          message: flag.message,
+          details: JSON.stringify(flag.details),
+        }))
+      )}
+      ON CONFLICT (doc_id, kind) DO NOTHING
+    `;
+  }
+
+  return countOpenFlags(sql, docId);
+}
+
+export async function countOpenFlags(
+  sql: DbClient,
+  docId: string
+): Promise<number> {
+  const [row] = await sql<{ open: number }[]>`
+    SELECT count(*)::int AS open
+    FROM document_flags
+    WHERE doc_id = ${docId} AND acknowledged_at IS NULL
+  `;
+  return row.open;
+}
+
+/**
+ * Acknowledge open flags of `docId` (all of them, or only `kinds`). Returns
+ * the number of flags acknowledged.
+ */
+export async function acknowledgeOpenFlags(
+  sql: DbClient,
+  docId: string,
+  acknowledgedBy: string,
+  kinds?: string[]
+): Promise<number> {
+  const kindFilter = kinds ? sql.array(kinds) : null;
+  const result = await sql`
+    UPDATE document_flags
+    SET acknowledged_at = NOW(),
+        acknowledged_by = ${acknowledgedBy}
+    WHERE doc_id = ${docId}
+      AND acknowledged_at IS NULL
+      AND (${kindFilter}::text[] IS NULL OR kind = ANY(${kindFilter}::text[]))
+  `;
+  return result.count;
+}
@@ -4,6 +4,9 @@ import type { drive_v3 } from "googleapis";
 /**
  * Create a new Google Drive client instance
  * Note: Not using singleton to avoid memory accumulation in long-running tasks
+ *
+ * Every call passes supportsAllDrives, since inbox folders may live in shared
+ * drives
  */
 export function getDriveClient(): drive_v3.Drive {
   // Use GoogleAuth with keyFile or JWT constructor for service account credentials
@@ -33,6 +36,7 @@ export async function downloadFileFromDrive(fileId: string): Promise<Buffer> {
       {
         fileId: fileId,
         alt: "media",
+        supportsAllDrives: true,
       },
       {
         responseType: "arraybuffer",
@@ -53,6 +57,99 @@ export async function downloadFileFromDrive(fileId: string): Promise<Buffer> {
   }
 }
 
+/**
+ * Export a native Google Docs/Sheets/Slides file as PDF
+ */
+export async function exportFileAsPdf(fileId: string): Promise<Buffer> {
+  const drive = getDriveClient();
+
+  try {
+    const response = await drive.files.export(
+      {
+        fileId: fileId,
+        mimeType: "application/pdf",
+      },
+      {
+        responseType: "arraybuffer",
+      }
+    );
+
+    return Buffer.from(response.data as ArrayBuffer);
+  } catch (error) {
+    const summary = summarizeGoogleError(error);
+    console.error(`[drive] exportFileAsPdf error`, {
+      fileId,
+      code: summary.code,
+      reason: summary.reason,
+      message: summary.message,
+    });
+
+    throw new Error(`Failed to export file ${fileId}: ${summary.message}`);
+  }
+}
+
+// Name prefix of the temporary Google Workspace copies, created next to the
+// original in the inbox; the cron skips files named like this
+export const CONVERSION_COPY_PREFIX = "docflow-conversion-";
+
+/**
+ * Convert an uploaded office file (docx, xlsx, ...) to PDF by copying it
+ * into the matching Google Workspace type, exporting the copy and deleting
+ * it again
+ */
+export async function convertFileToPdfViaDrive(
+  fileId: string,
+  googleMimeType: string
+): Promise<Buffer> {
+  const drive = getDriveClient();
+
+  let copyId: string | null | undefined;
+  try {
+    const copy = await drive.files.copy({
+      fileId: fileId,
+      requestBody: {
+        mimeType: googleMimeType,
+        name: `${CONVERSION_COPY_PREFIX}${fileId}`,
+      },
+      fields: "id",
+      supportsAllDrives: true,
+    });
+    copyId = copy.data.id;
+  } catch (error) {
+    const summary = summarizeGoogleError(error);
+    console.error(`[drive] convertFileToPdfViaDrive error`, {
+      fileId,
+      googleMimeType,
+      code: summary.code,
+      reason: summary.reason,
+      message: summary.message,
+    });
+
+    throw new Error(
+      `Failed to convert file ${fileId} to ${googleMimeType}: ${summary.message}`
+    );
+  }
+
+  if (!copyId) {
+    throw new Error(`Drive returned no ID for converted copy of ${fileId}`);
+  }
+
+  try {
+    return await exportFileAsPdf(copyId);
+  } finally {
+    // The temporary copy is never needed again; a leftover is only clutter
+    try {
+      await drive.files.delete({ fileId: copyId, supportsAllDrives: true });
+    } catch (error) {
+      const summary = summarizeGoogleError(error);
+      console.error(`[drive] failed to delete temporary copy`, {
+        fileId: copyId,
+        message: summary.message,
+      });
+    }
+  }
+}
+
 /**
  * Get file metadata from Google Drive
  */
@@ -64,6 +161,7 @@ export async function getFileMetadata(fileId: string) {
       fileId: fileId,
       fields:
         "id, name, mimeType, size, createdTime, modifiedTime, md5Checksum",
+      supportsAllDrives: true,
     });
 
     return response.data;
@@ -93,6 +191,7 @@ export async function moveFileToFolder(fileId: string, targetFolderId: string) {
     const file = await drive.files.get({
       fileId: fileId,
       fields: "parents",
+      supportsAllDrives: true,
     });
 
     const previousParents = file.data.parents?.join(",") || "";
@@ -103,6 +202,7 @@ export async function moveFileToFolder(fileId: string, targetFolderId: string) {
       addParents: targetFolderId,
       removeParents: previousParents,
       fields: "id, parents",
+      supportsAllDrives: true,
     });
 
     return { fileId, moved: true, targetFolderId };
@@ -132,6 +232,7 @@ export async function deleteFileFromDrive(fileId: string) {
   try {
     await drive.files.delete({
       fileId: fileId,
+      supportsAllDrives: true,
     });
 
     return { fileId, deleted: true };
@@ -0,0 +1,241 @@
+import { createHash } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { ImapFlow } from "imapflow";
+import { simpleParser } from "mailparser";
+import { PDF_MIME_TYPE, getSourceKind } from "./sourceFormats";
+
+// ============================================================================
+// EMAIL INBOX
+// ============================================================================
+// Messages are read from an IMAP mailbox, or from a local Maildir / mbox for
+// testing. PDF and image attachments become documents; everything else
+// (signatures, calendar invites, inline logos in HTML) is ignored.
+
+// Attachments sent as application/octet-stream are recognised by extension
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: PDF_MIME_TYPE,
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  heic: "image/heic",
+  heif: "image/heif",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+};
+
+export interface EmailAttachment {
+  index: number; // 0-based among the message's supported attachments
+  fileName: string;
+  mimeType: string; // PDF or image type accepted by download-and-prepare
+  content: Buffer;
+}
+
+export interface EmailMessage {
+  messageId: string;
+  from: string | null;
+  subject: string | null;
+  date: string | null; // ISO 8601
+  attachments: EmailAttachment[];
+}
+
+export type LocalMailbox = { kind: "maildir" | "mbox"; path: string };
+
+export interface ImapConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  password: string;
+  mailbox: string;
+}
+
+/**
+ * IMAP settings from IMAP_HOST, IMAP_PORT, IMAP_SECURE, IMAP_USER,
+ * IMAP_PASSWORD and IMAP_MAILBOX, or null when IMAP_HOST is not set
+ */
+export function getImapConfig(): ImapConfig | null {
+  const host = process.env.IMAP_HOST;
+  if (!host) return null;
+
+  const user = process.env.IMAP_USER;
+  const password = process.env.IMAP_PASSWORD;
+  if (!user || !password) {
+    throw new Error("IMAP_USER and IMAP_PASSWORD are required with IMAP_HOST");
+  }
+
+  const secure = process.env.IMAP_SECURE !== "false";
+  return {
+    host,
+    port: Number(process.env.IMAP_PORT ?? (secure ? 993 : 143)),
+    secure,
+    user,
+    password,
+    mailbox: process.env.IMAP_MAILBOX ?? "INBOX",
+  };
+}
+
+function attachmentMimeType(
+  contentType: string,
+  fileName: string | undefined
+): string | null {
+  const type = contentType.toLowerCase();
+  if (type === PDF_MIME_TYPE || getSourceKind(type) === "image") return type;
+
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  return extension ? (EXTENSION_MIME_TYPES[extension] ?? null) : null;
+}
+
+/**
+ * Parse a raw RFC 822 message and keep its PDF and image attachments
+ */
+export async function parseEmail(raw: Buffer): Promise<EmailMessage> {
+  const parsed = await simpleParser(raw);
+
+  const attachments: EmailAttachment[] = [];
+  for (const attachment of parsed.attachments) {
+    // Images referenced from the HTML body are logos and signatures
+    if (attachment.related) continue;
+
+    const mimeType = attachmentMimeType(
+      attachment.contentType,
+      attachment.filename
+    );
+    if (!mimeType) continue;
+
+    const index = attachments.length;
+    attachments.push({
+      index,
+      fileName:
+        attachment.filename ??
+        `attachment-${index + 1}.${mimeType === PDF_MIME_TYPE ? "pdf" : mimeType.split("/")[1]}`,
+      mimeType,
+      content: attachment.content,
+    });
+  }
+
+  return {
+    messageId:
+      parsed.messageId ??
+      `<${createHash("sha256").update(raw).digest("hex")}@docflow.local>`,
+    from: parsed.from?.text || null,
+    subject: parsed.subject ?? null,
+    date: parsed.date?.toISOString() ?? null,
+    attachments,
+  };
+}
+
+/**
+ * Stable ID of an attachment; the same attachment always maps to the same
+ * ID, so a message read twice is not processed twice
+ */
+export function emailAttachmentId(
+  messageId: string,
+  attachmentIndex: number
+): string {
+  const hash = createHash("sha256")
+    .update(`${messageId}:${attachmentIndex}`)
+    .digest("hex");
+  return `email-${hash.slice(0, 32)}`;
+}
+
+/**
+ * Raw messages of a Maildir (new/ and cur/) or an mbox file
+ */
+export async function readLocalMailbox(
+  mailbox: LocalMailbox
+): Promise<Buffer[]> {
+  if (mailbox.kind === "maildir") {
+    const messages: Buffer[] = [];
+    for (const folder of ["new", "cur"]) {
+      const directory = join(mailbox.path, folder);
+      const names = await readdir(directory).catch(() => [] as string[]);
+      for (const name of names.sort()) {
+        messages.push(await readFile(join(directory, name)));
+      }
+    }
+    return messages;
+  }
+
+  // mbox: messages start at "From " lines; mboxrd escapes body lines as ">From "
+  const content = await readFile(mailbox.path, "latin1");
+  return content
+    .split(/^From .*\r?\n/m)
+    .filter(message => message.trim().length > 0)
+    .map(message =>
+      Buffer.from(message.replace(/^>(>*From )/gm, "$1"), "latin1")
+    );
+}
+
+/**
+ * Key of a mailbox in email_sync_state
+ */
+export function imapMailboxKey(config: ImapConfig): string {
+  return `${config.user}@${config.host}/${config.mailbox}`;
+}
+
+/**
+ * Connect to the configured IMAP server and hold the mailbox for `handle`,
+ * which receives the mailbox's UIDVALIDITY. Nothing in the mailbox is
+ * modified: it is usually shared with people who read and flag messages.
+ */
+export async function withImapMailbox<T>(
+  config: ImapConfig,
+  handle: (client: ImapFlow, uidValidity: string) => Promise<T>
+): Promise<T> {
+  const client = new ImapFlow({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: { user: config.user, pass: config.password },
+    logger: false,
+  });
+
+  await client.connect();
+  try {
+    const lock = await client.getMailboxLock(config.mailbox, {
+      readOnly: true,
+    });
+    try {
+      if (!client.mailbox) {
+        throw new Error(`IMAP mailbox ${config.mailbox} is not open`);
+      }
+      return await handle(client, String(client.mailbox.uidValidity));
+    } finally {
+      lock.release();
+    }
+  } finally {
+    await client.logout();
+  }
+}
+
+/**
+ * UIDs of the messages after `lastUid`, oldest first
+ */
+export async function searchImapMessagesAfter(
+  client: ImapFlow,
+  lastUid: number
+): Promise<number[]> {
+  const uids = await client.search({ uid: `${lastUid + 1}:*` }, { uid: true });
+  // "n:*" also matches the newest message when every UID is below n
+  return (uids || []).filter(uid => uid > lastUid).sort((a, b) => a - b);
+}
+
+/**
+ * Raw source of one message by UID (fetched with BODY.PEEK, so \Seen is
+ * left as it was)
+ */
+export async function fetchImapMessage(
+  client: ImapFlow,
+  uid: number
+): Promise<Buffer> {
+  const message = await client.fetchOne(
+    String(uid),
+    { source: true },
+    { uid: true }
+  );
+  if (!message || !message.source) {
+    throw new Error(`IMAP message ${uid} has no source`);
+  }
+  return message.source;
+}
@@ -0,0 +1,174 @@
+// ============================================================================
+// IBAN VALIDATION (offline)
+// ============================================================================
+// ISO 13616: country code, two check digits, country-specific BBAN. Valid
+// when the rearranged number is 1 mod 97 and the length matches the country.
+
+/**
+ * IBAN length per country (SWIFT IBAN registry)
+ */
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24,
+  AE: 23,
+  AL: 28,
+  AT: 20,
+  AZ: 28,
+  BA: 20,
+  BE: 16,
+  BG: 22,
+  BH: 22,
+  BI: 27,
+  BR: 29,
+  BY: 28,
+  CH: 21,
+  CR: 22,
+  CY: 28,
+  CZ: 24,
+  DE: 22,
+  DJ: 27,
+  DK: 18,
+  DO: 28,
+  EE: 20,
+  EG: 29,
+  ES: 24,
+  FI: 18,
+  FK: 18,
+  FO: 18,
+  FR: 27,
+  GB: 22,
+  GE: 22,
+  GI: 23,
+  GL: 18,
+  GR: 27,
+  GT: 28,
+  HR: 21,
+  HU: 28,
+  IE: 22,
+  IL: 23,
+  IQ: 23,
+  IS: 26,
+  IT: 27,
+  JO: 30,
+  KW: 30,
+  KZ: 20,
+  LB: 28,
+  LC: 32,
+  LI: 21,
+  LT: 20,
+  LU: 20,
+  LV: 21,
+  LY: 25,
+  MC: 27,
+  MD: 24,
+  ME: 22,
+  MK: 19,
+  MN: 20,
+  MR: 27,
+  MT: 31,
+  MU: 30,
+  NI: 28,
+  NL: 18,
+  NO: 15,
+  OM: 23,
+  PK: 24,
+  PL: 28,
+  PS: 29,
+  PT: 25,
+  QA: 29,
+  RO: 24,
+  RS: 22,
+  RU: 33,
+  SA: 24,
+  SC: 31,
+  SD: 18,
+  SE: 24,
+  SI: 19,
+  SK: 24,
+  SM: 27,
+  SO: 23,
+  ST: 25,
+  SV: 28,
+  TL: 23,
+  TN: 24,
+  TR: 26,
+  UA: 29,
+  VA: 22,
+  VG: 24,
+  XK: 20,
+  YE: 30,
+};
+
+export type IbanCheck =
+  | { valid: true; iban: string; country: string }
+  | { valid: false; iban: string; reason: string };
+
+/**
+ * Electronic format: uppercase, no spaces or separators
+ * ("de89 3704-0044 0532 0130 00" -> "DE89370400440532013000")
+ */
+export function normalizeIban(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * ISO 7064 MOD 97-10 of an alphanumeric string (A=10 ... Z=35), computed in
+ * chunks so long numbers stay within double precision
+ */
+export function mod97(value: string): number {
+  let remainder = 0;
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    const digits = code >= 65 && code <= 90 ? String(code - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder;
+}
+
+export function validateIban(value: string): IbanCheck {
+  const iban = normalizeIban(value);
+
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) {
+    return { valid: false, iban, reason: "not an IBAN" };
+  }
+
+  const country = iban.slice(0, 2);
+  const expectedLength = IBAN_LENGTHS[country];
+  if (!expectedLength) {
+    return { valid: false, iban, reason: `unknown IBAN country ${country}` };
+  }
+  if (iban.length !== expectedLength) {
+    return {
+      valid: false,
+      iban,
+      reason: `${country} IBANs have ${expectedLength} characters, got ${iban.length}`,
+    };
+  }
+  if (mod97(iban.slice(4) + iban.slice(0, 4)) !== 1) {
+    return { valid: false, iban, reason: "check digits do not match" };
+  }
+
+  return { valid: true, iban, country };
+}
+
+/**
+ * Valid IBANs written anywhere in free text (booking texts, payment details),
+ * in their compact form. Trailing words glued to the number are ignored.
+ */
+export function findIbans(text: string | null): string[] {
+  if (!text) return [];
+
+  const found = new Set<string>();
+  for (const match of text.matchAll(
+    /\b[A-Z]{2}\d{2}(?:[ ]?[A-Z0-9]{1,4}){3,8}/gi
+  )) {
+    const compact = normalizeIban(match[0]);
+    const expectedLength = IBAN_LENGTHS[compact.slice(0, 2)];
+    if (!expectedLength || compact.length < expectedLength) continue;
+
+    const result = validateIban(compact.slice(0, expectedLength));
+    if (result.valid) found.add(result.iban);
+  }
+  return [...found];
+}
@@ -0,0 +1,282 @@
+import type {
+  ContractData,
+  InvoiceData,
+  ReceiptData,
+  StatementData,
+  ValidationIssue,
+  ValidationReport,
+} from "../types/domain";
+import { findIbans, validateIban } from "./iban";
+import { validateVatNumber, vatCountry } from "./vatNumber";
+import { buildValidationReport } from "./validationReport";
+
+// ============================================================================
+// PARTY IDENTIFIERS: NORMALIZE AND VALIDATE
+// ============================================================================
+// VAT numbers and IBANs are stored in their compact form. Values that fail
+// the format or check digit are kept (a human may still recognize them) but
+// reported as field-level warnings.
+
+// Country names printed on the last line of an address, by VAT prefix
+const COUNTRY_NAMES: Record<string, string[]> = {
+  AT: ["austria", "österreich"],
+  BE: ["belgium", "belgique", "belgië", "belgien"],
+  BG: ["bulgaria", "българия"],
+  CY: ["cyprus", "κύπρος"],
+  CZ: ["czech republic", "czechia", "česko", "česká republika"],
+  DE: ["germany", "deutschland"],
+  DK: ["denmark", "danmark"],
+  EE: ["estonia", "eesti"],
+  EL: ["greece", "ελλάδα", "ελλάς"],
+  ES: ["spain", "españa"],
+  FI: ["finland", "suomi"],
+  FR: ["france"],
+  HR: ["croatia", "hrvatska"],
+  HU: ["hungary", "magyarország"],
+  IE: ["ireland", "éire"],
+  IT: ["italy", "italia"],
+  LT: ["lithuania", "lietuva"],
+  LU: ["luxembourg", "luxemburg"],
+  LV: ["latvia", "latvija"],
+  MT: ["malta"],
+  NL: ["netherlands", "the netherlands", "nederland"],
+  PL: ["poland", "polska"],
+  PT: ["portugal"],
+  RO: ["romania", "românia"],
+  SE: ["sweden", "sverige"],
+  SI: ["slovenia", "slovenija"],
+  SK: ["slovakia", "slovensko"],
+  GB: ["united kingdom", "uk", "great britain"],
+  CH: ["switzerland", "schweiz", "suisse", "svizzera"],
+};
+
+/**
+ * VAT prefix for the country a party is in, from the last part of its
+ * address ("..., 10115 Berlin, Germany") or an IBAN it is paid on. Used for
+ * numbers printed without their prefix.
+ */
+function partyCountry(
+  address: string | null,
+  bankDetails: string | null = null
+): string | null {
+  const lastPart = address?.split(/[,\n]/).pop()?.trim().toLowerCase();
+  if (lastPart) {
+    for (const [country, names] of Object.entries(COUNTRY_NAMES)) {
+      if (names.includes(lastPart)) return country;
+    }
+  }
+  const [iban] = findIbans(bankDetails);
+  return iban ? vatCountry(iban.slice(0, 2)) : null;
+}
+
+function checkVatNumber(
+  value: string | null,
+  path: string,
+  issues: ValidationIssue[],
+  country: string | null = null
+): string | null {
+  if (!value) return value;
+  const result = validateVatNumber(value, country);
+  if (!result.valid) {
+    issues.push({
+      check: "vat_number",
+      severity: "warning",
+      path,
+      message: `Invalid VAT number "${value}": ${result.reason}`,
+      expected: null,
+      actual: result.vatNumber,
+      difference: null,
+      tolerance: null,
+    });
+  }
+  return result.vatNumber;
+}
+
+function checkIban(
+  value: string | null,
+  path: string,
+  issues: ValidationIssue[]
+): string | null {
+  if (!value) return value;
+  const result = validateIban(value);
+  if (!result.valid) {
+    issues.push({
+      check: "iban",
+      severity: "warning",
+      path,
+      message: `Invalid IBAN "${value}": ${result.reason}`,
+      expected: null,
+      actual: result.iban,
+      difference: null,
+      tolerance: null,
+    });
+  }
+  return result.iban;
+}
+
+// National tax numbers that are the VAT number without its prefix (EIK,
+// IČO, CVR, AFM, NIF, Y-tunnus, OIB, NIP, CUI, DIČ, ...)
+const TAX_ID_IS_VAT_BODY = new Set([
+  "BE",
+  "BG",
+  "CY",
+  "CZ",
+  "DK",
+  "EL",
+  "ES",
+  "FI",
+  "HR",
+  "PL",
+  "PT",
+  "RO",
+  "SI",
+  "SK",
+]);
+
+// Format of other national tax numbers; countries in neither list are not
+// checked
+const TAX_ID_FORMATS: Record<string, RegExp> = {
+  AT: /^\d{9}$/, // Steuernummer
+  DE: /^\d{10,13}$/, // Steuernummer (state or federal format), Steuer-IdNr
+  FR: /^\d{9}(\d{5})?$/, // SIREN, SIRET
+  GB: /^\d{10}$/, // UTR
+  IT: /^(\d{11}|[A-Z]{6}\d{2}[A-Z]\d{2}[A-Z]\d{3}[A-Z])$/, // Partita IVA, codice fiscale
+  NL: /^\d{9}$/, // RSIN
+};
+
+/**
+ * Tax IDs are national: values that carry a VAT country prefix are checked
+ * as VAT numbers, the others against the party's country when known.
+ * Unprefixed values keep their printed form with whitespace collapsed.
+ */
+function checkTaxId(
+  value: string | null,
+  path: string,
+  issues: ValidationIssue[],
+  country: string | null
+): string | null {
+  if (!value) return value;
+  const taxId = value.trim().replace(/\s+/g, " ");
+  if (taxId.length === 0) return null;
+
+  let reason: string | null = null;
+  let actual = taxId;
+  if (/^[A-Z]{2}[\s.-]*[0-9U]/i.test(taxId)) {
+    const result = validateVatNumber(taxId);
+    if (result.valid) return result.vatNumber;
+    reason = result.reason;
+    actual = result.vatNumber;
+  } else if (country) {
+    const compact = taxId.toUpperCase().replace(/[\s./-]/g, "");
+    if (TAX_ID_IS_VAT_BODY.has(country)) {
+      const result = validateVatNumber(country + compact);
+      if (!result.valid) reason = `${result.reason} (as ${country} VAT number)`;
+    } else if (
+      TAX_ID_FORMATS[country] &&
+      !TAX_ID_FORMATS[country].test(compact)
+    ) {
+      reason = `does not match the ${country} tax number format`;
+    }
+  }
+
+  if (reason) {
+    issues.push({
+      check: "tax_id",
+      severity: "warning",
+      path,
+      message: `Invalid tax ID "${value}": ${reason}`,
+      expected: null,
+      actual,
+      difference: null,
+      tolerance: null,
+    });
+  }
+  return taxId;
+}
+
+export function validateInvoiceIdentifiers(invoice: InvoiceData): {
+  data: InvoiceData;
+  report: ValidationReport;
+} {
+  const data: InvoiceData = structuredClone(invoice);
+  const issues: ValidationIssue[] = [];
+
+  // The payment details name the vendor's account
+  const vendorCountry = partyCountry(
+    data.vendor.address,
+    data.payment.bank_details
+  );
+  data.vendor.vat_number = checkVatNumber(
+    data.vendor.vat_number,
+    "vendor.vat_number",
+    issues,
+    vendorCountry
+  );
+  data.vendor.tax_id = checkTaxId(
+    data.vendor.tax_id,
+    "vendor.tax_id",
+    issues,
+    vendorCountry ??
+      (data.vendor.vat_number
+        ? vatCountry(data.vendor.vat_number.slice(0, 2))
+        : null)
+  );
+  data.customer.vat_number = checkVatNumber(
+    data.customer.vat_number,
+    "customer.vat_number",
+    issues,
+    partyCountry(data.customer.address)
+  );
+
+  return { data, report: buildValidationReport(issues, []) };
+}
+
+export function validateStatementIdentifiers(statement: StatementData): {
+  data: StatementData;
+  report: ValidationReport;
+} {
+  const data: StatementData = structuredClone(statement);
+  const issues: ValidationIssue[] = [];
+
+  data.accounts.forEach((account, index) => {
+    account.iban = checkIban(account.iban, `accounts.${index}.iban`, issues);
+  });
+
+  return { data, report: buildValidationReport(issues, []) };
+}
+
+export function validateReceiptIdentifiers(receipt: ReceiptData): {
+  data: ReceiptData;
+  report: ValidationReport;
+} {
+  const data: ReceiptData = structuredClone(receipt);
+  const issues: ValidationIssue[] = [];
+
+  data.merchant.vat_number = checkVatNumber(
+    data.merchant.vat_number,
+    "merchant.vat_number",
+    issues,
+    partyCountry(data.merchant.address)
+  );
+
+  return { data, report: buildValidationReport(issues, []) };
+}
+
+export function validateContractIdentifiers(contract: ContractData): {
+  data: ContractData;
+  report: ValidationReport;
+} {
+  const data: ContractData = structuredClone(contract);
+  const issues: ValidationIssue[] = [];
+
+  data.parties.forEach((party, index) => {
+    party.vat_number = checkVatNumber(
+      party.vat_number,
+      `parties.${index}.vat_number`,
+      issues,
+      partyCountry(party.address)
+    );
+  });
+
+  return { data, report: buildValidationReport(issues, []) };
+}
@@ -0,0 +1,138 @@
+import type { DbClient } from "./db";
+import type { DocumentFlag, InvoiceData } from "../types/domain";
+import { findIbans } from "./iban";
+
+// ============================================================================
+// INVOICE ANOMALIES (FRAUD SIGNALS)
+// ============================================================================
+// A stored invoice is compared with the earlier invoices of the same vendor
+// counterparty. A changed IBAN on a known vendor's invoice is the classic
+// payment diversion fraud; a far larger total, a new currency or a vendor
+// never seen before deserve a second look before anything is paid.
+
+// Totals above this multiple of the vendor's largest invoice, or below its
+// smallest divided by it, are abnormal
+const AMOUNT_RANGE_FACTOR = 2;
+
+// History needed before a total or currency is judged against it
+const MIN_INVOICES_FOR_AMOUNT_RANGE = 3;
+const MIN_INVOICES_FOR_CURRENCY = 2;
+
+interface VendorInvoice {
+  doc_id: string;
+  total_amount: number | null;
+  currency: string | null;
+  payment_bank_details: string | null;
+}
+
+/**
+ * Earlier invoices of the vendor counterparty linked to `docId`, or null when
+ * the vendor could not be linked
+ */
+async function loadVendorHistory(
+  sql: DbClient,
+  docId: string
+): Promise<{ counterpartyId: string; invoices: VendorInvoice[] } | null> {
+  const [invoice] = await sql<{ vendor_counterparty_id: string | null }[]>`
+    SELECT vendor_counterparty_id FROM invoices WHERE doc_id = ${docId}
+  `;
+  const counterpartyId = invoice?.vendor_counterparty_id;
+  if (!counterpartyId) return null;
+
+  // Flagged, duplicate and rejected documents are no baseline
+  const invoices = await sql<VendorInvoice[]>`
+    SELECT
+      i.doc_id,
+      i.total_amount::float8 AS total_amount,
+      i.currency,
+      i.payment_bank_details
+    FROM invoices i
+    JOIN income_registry r ON r.doc_id = i.doc_id
+    WHERE i.vendor_counterparty_id = ${counterpartyId}
+      AND i.doc_id <> ${docId}
+      AND r.status IN ('processed', 'needs_review')
+  `;
+  return { counterpartyId, invoices };
+}
+
+/**
+ * Flag the invoice stored as `docId` against its vendor's history. Runs
+ * after the vendor was linked to its counterparty.
+ */
+export async function detectInvoiceAnomalies(
+  sql: DbClient,
+  docId: string,
+  invoice: InvoiceData
+): Promise<DocumentFlag[]> {
+  const vendorName = invoice.vendor.name ?? "unknown vendor";
+  const history = await loadVendorHistory(sql, docId);
+  if (!history || history.invoices.length === 0) {
+    return [
+      {
+        kind: "first_time_vendor",
+        message: `First invoice from ${vendorName}`,
+        details: { counterpartyId: history?.counterpartyId ?? null },
+      },
+    ];
+  }
+
+  const flags: DocumentFlag[] = [];
+  const { invoices } = history;
+
+  const knownIbans = new Set(
+    invoices.flatMap(earlier => findIbans(earlier.payment_bank_details))
+  );
+  const ibans = findIbans(invoice.payment.bank_details);
+  if (
+    knownIbans.size > 0 &&
+    ibans.length > 0 &&
+    !ibans.some(iban => knownIbans.has(iban))
+  ) {
+    flags.push({
+      kind: "changed_bank_details",
+      message: `${vendorName} asks for payment to ${ibans.join(", ")}, earlier invoices to ${[...knownIbans].join(", ")}`,
+      details: { ibans, knownIbans: [...knownIbans] },
+    });
+  }
+
+  const currency = invoice.document_info.currency;
+  const knownCurrencies = new Set(
+    invoices
+      .map(earlier => earlier.currency)
+      .filter((value): value is string => value !== null)
+  );
+  if (
+    currency &&
+    invoices.length >= MIN_INVOICES_FOR_CURRENCY &&
+    knownCurrencies.size > 0 &&
+    !knownCurrencies.has(currency)
+  ) {
+    flags.push({
+      kind: "unusual_currency",
+      message: `${vendorName} invoices in ${currency}, earlier in ${[...knownCurrencies].join(", ")}`,
+      details: { currency, knownCurrencies: [...knownCurrencies] },
+    });
+  }
+
+  const totals = invoices
+    .filter(earlier => earlier.currency === currency)
+    .map(earlier => earlier.total_amount)
+    .filter((value): value is number => value !== null);
+  if (totals.length >= MIN_INVOICES_FOR_AMOUNT_RANGE) {
+    const min = Math.min(...totals);
+    const max = Math.max(...totals);
+    const total = invoice.amounts.total_amount;
+    if (
+      total > max * AMOUNT_RANGE_FACTOR ||
+      total < min / AMOUNT_RANGE_FACTOR
+    ) {
+      flags.push({
+        kind: "abnormal_amount",
+        message: `Total ${total}${currency ? ` ${currency}` : ""} is outside ${vendorName}'s range of ${min} to ${max}`,
+        details: { total, min, max, invoiceCount: totals.length },
+      });
+    }
+  }
+
+  return flags;
+}
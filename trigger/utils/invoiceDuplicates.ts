@@ -0,0 +1,272 @@
+import type { DbClient } from "./db";
+import type { DuplicateMatch, InvoiceData } from "../types/domain";
+
+// ============================================================================
+// BUSINESS-LEVEL DUPLICATE INVOICES
+// ============================================================================
+// The same invoice often arrives twice as different files (an emailed scan
+// and a portal download), so byte hashes do not match. Candidates are scored
+// on the fields that identify an invoice; extraction noise such as
+// "INV-0042" vs "INV 42" or a rounding cent is tolerated.
+
+// Score at or above which an invoice is flagged as a suspected duplicate
+export const DUPLICATE_SCORE_THRESHOLD = 0.75;
+
+const WEIGHTS = {
+  invoiceNumber: 0.4,
+  vendor: 0.25,
+  totalAmount: 0.2,
+  invoiceDate: 0.15,
+};
+
+// Totals within 0.5% (at least one cent) are considered equal
+const AMOUNT_RELATIVE_TOLERANCE = 0.005;
+const AMOUNT_ABSOLUTE_TOLERANCE = 0.01;
+
+// Portal copies are sometimes dated on issue, scans on print
+const DATE_TOLERANCE_DAYS = 3;
+
+// Vendor names below this token overlap do not count as the same vendor
+const MIN_NAME_SIMILARITY = 0.6;
+
+// Rows read per prefilter signal (vendor VAT number, total, date)
+const CANDIDATES_PER_SIGNAL = 50;
+
+interface InvoiceCandidate {
+  doc_id: string;
+  invoice_number: string | null;
+  invoice_date: Date | string | null;
+  currency: string | null;
+  total_amount: string | number | null;
+  vendor_name: string | null;
+  vendor_vat_number: string | null;
+}
+
+/**
+ * Uppercase and strip everything but letters and digits ("de 123.456" ->
+ * "DE123456"); matches the regexp_replace used in the candidate query
+ */
+function compactIdentifier(value: string | null): string | null {
+  if (!value) return null;
+  const compact = value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return compact.length > 0 ? compact : null;
+}
+
+/**
+ * Compact an invoice number and drop leading zeros of its numeric parts so
+ * "INV-0042" and "inv 42" compare equal
+ */
+export function normalizeInvoiceNumber(value: string | null): string | null {
+  return compactIdentifier(value)?.replace(/(^|[A-Z])0+(?=\d)/g, "$1") ?? null;
+}
+
+const LEGAL_FORMS = new Set([
+  "GMBH",
+  "AG",
+  "KG",
+  "LTD",
+  "LLC",
+  "INC",
+  "SA",
+  "SRL",
+  "BV",
+  "SPZOO",
+  "OY",
+  "AB",
+]);
+
+/**
+ * Uppercase word tokens of a company name without legal form suffixes
+ * (GmbH, Ltd, ...)
+ */
+export function companyNameTokens(name: string): Set<string> {
+  return new Set(
+    name
+      .toUpperCase()
+      .split(/[^A-Z0-9]+/)
+      .filter(token => token.length > 0 && !LEGAL_FORMS.has(token))
+  );
+}
+
+/**
+ * Jaccard overlap of the word tokens of two company names, ignoring legal
+ * form suffixes
+ */
+export function nameSimilarity(a: string | null, b: string | null): number {
+  if (!a || !b) return 0;
+
+  const left = companyNameTokens(a);
+  const right = companyNameTokens(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  const shared = [...left].filter(token => right.has(token)).length;
+  return shared / (left.size + right.size - shared);
+}
+
+function amountsMatch(a: number, b: number): boolean {
+  const tolerance = Math.max(
+    AMOUNT_ABSOLUTE_TOLERANCE,
+    Math.abs(a) * AMOUNT_RELATIVE_TOLERANCE
+  );
+  return Math.abs(a - b) <= tolerance;
+}
+
+function daysBetween(a: Date, b: Date): number {
+  return Math.abs(a.getTime() - b.getTime()) / (24 * 60 * 60 * 1000);
+}
+
+function toDate(value: Date | string | null): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Score how likely an existing invoice row is the same business document.
+ * Returns the score (0-1) and the fields that matched.
+ */
+export function scoreInvoiceCandidate(
+  invoice: InvoiceData,
+  candidate: InvoiceCandidate
+): { score: number; matchedFields: string[] } {
+  const matchedFields: string[] = [];
+  let score = 0;
+
+  const number = normalizeInvoiceNumber(invoice.document_info.invoice_number);
+  if (number && number === normalizeInvoiceNumber(candidate.invoice_number)) {
+    score += WEIGHTS.invoiceNumber;
+    matchedFields.push("invoice_number");
+  }
+
+  // VAT numbers identify the vendor; fall back to the name when either side
+  // has none
+  const vat = compactIdentifier(invoice.vendor.vat_number);
+  const candidateVat = compactIdentifier(candidate.vendor_vat_number);
+  if (vat && candidateVat) {
+    if (vat === candidateVat) {
+      score += WEIGHTS.vendor;
+      matchedFields.push("vendor_vat_number");
+    }
+  } else {
+    const similarity = nameSimilarity(
+      invoice.vendor.name,
+      candidate.vendor_name
+    );
+    if (similarity >= MIN_NAME_SIMILARITY) {
+      score += WEIGHTS.vendor * similarity;
+      matchedFields.push("vendor_name");
+    }
+  }
+
+  const candidateTotal =
+    candidate.total_amount === null ? null : Number(candidate.total_amount);
+  const sameCurrency =
+    !invoice.document_info.currency ||
+    !candidate.currency ||
+    invoice.document_info.currency.toUpperCase() ===
+      candidate.currency.toUpperCase();
+  if (
+    candidateTotal !== null &&
+    sameCurrency &&
+    amountsMatch(invoice.amounts.total_amount, candidateTotal)
+  ) {
+    score += WEIGHTS.totalAmount;
+    matchedFields.push("total_amount");
+  }
+
+  const date = toDate(invoice.document_info.invoice_date);
+  const candidateDate = toDate(candidate.invoice_date);
+  if (
+    date &&
+    candidateDate &&
+    daysBetween(date, candidateDate) <= DATE_TOLERANCE_DAYS
+  ) {
+    score += WEIGHTS.invoiceDate;
+    matchedFields.push("invoice_date");
+  }
+
+  return { score: Math.round(score * 100) / 100, matchedFields };
+}
+
+/**
+ * Find the best-scoring earlier invoice for the same business document, or
+ * null when nothing reaches DUPLICATE_SCORE_THRESHOLD
+ */
+export async function findDuplicateInvoice(
+  sql: DbClient,
+  docId: string,
+  invoice: InvoiceData
+): Promise<DuplicateMatch | null> {
+  const vat = compactIdentifier(invoice.vendor.vat_number);
+  const total = invoice.amounts.total_amount;
+  const tolerance = Math.max(
+    AMOUNT_ABSOLUTE_TOLERANCE,
+    Math.abs(total) * AMOUNT_RELATIVE_TOLERANCE
+  );
+  const date = toDate(invoice.document_info.invoice_date);
+  const invoiceDate = date ? date.toISOString().slice(0, 10) : null;
+
+  // Every pair scoring above the threshold matches the invoice number and two
+  // of vendor, total and date, so it shares the vendor VAT number, the total
+  // or the date. One narrow query per signal, each taking the candidates
+  // closest on another field first, so a busy vendor or a common amount
+  // cannot crowd the real duplicate out of the limit.
+  const [byVat, byTotal, byDate] = await Promise.all([
+    vat
+      ? sql<InvoiceCandidate[]>`
+          SELECT
+            i.doc_id, i.invoice_number, i.invoice_date, i.currency,
+            i.total_amount, i.vendor_name, i.vendor_vat_number
+          FROM invoices i
+          JOIN income_registry r ON r.doc_id = i.doc_id
+          WHERE i.doc_id <> ${docId}
+            AND r.status NOT IN ('duplicate', 'suspected_duplicate')
+            AND regexp_replace(upper(i.vendor_vat_number), '[^A-Z0-9]', '', 'g') = ${vat}
+          ORDER BY abs(i.total_amount - ${total}) ASC, r.registered_at DESC
+          LIMIT ${CANDIDATES_PER_SIGNAL}
+        `
+      : [],
+    sql<InvoiceCandidate[]>`
+      SELECT
+        i.doc_id, i.invoice_number, i.invoice_date, i.currency,
+        i.total_amount, i.vendor_name, i.vendor_vat_number
+      FROM invoices i
+      JOIN income_registry r ON r.doc_id = i.doc_id
+      WHERE i.doc_id <> ${docId}
+        AND r.status NOT IN ('duplicate', 'suspected_duplicate')
+        AND i.total_amount BETWEEN ${total - tolerance} AND ${total + tolerance}
+      ORDER BY abs(i.invoice_date - ${invoiceDate}::date) ASC NULLS LAST,
+        r.registered_at DESC
+      LIMIT ${CANDIDATES_PER_SIGNAL}
+    `,
+    invoiceDate
+      ? sql<InvoiceCandidate[]>`
+          SELECT
+            i.doc_id, i.invoice_number, i.invoice_date, i.currency,
+            i.total_amount, i.vendor_name, i.vendor_vat_number
+          FROM invoices i
+          JOIN income_registry r ON r.doc_id = i.doc_id
+          WHERE i.doc_id <> ${docId}
+            AND r.status NOT IN ('duplicate', 'suspected_duplicate')
+            AND i.invoice_date BETWEEN ${invoiceDate}::date - ${DATE_TOLERANCE_DAYS}::int
+              AND ${invoiceDate}::date + ${DATE_TOLERANCE_DAYS}::int
+          ORDER BY abs(i.total_amount - ${total}) ASC, r.registered_at DESC
+          LIMIT ${CANDIDATES_PER_SIGNAL}
+        `
+      : [],
+  ]);
+  const candidates = new Map<string, InvoiceCandidate>();
+  for (const candidate of [...byVat, ...byTotal, ...byDate]) {
+    candidates.set(candidate.doc_id, candidate);
+  }
+
+  let best: DuplicateMatch | null = null;
+  for (const candidate of candidates.values()) {
+    const { score, matchedFields } = scoreInvoiceCandidate(invoice, candidate);
+    if (score >= DUPLICATE_SCORE_THRESHOLD && (!best || score > best.score)) {
+      best = { docId: candidate.doc_id, score, matchedFields };
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,256 @@
+import type {
+  InvoiceData,
+  ValidationIssue,
+  ValidationReport,
+  DerivedField,
+} from "../types/domain";
+import { approxEqual, buildValidationReport, round2 } from "./validationReport";
+
+// ============================================================================
+// INVOICE ARITHMETIC CROSS-CHECKS
+// ============================================================================
+// Runs after extraction. Fills amounts that follow from the others (missing
+// line VAT, subtotal, total VAT) and records every discrepancy with the
+// tolerance it was checked against. Line items may be printed net or gross;
+// the basis is detected before the sums are compared.
+
+// Single rounded amounts may be off by a cent
+const AMOUNT_TOLERANCE = 0.01;
+
+// Sums of rounded amounts may be off by half a cent per term
+const PER_TERM_TOLERANCE = 0.005;
+
+function sumTolerance(terms: number): number {
+  return round2(Math.max(AMOUNT_TOLERANCE * 2, terms * PER_TERM_TOLERANCE));
+}
+
+type LineBasis = "net" | "gross";
+
+/**
+ * Whether line_total includes VAT. Decided per invoice: first from
+ * quantity x unit_price, then from which header amount the lines add up to.
+ */
+function detectLineBasis(invoice: InvoiceData): LineBasis | null {
+  let net = 0;
+  let gross = 0;
+  for (const line of invoice.line_items) {
+    if (
+      line.quantity === null ||
+      line.unit_price === null ||
+      line.line_total === null
+    ) {
+      continue;
+    }
+    const product = line.quantity * line.unit_price;
+    if (approxEqual(product, line.line_total, AMOUNT_TOLERANCE)) {
+      net++;
+    } else if (
+      line.vat_rate !== null &&
+      approxEqual(
+        product * (1 + line.vat_rate / 100),
+        line.line_total,
+        AMOUNT_TOLERANCE
+      )
+    ) {
+      gross++;
+    }
+  }
+  if (net > gross) return "net";
+  if (gross > net) return "gross";
+
+  const totals = invoice.line_items.map(line => line.line_total);
+  if (totals.length === 0 || totals.some(total => total === null)) return null;
+  const sum = (totals as number[]).reduce((acc, total) => acc + total, 0);
+  const tolerance = sumTolerance(totals.length);
+  if (
+    invoice.amounts.subtotal !== null &&
+    approxEqual(sum, invoice.amounts.subtotal, tolerance)
+  ) {
+    return "net";
+  }
+  if (approxEqual(sum, invoice.amounts.total_amount, tolerance)) {
+    return "gross";
+  }
+  return null;
+}
+
+/**
+ * Cross-check invoice amounts and fill derivable gaps. Returns a copy of the
+ * data; the input is not modified.
+ */
+export function validateInvoice(invoice: InvoiceData): {
+  data: InvoiceData;
+  report: ValidationReport;
+} {
+  const data: InvoiceData = structuredClone(invoice);
+  const issues: ValidationIssue[] = [];
+  const derived: DerivedField[] = [];
+
+  const basis = detectLineBasis(data);
+
+  // --------------------------------------------------------------------------
+  // Line items: quantity x unit price, and VAT against the line's rate
+  // --------------------------------------------------------------------------
+  data.line_items.forEach((line, index) => {
+    const path = `line_items.${index}`;
+
+    if (basis === "net" && line.quantity !== null && line.unit_price !== null) {
+      const expected = round2(line.quantity * line.unit_price);
+      if (line.line_total === null) {
+        line.line_total = expected;
+        derived.push({
+          path: `${path}.line_total`,
+          value: expected,
+          rule: "quantity * unit_price",
+        });
+      } else if (!approxEqual(expected, line.line_total, AMOUNT_TOLERANCE)) {
+        issues.push({
+          check: "line_total",
+          severity: "warning",
+          path: `${path}.line_total`,
+          message: `Line ${index + 1}: quantity x unit price does not match the line total`,
+          expected,
+          actual: line.line_total,
+          difference: round2(line.line_total - expected),
+          tolerance: AMOUNT_TOLERANCE,
+        });
+      }
+    }
+
+    if (line.vat_rate === null || line.line_total === null || !basis) return;
+
+    const net =
+      basis === "net"
+        ? line.line_total
+        : line.line_total / (1 + line.vat_rate / 100);
+    const expectedVat = round2((net * line.vat_rate) / 100);
+
+    if (line.vat_amount === null) {
+      line.vat_amount = expectedVat;
+      derived.push({
+        path: `${path}.vat_amount`,
+        value: expectedVat,
+        rule:
+          basis === "net"
+            ? "line_total * vat_rate"
+            : "line_total - line_total / (1 + vat_rate)",
+      });
+    } else if (!approxEqual(expectedVat, line.vat_amount, AMOUNT_TOLERANCE)) {
+      issues.push({
+        check: "line_vat",
+        severity: "warning",
+        path: `${path}.vat_amount`,
+        message: `Line ${index + 1}: VAT amount does not match ${line.vat_rate}% of the net amount`,
+        expected: expectedVat,
+        actual: line.vat_amount,
+        difference: round2(line.vat_amount - expectedVat),
+        tolerance: AMOUNT_TOLERANCE,
+      });
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // Header amounts: fill subtotal / total VAT from the other two
+  // --------------------------------------------------------------------------
+  const amounts = data.amounts;
+  if (amounts.subtotal === null && amounts.total_vat !== null) {
+    amounts.subtotal = round2(amounts.total_amount - amounts.total_vat);
+    derived.push({
+      path: "amounts.subtotal",
+      value: amounts.subtotal,
+      rule: "total_amount - total_vat",
+    });
+  } else if (amounts.total_vat === null && amounts.subtotal !== null) {
+    amounts.total_vat = round2(amounts.total_amount - amounts.subtotal);
+    derived.push({
+      path: "amounts.total_vat",
+      value: amounts.total_vat,
+      rule: "total_amount - subtotal",
+    });
+  }
+
+  const rates = new Set(
+    data.line_items
+      .map(line => line.vat_rate)
+      .filter((rate): rate is number => rate !== null)
+  );
+  if (amounts.vat_rate === null && rates.size === 1) {
+    amounts.vat_rate = [...rates][0];
+    derived.push({
+      path: "amounts.vat_rate",
+      value: amounts.vat_rate,
+      rule: "single line item VAT rate",
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Hard checks: subtotal + VAT = total, line items add up to the header
+  // --------------------------------------------------------------------------
+  if (amounts.subtotal !== null && amounts.total_vat !== null) {
+    const expected = round2(amounts.subtotal + amounts.total_vat);
+    const tolerance = AMOUNT_TOLERANCE * 2;
+    if (!approxEqual(expected, amounts.total_amount, tolerance)) {
+      issues.push({
+        check: "total_amount",
+        severity: "error",
+        path: "amounts.total_amount",
+        message: "Subtotal plus total VAT does not equal the total amount",
+        expected,
+        actual: amounts.total_amount,
+        difference: round2(amounts.total_amount - expected),
+        tolerance,
+      });
+    }
+  }
+
+  const lineTotals = data.line_items.map(line => line.line_total);
+  if (lineTotals.length > 0 && lineTotals.every(total => total !== null)) {
+    const sum = round2(
+      (lineTotals as number[]).reduce((acc, total) => acc + total, 0)
+    );
+    const tolerance = sumTolerance(lineTotals.length);
+    const target =
+      basis === "gross"
+        ? { path: "amounts.total_amount", value: amounts.total_amount }
+        : { path: "amounts.subtotal", value: amounts.subtotal };
+
+    if (target.value !== null && !approxEqual(sum, target.value, tolerance)) {
+      issues.push({
+        check: "line_items_sum",
+        severity: "error",
+        path: target.path,
+        message: `Line items do not add up to the ${basis === "gross" ? "total amount" : "subtotal"}`,
+        expected: sum,
+        actual: target.value,
+        difference: round2(target.value - sum),
+        tolerance,
+      });
+    }
+  }
+
+  const lineVat = data.line_items.map(line => line.vat_amount);
+  if (
+    amounts.total_vat !== null &&
+    lineVat.length > 0 &&
+    lineVat.every(vat => vat !== null)
+  ) {
+    const sum = round2(
+      (lineVat as number[]).reduce((acc, vat) => acc + vat, 0)
+    );
+    const tolerance = sumTolerance(lineVat.length);
+    if (!approxEqual(sum, amounts.total_vat, tolerance)) {
+      issues.push({
+        check: "line_vat_sum",
+        severity: "warning",
+        path: "amounts.total_vat",
+        message: "Line VAT amounts do not add up to the total VAT",
+        expected: sum,
+        actual: amounts.total_vat,
+        difference: round2(amounts.total_vat - sum),
+        tolerance,
+      });
+    }
+  }
+
+  return { data, report: buildValidationReport(issues, derived) };
+}
@@ -0,0 +1,530 @@
+// ============================================================================
+// LOCALIZED DATES AND NUMBERS
+// ============================================================================
+// The model copies dates and amounts as printed ("09.04.2025", "1.234,56",
+// "CHF 1'200.-"). These parsers turn them into ISO dates and plain numbers.
+// Where the text alone is ambiguous (day/month order, a lone separator before
+// three digits) the document language decides; without a usable hint the
+// value is reported as unresolved instead of guessed.
+
+export type LocaleParse<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: string };
+
+export interface LanguageTag {
+  language: string; // ISO 639-1, lowercase
+  region: string | null; // ISO 3166-1 alpha-2, uppercase
+}
+
+export interface LocaleHint {
+  // null when the language is written with both orders (e.g. plain "en")
+  dateOrder: "DMY" | "MDY" | "YMD" | null;
+  decimalSeparator: "," | ".";
+}
+
+// English and native language names the model may return instead of a code
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: "en",
+  german: "de",
+  deutsch: "de",
+  french: "fr",
+  francais: "fr",
+  italian: "it",
+  italiano: "it",
+  spanish: "es",
+  espanol: "es",
+  dutch: "nl",
+  nederlands: "nl",
+  portuguese: "pt",
+  portugues: "pt",
+  polish: "pl",
+  polski: "pl",
+  czech: "cs",
+  slovak: "sk",
+  slovenian: "sl",
+  croatian: "hr",
+  danish: "da",
+  dansk: "da",
+  finnish: "fi",
+  swedish: "sv",
+  svenska: "sv",
+  norwegian: "no",
+  norsk: "no",
+  romanian: "ro",
+  hungarian: "hu",
+  greek: "el",
+  turkish: "tr",
+  russian: "ru",
+  ukrainian: "uk",
+  japanese: "ja",
+  chinese: "zh",
+  korean: "ko",
+};
+
+const DMY_COMMA_LANGUAGES = new Set([
+  "bg",
+  "cs",
+  "da",
+  "de",
+  "el",
+  "es",
+  "et",
+  "fi",
+  "fr",
+  "hr",
+  "id",
+  "is",
+  "it",
+  "lv",
+  "nb",
+  "nl",
+  "nn",
+  "no",
+  "pl",
+  "pt",
+  "ro",
+  "ru",
+  "sk",
+  "sl",
+  "sr",
+  "tr",
+  "uk",
+]);
+const YMD_COMMA_LANGUAGES = new Set(["hu", "lt", "sv"]);
+const YMD_DOT_LANGUAGES = new Set(["ja", "ko", "zh"]);
+
+// Swiss and Liechtenstein German, French and Italian use "." as decimal mark
+const DOT_DECIMAL_REGIONS = new Set(["CH", "LI"]);
+
+// Regions writing English dates day-first or month-first
+const ENGLISH_DMY_REGIONS = new Set(["GB", "IE", "AU", "NZ", "IN", "ZA"]);
+const ENGLISH_MDY_REGIONS = new Set(["US", "PH"]);
+
+/**
+ * "de-CH", "en_US", "German" -> { language, region }
+ */
+export function parseLanguageTag(language: string | null): LanguageTag | null {
+  if (!language) return null;
+  const value = stripDiacritics(language.trim().toLowerCase());
+  const match = /^([a-z]{2,3})(?:[-_]([a-z]{2}))?$/.exec(value);
+  if (match && !LANGUAGE_NAMES[value]) {
+    return { language: match[1], region: match[2]?.toUpperCase() ?? null };
+  }
+  const code = LANGUAGE_NAMES[value.split(/[\s(]/)[0]];
+  return code ? { language: code, region: null } : null;
+}
+
+/**
+ * Date order and decimal mark conventionally used with a language
+ */
+export function localeHint(tag: LanguageTag | null): LocaleHint | null {
+  if (!tag) return null;
+  const { language, region } = tag;
+
+  if (language === "en") {
+    return {
+      dateOrder:
+        region && ENGLISH_DMY_REGIONS.has(region)
+          ? "DMY"
+          : region && ENGLISH_MDY_REGIONS.has(region)
+            ? "MDY"
+            : null,
+      decimalSeparator: ".",
+    };
+  }
+  if (DMY_COMMA_LANGUAGES.has(language)) {
+    return {
+      dateOrder: "DMY",
+      decimalSeparator: region && DOT_DECIMAL_REGIONS.has(region) ? "." : ",",
+    };
+  }
+  if (YMD_COMMA_LANGUAGES.has(language)) {
+    return { dateOrder: "YMD", decimalSeparator: "," };
+  }
+  if (YMD_DOT_LANGUAGES.has(language)) {
+    return { dateOrder: "YMD", decimalSeparator: "." };
+  }
+  return null;
+}
+
+function stripDiacritics(value: string): string {
+  return value.normalize("NFD").replace(/\p{M}/gu, "");
+}
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+// Month names without diacritics, January first. Abbreviations are matched
+// as unique prefixes of these ("sept", "févr", "okt").
+const MONTH_NAMES: string[][] = [
+  // English
+  [
+    "january",
+    "february",
+    "march",
+    "april",
+    "may",
+    "june",
+    "july",
+    "august",
+    "september",
+    "october",
+    "november",
+    "december",
+  ],
+  // German ("jänner" in Austria, "mrz" as abbreviation)
+  [
+    "januar|janner",
+    "februar|feber",
+    "marz|maerz|mrz",
+    "april",
+    "mai",
+    "juni",
+    "juli",
+    "august",
+    "september",
+    "oktober",
+    "november",
+    "dezember",
+  ],
+  // French
+  [
+    "janvier",
+    "fevrier",
+    "mars",
+    "avril",
+    "mai",
+    "juin",
+    "juillet",
+    "aout",
+    "septembre",
+    "octobre",
+    "novembre",
+    "decembre",
+  ],
+  // Italian
+  [
+    "gennaio",
+    "febbraio",
+    "marzo",
+    "aprile",
+    "maggio",
+    "giugno",
+    "luglio",
+    "agosto",
+    "settembre",
+    "ottobre",
+    "novembre",
+    "dicembre",
+  ],
+  // Spanish
+  [
+    "enero",
+    "febrero",
+    "marzo",
+    "abril",
+    "mayo",
+    "junio",
+    "julio",
+    "agosto",
+    "septiembre|setiembre",
+    "octubre",
+    "noviembre",
+    "diciembre",
+  ],
+  // Dutch
+  [
+    "januari",
+    "februari",
+    "maart",
+    "april",
+    "mei",
+    "juni",
+    "juli",
+    "augustus",
+    "september",
+    "oktober",
+    "november",
+    "december",
+  ],
+  // Portuguese
+  [
+    "janeiro",
+    "fevereiro",
+    "marco",
+    "abril",
+    "maio",
+    "junho",
+    "julho",
+    "agosto",
+    "setembro",
+    "outubro",
+    "novembro",
+    "dezembro",
+  ],
+];
+
+const MONTH_LOOKUP: Array<{ name: string; month: number }> =
+  MONTH_NAMES.flatMap(names =>
+    names.flatMap((alternatives, index) =>
+      alternatives.split("|").map(name => ({ name, month: index + 1 }))
+    )
+  );
+
+// Words that may surround a date ("9 de abril de 2025", "the 9th of April")
+const DATE_FILLER_WORDS = new Set(["de", "del", "of", "the", "le", "den"]);
+
+/**
+ * Month number for a full or abbreviated month name, if it names exactly one
+ */
+function monthFromName(token: string): number | null {
+  if (token.length < 3) return null;
+  const months = new Set(
+    MONTH_LOOKUP.filter(({ name }) => name.startsWith(token)).map(
+      ({ month }) => month
+    )
+  );
+  return months.size === 1 ? [...months][0] : null;
+}
+
+function expandYear(year: string): number {
+  const value = Number(year);
+  if (year.length > 2) return value;
+  return value < 70 ? 2000 + value : 1900 + value;
+}
+
+function toIsoDate(
+  year: number,
+  month: number,
+  day: number
+): LocaleParse<string> {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    year < 1900 ||
+    year > 2199 ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return { ok: false, reason: "not a calendar date" };
+  }
+  return { ok: true, value: date.toISOString().slice(0, 10) };
+}
+
+/**
+ * Day and month from two numbers in unknown order; the hint only decides
+ * when both could be a month
+ */
+function dayMonthOrder(
+  first: number,
+  second: number,
+  year: number,
+  hint: LocaleHint | null
+): LocaleParse<string> {
+  if (first > 12 || first === second) return toIsoDate(year, second, first);
+  if (second > 12) return toIsoDate(year, first, second);
+  if (hint?.dateOrder === "DMY") return toIsoDate(year, second, first);
+  if (hint?.dateOrder === "MDY") return toIsoDate(year, first, second);
+
+  const dmy = toIsoDate(year, second, first);
+  const mdy = toIsoDate(year, first, second);
+  return {
+    ok: false,
+    reason: `day and month order is ambiguous (${dmy.ok ? dmy.value : "?"} or ${mdy.ok ? mdy.value : "?"})`,
+  };
+}
+
+/**
+ * Parse a printed date into YYYY-MM-DD. `fallbackYear` completes dates
+ * printed without a year, as bank statements do for their transactions.
+ */
+export function parseLocalizedDate(
+  value: string,
+  hint: LocaleHint | null,
+  fallbackYear?: number
+): LocaleParse<string> {
+  const text = stripDiacritics(value.trim().toLowerCase());
+
+  // ISO 8601, optionally with a time part
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[t\s].*)?$/.exec(text);
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const tokens = text
+    .split(/[\s.,/\-]+/)
+    .map(token => token.replace(/^(\d+)(st|nd|rd|th|er|e)$/, "$1"))
+    .filter(token => token.length > 0 && !DATE_FILLER_WORDS.has(token));
+  const numbers = tokens.filter(token => /^\d+$/.test(token));
+  const words = tokens.filter(token => !/^\d+$/.test(token));
+
+  // Named month: "9. April 2025", "April 9, 2025", "9 avr. 25"
+  if (words.length > 0) {
+    const months = words.map(monthFromName).filter(month => month !== null);
+    if (months.length !== 1) {
+      return { ok: false, reason: "no recognizable month name" };
+    }
+    const yearIndex = numbers.findIndex(token => token.length === 4);
+    if (numbers.length === 2) {
+      const year = yearIndex >= 0 ? numbers[yearIndex] : numbers[1];
+      const day = numbers[yearIndex >= 0 ? 1 - yearIndex : 0];
+      return toIsoDate(expandYear(year), months[0], Number(day));
+    }
+    if (numbers.length === 1 && fallbackYear !== undefined) {
+      return toIsoDate(fallbackYear, months[0], Number(numbers[0]));
+    }
+    return { ok: false, reason: "unrecognized date format" };
+  }
+
+  // All numeric: "2025/04/09", "09.04.2025", "4/9/25", "09.04."
+  if (numbers.length === 3) {
+    if (numbers[0].length === 4) {
+      return toIsoDate(
+        Number(numbers[0]),
+        Number(numbers[1]),
+        Number(numbers[2])
+      );
+    }
+    if (numbers[2].length === 4 || numbers[2].length === 2) {
+      return dayMonthOrder(
+        Number(numbers[0]),
+        Number(numbers[1]),
+        expandYear(numbers[2]),
+        hint
+      );
+    }
+  }
+  if (numbers.length === 2 && fallbackYear !== undefined) {
+    return dayMonthOrder(
+      Number(numbers[0]),
+      Number(numbers[1]),
+      fallbackYear,
+      hint
+    );
+  }
+  // Compact "20250409"
+  if (numbers.length === 1 && /^\d{8}$/.test(numbers[0])) {
+    const [, year, month, day] = /^(\d{4})(\d{2})(\d{2})$/.exec(numbers[0])!;
+    return toIsoDate(Number(year), Number(month), Number(day));
+  }
+
+  return { ok: false, reason: "unrecognized date format" };
+}
+
+// ============================================================================
+// TIMES
+// ============================================================================
+
+/**
+ * Parse a printed time of day into HH:MM or HH:MM:SS (24-hour clock):
+ * "14:30", "14.30", "14h30", "2:30 PM", "2 pm", "14:30:05 Uhr"
+ */
+export function parseLocalizedTime(value: string): LocaleParse<string> {
+  const text = value
+    .trim()
+    .toLowerCase()
+    .replace(/\s*(uhr|h)$/, "");
+  const match =
+    /^(\d{1,2})(?:[:.h](\d{2})(?:[:.](\d{2}))?)?\s*(am|pm|a\.m\.|p\.m\.)?$/.exec(
+      text
+    );
+  if (!match || (!match[2] && !match[4])) {
+    return { ok: false, reason: "unrecognized time format" };
+  }
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const seconds = match[3] === undefined ? null : Number(match[3]);
+  if (match[4]) {
+    if (hours < 1 || hours > 12) {
+      return { ok: false, reason: "not a 12-hour clock time" };
+    }
+    hours = (hours % 12) + (match[4].startsWith("p") ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59 || (seconds ?? 0) > 59) {
+    return { ok: false, reason: "not a time of day" };
+  }
+
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return {
+    ok: true,
+    value: `${pad(hours)}:${pad(minutes)}${seconds === null ? "" : `:${pad(seconds)}`}`,
+  };
+}
+
+// ============================================================================
+// NUMBERS
+// ============================================================================
+
+/**
+ * Parse a printed amount: currency symbols or codes around the number are
+ * dropped, spaces and apostrophes are thousands separators, and negatives may
+ * be written "-12,50", "12,50-" or "(12.50)"
+ */
+export function parseLocalizedNumber(
+  value: string,
+  hint: LocaleHint | null
+): LocaleParse<number> {
+  const text = value
+    .trim()
+    .replace(/[−‒–]/g, "-") // Typographic minus signs
+    .replace(/\.-$/, "") // Swiss whole amounts: "1'200.-"
+    // Currency symbols and codes before or after the number
+    .replace(/^(-?)\s*[^\d(+\-.,]+/, "$1")
+    .replace(/[^\d)\-.,]+$/, "");
+
+  const match = /^([-+(])?\s*([\d.,'’\s]*\d[\d.,'’\s]*?)\s*([)-])?$/.exec(text);
+  if (!match) return { ok: false, reason: "not a number" };
+
+  const negative =
+    (match[1] === "(" && match[3] === ")") ||
+    match[1] === "-" ||
+    match[3] === "-";
+  const digits = match[2].replace(/['’\s]/g, "");
+  if (!/^\d|^[.,]\d/.test(digits)) return { ok: false, reason: "not a number" };
+
+  const lastComma = digits.lastIndexOf(",");
+  const lastDot = digits.lastIndexOf(".");
+  let decimalSeparator: "," | "." | null = null;
+  let groupSeparator: "," | "." | null = null;
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    decimalSeparator = lastComma > lastDot ? "," : ".";
+    groupSeparator = lastComma > lastDot ? "." : ",";
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    const separator = lastComma >= 0 ? "," : ".";
+    const groups = digits.split(separator);
+    const fraction = groups[groups.length - 1];
+    if (groups.length > 2) {
+      // Repeated separator can only group thousands
+      if (groups.slice(1).some(group => group.length !== 3)) {
+        return { ok: false, reason: "inconsistent digit grouping" };
+      }
+      groupSeparator = separator;
+    } else if (fraction.length !== 3 || /^0?$/.test(groups[0])) {
+      decimalSeparator = separator;
+    } else if (hint) {
+      // "1.234" is 1234 in German but 1.234 in English
+      if (hint.decimalSeparator === separator) {
+        decimalSeparator = separator;
+      } else {
+        groupSeparator = separator;
+      }
+    } else {
+      return {
+        ok: false,
+        reason: `"${separator}" may be a decimal or a thousands separator`,
+      };
+    }
+  }
+
+  let normalized = groupSeparator
+    ? digits.split(groupSeparator).join("")
+    : digits;
+  if (decimalSeparator) normalized = normalized.replace(decimalSeparator, ".");
+  if (!/^\d*\.?\d+$/.test(normalized)) {
+    return { ok: false, reason: "inconsistent digit grouping" };
+  }
+
+  const number = Number(normalized);
+  return { ok: true, value: negative ? -number : number };
+}
@@ -0,0 +1,491 @@
+import type {
+  ContractData,
+  Extracted,
+  ExtractedAmount,
+  InvoiceData,
+  LetterData,
+  ReceiptData,
+  StatementData,
+  ValidationIssue,
+  ValidationReport,
+} from "../types/domain";
+import { normalizeCurrency } from "./currency";
+import {
+  localeHint,
+  parseLanguageTag,
+  parseLocalizedDate,
+  parseLocalizedNumber,
+  parseLocalizedTime,
+  type LanguageTag,
+  type LocaleHint,
+} from "./localeFormats";
+import { buildValidationReport } from "./validationReport";
+
+// ============================================================================
+// AMOUNTS, DATES AND CURRENCIES: NORMALIZE BEFORE PERSISTENCE
+// ============================================================================
+// The `normalize` step of each document type. Printed amounts become numbers,
+// dates YYYY-MM-DD, times HH:MM and currencies ISO 4217 codes, so the NUMERIC
+// and DATE columns accept them; the document language settles ambiguous
+// separators and day/month order. Values that cannot be resolved are cleared
+// and reported as field-level warnings with the original text.
+
+interface DocumentLocale {
+  tag: LanguageTag | null;
+  hint: LocaleHint | null;
+}
+
+function documentLocale(language: string | null): DocumentLocale {
+  const tag = parseLanguageTag(language);
+  return { tag, hint: localeHint(tag) };
+}
+
+/**
+ * ISO date for `value`, or null (with a warning) when it cannot be read
+ */
+function checkDate(
+  value: string | null,
+  path: string,
+  locale: DocumentLocale,
+  issues: ValidationIssue[],
+  fallbackYear?: number
+): string | null {
+  if (!value) return null;
+  const result = parseLocalizedDate(value, locale.hint, fallbackYear);
+  if (result.ok) return result.value;
+
+  issues.push({
+    check: "date_format",
+    severity: "warning",
+    path,
+    message: `Could not read date "${value}": ${result.reason}`,
+    expected: null,
+    actual: value,
+    difference: null,
+    tolerance: null,
+  });
+  return null;
+}
+
+/**
+ * checkDate for a date the record cannot do without (statement transaction
+ * dates): an unreadable date is an error, so the document goes to review
+ */
+function requireDate(
+  value: string | null,
+  path: string,
+  locale: DocumentLocale,
+  issues: ValidationIssue[],
+  fallbackYear?: number
+): string | null {
+  const warnings: ValidationIssue[] = [];
+  const date = checkDate(value, path, locale, warnings, fallbackYear);
+  issues.push(
+    ...warnings.map(issue => ({ ...issue, severity: "error" as const }))
+  );
+  return date;
+}
+
+/**
+ * Number for an extracted amount, or null (with a warning) when its text
+ * cannot be read
+ */
+function checkAmount(
+  value: ExtractedAmount | null,
+  path: string,
+  locale: DocumentLocale,
+  issues: ValidationIssue[]
+): number | null {
+  if (value === null || typeof value === "number") return value;
+  if (value.trim() === "") return null;
+  const result = parseLocalizedNumber(value, locale.hint);
+  if (result.ok) return result.value;
+
+  issues.push({
+    check: "amount_format",
+    severity: "warning",
+    path,
+    message: `Could not read amount "${value}": ${result.reason}`,
+    expected: null,
+    actual: value,
+    difference: null,
+    tolerance: null,
+  });
+  return null;
+}
+
+/**
+ * Required amounts cannot be cleared: an unreadable one is stored as 0 and
+ * fails validation, so the document goes to needs_review
+ */
+function requireAmount(
+  value: ExtractedAmount,
+  path: string,
+  locale: DocumentLocale,
+  issues: ValidationIssue[]
+): number {
+  const warnings: ValidationIssue[] = [];
+  const amount = checkAmount(value, path, locale, warnings);
+  issues.push(
+    ...warnings.map(issue => ({ ...issue, severity: "error" as const }))
+  );
+  return amount ?? 0;
+}
+
+/**
+ * checkAmount for counts stored in INTEGER columns (e.g. renewal months): a
+ * fraction ("1.5") is cleared with a warning rather than failing the insert
+ */
+function checkInteger(
+  value: ExtractedAmount | null,
+  path: string,
+  locale: DocumentLocale,
+  issues: ValidationIssue[]
+): number | null {
+  const number = checkAmount(value, path, locale, issues);
+  if (number === null || Number.isInteger(number)) return number;
+
+  issues.push({
+    check: "integer_format",
+    severity: "warning",
+    path,
+    message: `Expected a whole number, got ${value}`,
+    expected: null,
+    actual: typeof value === "number" ? value : String(value),
+    difference: null,
+    tolerance: null,
+  });
+  return null;
+}
+
+function checkTime(
+  value: string | null,
+  path: string,
+  issues: ValidationIssue[]
+): string | null {
+  if (!value) return null;
+  const result = parseLocalizedTime(value);
+  if (result.ok) return result.value;
+
+  issues.push({
+    check: "time_format",
+    severity: "warning",
+    path,
+    message: `Could not read time "${value}": ${result.reason}`,
+    expected: null,
+    actual: value,
+    difference: null,
+    tolerance: null,
+  });
+  return null;
+}
+
+function checkCurrency(
+  value: string | null,
+  path: string,
+  locale: DocumentLocale,
+  issues: ValidationIssue[]
+): string | null {
+  if (!value) return null;
+  const result = normalizeCurrency(value, locale.tag);
+  if (result.ok) return result.value;
+
+  issues.push({
+    check: "currency_code",
+    severity: "warning",
+    path,
+    message: `Unknown currency "${value}": ${result.reason}`,
+    expected: null,
+    actual: value,
+    difference: null,
+    tolerance: null,
+  });
+  return null;
+}
+
+export function normalizeInvoiceLocale(invoice: Extracted<InvoiceData>): {
+  data: InvoiceData;
+  report: ValidationReport;
+} {
+  const raw = structuredClone(invoice);
+  const info = raw.document_info;
+  const locale = documentLocale(info.language);
+  const issues: ValidationIssue[] = [];
+  const amount = (value: ExtractedAmount | null, path: string) =>
+    checkAmount(value, path, locale, issues);
+
+  const data: InvoiceData = {
+    ...raw,
+    document_info: {
+      ...info,
+      invoice_date: checkDate(
+        info.invoice_date,
+        "document_info.invoice_date",
+        locale,
+        issues
+      ),
+      due_date: checkDate(
+        info.due_date,
+        "document_info.due_date",
+        locale,
+        issues
+      ),
+      currency: checkCurrency(
+        info.currency,
+        "document_info.currency",
+        locale,
+        issues
+      ),
+    },
+    amounts: {
+      subtotal: amount(raw.amounts.subtotal, "amounts.subtotal"),
+      total_vat: amount(raw.amounts.total_vat, "amounts.total_vat"),
+      total_amount: requireAmount(
+        raw.amounts.total_amount,
+        "amounts.total_amount",
+        locale,
+        issues
+      ),
+      vat_rate: amount(raw.amounts.vat_rate, "amounts.vat_rate"),
+    },
+    line_items: raw.line_items.map((item, index) => {
+      const path = `line_items.${index}`;
+      return {
+        ...item,
+        quantity: amount(item.quantity, `${path}.quantity`),
+        unit_price: amount(item.unit_price, `${path}.unit_price`),
+        vat_rate: amount(item.vat_rate, `${path}.vat_rate`),
+        vat_amount: amount(item.vat_amount, `${path}.vat_amount`),
+        line_total: amount(item.line_total, `${path}.line_total`),
+      };
+    }),
+  };
+
+  return { data, report: buildValidationReport(issues, []) };
+}
+
+export function normalizeStatementLocale(statement: Extracted<StatementData>): {
+  data: StatementData;
+  report: ValidationReport;
+} {
+  const raw = structuredClone(statement);
+  const info = raw.document_info;
+  const locale = documentLocale(info.language);
+  const issues: ValidationIssue[] = [];
+
+  const period_start = checkDate(
+    info.period_start,
+    "document_info.period_start",
+    locale,
+    issues
+  );
+  const period_end = checkDate(
+    info.period_end,
+    "document_info.period_end",
+    locale,
+    issues
+  );
+
+  // Transaction dates are often printed without a year ("09.04.")
+  const periodYear = (period_end ?? period_start)?.slice(0, 4);
+  const data: StatementData = {
+    document_info: { ...info, period_start, period_end },
+    accounts: raw.accounts.map((account, accountIndex) => {
+      const path = `accounts.${accountIndex}`;
+      return {
+        ...account,
+        currency: checkCurrency(
+          account.currency,
+          `${path}.currency`,
+          locale,
+          issues
+        ),
+        opening_balance: checkAmount(
+          account.opening_balance,
+          `${path}.opening_balance`,
+          locale,
+          issues
+        ),
+        closing_balance: checkAmount(
+          account.closing_balance,
+          `${path}.closing_balance`,
+          locale,
+          issues
+        ),
+        transactions: account.transactions.map((transaction, index) => {
+          const transactionPath = `${path}.transactions.${index}`;
+          return {
+            ...transaction,
+            date: requireDate(
+              transaction.date,
+              `${transactionPath}.date`,
+              locale,
+              issues,
+              periodYear ? Number(periodYear) : undefined
+            ),
+            amount: requireAmount(
+              transaction.amount,
+              `${transactionPath}.amount`,
+              locale,
+              issues
+            ),
+            balance: checkAmount(
+              transaction.balance,
+              `${transactionPath}.balance`,
+              locale,
+              issues
+            ),
+          };
+        }),
+      };
+    }),
+  };
+
+  return { data, report: buildValidationReport(issues, []) };
+}
+
+export function normalizeLetterLocale(letter: Extracted<LetterData>): {
+  data: LetterData;
+  report: ValidationReport;
+} {
+  const raw = structuredClone(letter);
+  const locale = documentLocale(raw.document_info.language);
+  const issues: ValidationIssue[] = [];
+  const details = raw.letter_details;
+
+  const data: LetterData = {
+    ...raw,
+    document_info: {
+      ...raw.document_info,
+      date: checkDate(
+        raw.document_info.date,
+        "document_info.date",
+        locale,
+        issues
+      ),
+    },
+    letter_details: {
+      ...details,
+      due_date: checkDate(
+        details.due_date,
+        "letter_details.due_date",
+        locale,
+        issues
+      ),
+      amount_due: checkAmount(
+        details.amount_due,
+        "letter_details.amount_due",
+        locale,
+        issues
+      ),
+      currency: checkCurrency(
+        details.currency,
+        "letter_details.currency",
+        locale,
+        issues
+      ),
+    },
+  };
+
+  return { data, report: buildValidationReport(issues, []) };
+}
+
+export function normalizeReceiptLocale(receipt: Extracted<ReceiptData>): {
+  data: ReceiptData;
+  report: ValidationReport;
+} {
+  const raw = structuredClone(receipt);
+  const info = raw.document_info;
+  const locale = documentLocale(info.language);
+  const issues: ValidationIssue[] = [];
+  const amount = (value: ExtractedAmount | null, path: string) =>
+    checkAmount(value, path, locale, issues);
+
+  const data: ReceiptData = {
+    ...raw,
+    document_info: {
+      ...info,
+      date: checkDate(info.date, "document_info.date", locale, issues),
+      time: checkTime(info.time, "document_info.time", issues),
+      currency: checkCurrency(
+        info.currency,
+        "document_info.currency",
+        locale,
+        issues
+      ),
+    },
+    tax_lines: raw.tax_lines.map((line, index) => {
+      const path = `tax_lines.${index}`;
+      return {
+        vat_rate: requireAmount(
+          line.vat_rate,
+          `${path}.vat_rate`,
+          locale,
+          issues
+        ),
+        net_amount: amount(line.net_amount, `${path}.net_amount`),
+        vat_amount: amount(line.vat_amount, `${path}.vat_amount`),
+        gross_amount: amount(line.gross_amount, `${path}.gross_amount`),
+      };
+    }),
+    amounts: {
+      subtotal: amount(raw.amounts.subtotal, "amounts.subtotal"),
+      total_vat: amount(raw.amounts.total_vat, "amounts.total_vat"),
+      tip: amount(raw.amounts.tip, "amounts.tip"),
+      total_amount: requireAmount(
+        raw.amounts.total_amount,
+        "amounts.total_amount",
+        locale,
+        issues
+      ),
+    },
+  };
+
+  return { data, report: buildValidationReport(issues, []) };
+}
+
+export function normalizeContractLocale(contract: Extracted<ContractData>): {
+  data: ContractData;
+  report: ValidationReport;
+} {
+  const raw = structuredClone(contract);
+  const locale = documentLocale(raw.document_info.language);
+  const issues: ValidationIssue[] = [];
+  const { term, fee } = raw;
+
+  const data: ContractData = {
+    ...raw,
+    document_info: {
+      ...raw.document_info,
+      signing_date: checkDate(
+        raw.document_info.signing_date,
+        "document_info.signing_date",
+        locale,
+        issues
+      ),
+    },
+    term: {
+      ...term,
+      start_date: checkDate(term.start_date, "term.start_date", locale, issues),
+      end_date: checkDate(term.end_date, "term.end_date", locale, issues),
+      renewal_period_months: checkInteger(
+        term.renewal_period_months,
+        "term.renewal_period_months",
+        locale,
+        issues
+      ),
+      // Schema-checked integer, never text
+      notice_period: term.notice_period && {
+        ...term.notice_period,
+        value: Number(term.notice_period.value),
+      },
+    },
+    fee: {
+      ...fee,
+      amount: checkAmount(fee.amount, "fee.amount", locale, issues),
+      currency: checkCurrency(fee.currency, "fee.currency", locale, issues),
+    },
+  };
+
+  return { data, report: buildValidationReport(issues, []) };
+}
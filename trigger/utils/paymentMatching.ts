@@ -0,0 +1,479 @@
+import { createHash } from "node:crypto";
+import type { DbClient } from "./db";
+import type {
+  InvoicePaymentStatus,
+  PaymentMatchProposal,
+  StatementData,
+} from "../types/domain";
+import {
+  companyNameTokens,
+  nameSimilarity,
+  normalizeInvoiceNumber,
+} from "./invoiceDuplicates";
+import { round2 } from "./validationReport";
+
+// ============================================================================
+// PAYMENT MATCHING: STATEMENT TRANSACTIONS <-> INVOICES
+// ============================================================================
+// Every booked transaction that is not yet matched is scored against every
+// open invoice in the same currency. A pair needs the open amount or the
+// invoice number in the booking text; vendor name and booking date raise the
+// confidence. Transactions paying less than the open amount are partial
+// payments; the invoice stays open for the rest. The booking direction is not
+// checked, since invoices may be received or issued.
+//
+// Matches pin their transaction by a content fingerprint: statement rows are
+// rewritten whenever the statement is stored again, and their positions may
+// shift when a re-extraction finds one more or one less row.
+
+// Proposals below this confidence are not stored
+export const MIN_MATCH_CONFIDENCE = 0.5;
+
+const WEIGHTS = {
+  amount: 0.35,
+  invoiceNumber: 0.3,
+  vendor: 0.2,
+  bookingDate: 0.15,
+};
+
+// Amounts within a cent are considered equal
+const AMOUNT_TOLERANCE = 0.01;
+
+// Payments are booked from shortly before the invoice date (prepayment,
+// direct debit announced early) until well after the due date (reminders)
+const DAYS_BEFORE_INVOICE = 7;
+const DEFAULT_PAYMENT_TERM_DAYS = 30;
+const DAYS_AFTER_DUE = 60;
+
+// Invoice numbers shorter than this match too many booking texts by chance
+const MIN_INVOICE_NUMBER_LENGTH = 4;
+
+// Counterparty names below this token overlap do not count as the vendor
+const MIN_NAME_SIMILARITY = 0.6;
+
+// Registry statuses whose records take part in matching
+const MATCHABLE_STATUSES = ["processed", "needs_review"];
+
+export interface OpenInvoice {
+  doc_id: string;
+  invoice_number: string | null;
+  invoice_date: string | null; // YYYY-MM-DD
+  due_date: string | null;
+  currency: string | null;
+  vendor_name: string | null;
+  open_amount: number; // Total minus confirmed and proposed payments
+}
+
+export interface UnmatchedTransaction {
+  doc_id: string;
+  section_index: number;
+  ordinal: number;
+  fingerprint: string;
+  booking_date: string | null; // YYYY-MM-DD
+  description: string;
+  counterparty: string | null;
+  amount: number;
+  currency: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(isoDate: string, days: number): number {
+  return Date.parse(`${isoDate}T00:00:00Z`) + days * DAY_MS;
+}
+
+function transactionKey(transaction: {
+  doc_id: string;
+  section_index: number;
+  ordinal: number;
+}): string {
+  return `${transaction.doc_id}|${transaction.section_index}|${transaction.ordinal}`;
+}
+
+function pairKey(
+  invoiceDocId: string,
+  transaction: { doc_id: string; section_index: number; ordinal: number }
+): string {
+  return `${invoiceDocId}|${transactionKey(transaction)}`;
+}
+
+/**
+ * Score a transaction as payment of an invoice with `openAmount` left to pay.
+ * Returns null when the pair is excluded (other currency, outside the date
+ * window, overpayment) or has neither amount nor invoice number in common.
+ */
+export function scorePaymentCandidate(
+  invoice: OpenInvoice,
+  openAmount: number,
+  transaction: UnmatchedTransaction
+): { confidence: number; amount: number; signals: string[] } | null {
+  const signals: string[] = [];
+  let confidence = 0;
+
+  if (invoice.currency && transaction.currency) {
+    if (invoice.currency !== transaction.currency) return null;
+    signals.push("currency");
+  }
+
+  if (invoice.invoice_date && transaction.booking_date) {
+    const booked = Date.parse(`${transaction.booking_date}T00:00:00Z`);
+    const from = addDays(invoice.invoice_date, -DAYS_BEFORE_INVOICE);
+    const until = invoice.due_date
+      ? addDays(invoice.due_date, DAYS_AFTER_DUE)
+      : addDays(
+          invoice.invoice_date,
+          DEFAULT_PAYMENT_TERM_DAYS + DAYS_AFTER_DUE
+        );
+    if (booked < from || booked > until) return null;
+    confidence += WEIGHTS.bookingDate;
+    signals.push("booking_date");
+  }
+
+  const paid = round2(Math.abs(transaction.amount));
+  if (paid > openAmount + AMOUNT_TOLERANCE) return null;
+  const fullPayment = paid >= openAmount - AMOUNT_TOLERANCE;
+  if (fullPayment) {
+    confidence += WEIGHTS.amount;
+    signals.push("amount");
+  } else {
+    confidence += WEIGHTS.amount / 2;
+    signals.push("partial_amount");
+  }
+
+  const number = normalizeInvoiceNumber(invoice.invoice_number);
+  const mentionsNumber =
+    number !== null &&
+    number.length >= MIN_INVOICE_NUMBER_LENGTH &&
+    (normalizeInvoiceNumber(transaction.description) ?? "").includes(number);
+  if (mentionsNumber) {
+    confidence += WEIGHTS.invoiceNumber;
+    signals.push("invoice_number");
+  }
+
+  // A partial amount alone is no evidence; something must tie the pair
+  if (!fullPayment && !mentionsNumber) return null;
+
+  const similarity = nameSimilarity(
+    invoice.vendor_name,
+    transaction.counterparty
+  );
+  if (similarity >= MIN_NAME_SIMILARITY) {
+    confidence += WEIGHTS.vendor * similarity;
+    signals.push("vendor_name");
+  } else if (invoice.vendor_name) {
+    // Booking texts often carry the vendor without a separate counterparty
+    const vendorTokens = companyNameTokens(invoice.vendor_name);
+    const descriptionTokens = companyNameTokens(transaction.description);
+    if (
+      vendorTokens.size > 0 &&
+      [...vendorTokens].every(token => descriptionTokens.has(token))
+    ) {
+      confidence += WEIGHTS.vendor;
+      signals.push("vendor_name");
+    }
+  }
+
+  return {
+    confidence: round2(confidence),
+    amount: fullPayment ? round2(openAmount) : paid,
+    signals,
+  };
+}
+
+/**
+ * Assign each transaction to at most one invoice, best-scoring pairs first.
+ * Open amounts shrink as payments are assigned, so an invoice can collect
+ * several partial payments but is never paid twice.
+ */
+export function proposeMatches(
+  invoices: OpenInvoice[],
+  transactions: UnmatchedTransaction[],
+  rejectedPairs: Set<string>
+): PaymentMatchProposal[] {
+  const candidates: Array<{
+    invoice: OpenInvoice;
+    transaction: UnmatchedTransaction;
+    confidence: number;
+  }> = [];
+  for (const invoice of invoices) {
+    for (const transaction of transactions) {
+      if (rejectedPairs.has(pairKey(invoice.doc_id, transaction))) continue;
+      const score = scorePaymentCandidate(
+        invoice,
+        invoice.open_amount,
+        transaction
+      );
+      if (score && score.confidence >= MIN_MATCH_CONFIDENCE) {
+        candidates.push({ invoice, transaction, confidence: score.confidence });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.confidence - a.confidence);
+
+  const openAmounts = new Map(
+    invoices.map(invoice => [invoice.doc_id, invoice.open_amount])
+  );
+  const assigned = new Set<string>();
+  const proposals: PaymentMatchProposal[] = [];
+
+  for (const { invoice, transaction } of candidates) {
+    const key = transactionKey(transaction);
+    const openAmount = openAmounts.get(invoice.doc_id) ?? 0;
+    if (assigned.has(key) || openAmount <= AMOUNT_TOLERANCE) continue;
+
+    // Re-score against what is still open after earlier assignments
+    const score = scorePaymentCandidate(invoice, openAmount, transaction);
+    if (!score || score.confidence < MIN_MATCH_CONFIDENCE) continue;
+
+    assigned.add(key);
+    openAmounts.set(invoice.doc_id, round2(openAmount - score.amount));
+    proposals.push({
+      invoiceDocId: invoice.doc_id,
+      statementDocId: transaction.doc_id,
+      sectionIndex: transaction.section_index,
+      ordinal: transaction.ordinal,
+      transactionFingerprint: transaction.fingerprint,
+      amount: score.amount,
+      confidence: score.confidence,
+      signals: score.signals,
+    });
+  }
+
+  return proposals;
+}
+
+/**
+ * Invoices with an amount left to pay, optionally only `invoiceDocId`
+ */
+export async function loadOpenInvoices(
+  sql: DbClient,
+  invoiceDocId?: string
+): Promise<OpenInvoice[]> {
+  return sql<OpenInvoice[]>`
+    SELECT *
+    FROM (
+      SELECT
+        i.doc_id,
+        i.invoice_number,
+        i.invoice_date::text AS invoice_date,
+        i.due_date::text AS due_date,
+        i.currency,
+        i.vendor_name,
+        (
+          i.total_amount - COALESCE((
+            SELECT sum(m.amount)
+            FROM payment_matches m
+            WHERE m.invoice_doc_id = i.doc_id
+              AND m.status <> 'rejected'
+          ), 0)
+        )::float8 AS open_amount
+      FROM invoices i
+      JOIN income_registry r ON r.doc_id = i.doc_id
+      WHERE i.total_amount IS NOT NULL
+        AND r.status IN ${sql(MATCHABLE_STATUSES)}
+        AND (${invoiceDocId ?? null}::text IS NULL OR i.doc_id = ${invoiceDocId ?? null})
+    ) open_invoices
+    WHERE open_amount > ${AMOUNT_TOLERANCE}
+    ORDER BY invoice_date
+  `;
+}
+
+/**
+ * Transactions not yet assigned to an invoice, optionally only those of
+ * `statementDocId`
+ */
+export async function loadUnmatchedTransactions(
+  sql: DbClient,
+  statementDocId?: string
+): Promise<UnmatchedTransaction[]> {
+  return sql<UnmatchedTransaction[]>`
+    SELECT
+      t.doc_id,
+      t.section_index,
+      t.ordinal,
+      t.fingerprint,
+      t.booking_date::text AS booking_date,
+      t.description,
+      t.counterparty,
+      t.amount::float8 AS amount,
+      t.currency
+    FROM statement_transactions t
+    JOIN income_registry r ON r.doc_id = t.doc_id
+    WHERE t.amount <> 0
+      AND r.status IN ${sql(MATCHABLE_STATUSES)}
+      AND (${statementDocId ?? null}::text IS NULL OR t.doc_id = ${statementDocId ?? null})
+      AND NOT EXISTS (
+        SELECT 1
+        FROM payment_matches m
+        WHERE m.statement_doc_id = t.doc_id
+          AND m.section_index = t.section_index
+          AND m.transaction_ordinal = t.ordinal
+          AND m.status <> 'rejected'
+      )
+    ORDER BY t.booking_date, t.doc_id, t.section_index, t.ordinal
+  `;
+}
+
+/**
+ * Pairs a reviewer rejected; they are never proposed again
+ */
+export async function loadRejectedPairs(sql: DbClient): Promise<Set<string>> {
+  const rows = await sql<
+    {
+      invoice_doc_id: string;
+      statement_doc_id: string;
+      section_index: number;
+      transaction_ordinal: number;
+    }[]
+  >`
+    SELECT invoice_doc_id, statement_doc_id, section_index, transaction_ordinal
+    FROM payment_matches
+    WHERE status = 'rejected'
+  `;
+  return new Set(
+    rows.map(row =>
+      pairKey(row.invoice_doc_id, {
+        doc_id: row.statement_doc_id,
+        section_index: row.section_index,
+        ordinal: row.transaction_ordinal,
+      })
+    )
+  );
+}
+
+/**
+ * Drop undecided proposals involving `docId` before it is matched again:
+ * its transactions or amounts may have changed since they were proposed
+ */
+export async function clearProposedMatches(
+  sql: DbClient,
+  docId: string
+): Promise<string[]> {
+  const rows = await sql<{ invoice_doc_id: string }[]>`
+    DELETE FROM payment_matches
+    WHERE status = 'proposed'
+      AND (invoice_doc_id = ${docId} OR statement_doc_id = ${docId})
+    RETURNING invoice_doc_id
+  `;
+  return [...new Set(rows.map(row => row.invoice_doc_id))];
+}
+
+/**
+ * Fingerprint of every transaction of a statement, per account section: the
+ * account, date, amount and booking text, numbered among identical rows so
+ * each is unique within the document
+ */
+export function statementTransactionFingerprints(
+  stmt: StatementData
+): string[][] {
+  const seen = new Map<string, number>();
+  return stmt.accounts.map(account =>
+    account.transactions.map(transaction => {
+      const hash = createHash("sha256")
+        .update(
+          JSON.stringify([
+            account.iban ?? account.account_number,
+            account.currency,
+            transaction.date,
+            transaction.amount,
+            transaction.description,
+          ])
+        )
+        .digest("hex")
+        .slice(0, 32);
+      const occurrence = seen.get(hash) ?? 0;
+      seen.set(hash, occurrence + 1);
+      return `${hash}:${occurrence}`;
+    })
+  );
+}
+
+/**
+ * After a statement's transactions were rewritten, move its matches to the
+ * current position of their transaction and delete those whose transaction
+ * is gone (confirmed ones included: they no longer point at a booking).
+ * Returns the invoices whose matches were deleted.
+ */
+export async function repinPaymentMatches(
+  sql: DbClient,
+  statementDocId: string
+): Promise<string[]> {
+  await sql`
+    UPDATE payment_matches m
+    SET section_index = t.section_index,
+        transaction_ordinal = t.ordinal
+    FROM statement_transactions t
+    WHERE m.statement_doc_id = ${statementDocId}
+      AND t.doc_id = m.statement_doc_id
+      AND t.fingerprint = m.transaction_fingerprint
+      AND (t.section_index, t.ordinal) <> (m.section_index, m.transaction_ordinal)
+  `;
+  const rows = await sql<{ invoice_doc_id: string }[]>`
+    DELETE FROM payment_matches m
+    WHERE m.statement_doc_id = ${statementDocId}
+      AND NOT EXISTS (
+        SELECT 1
+        FROM statement_transactions t
+        WHERE t.doc_id = m.statement_doc_id
+          AND t.fingerprint = m.transaction_fingerprint
+      )
+    RETURNING invoice_doc_id
+  `;
+  return [...new Set(rows.map(row => row.invoice_doc_id))];
+}
+
+export async function savePaymentMatches(
+  sql: DbClient,
+  proposals: PaymentMatchProposal[]
+): Promise<void> {
+  if (proposals.length === 0) return;
+  await sql`
+    INSERT INTO payment_matches ${sql(
+      proposals.map(proposal => ({
+        invoice_doc_id: proposal.invoiceDocId,
+        statement_doc_id: proposal.statementDocId,
+        section_index: proposal.sectionIndex,
+        transaction_ordinal: proposal.ordinal,
+        transaction_fingerprint: proposal.transactionFingerprint,
+        amount: proposal.amount,
+        confidence: proposal.confidence,
+        signals: proposal.signals,
+      }))
+    )}
+    ON CONFLICT (invoice_doc_id, statement_doc_id, transaction_fingerprint)
+    DO NOTHING
+  `;
+}
+
+/**
+ * Recompute amount_paid and payment_status of the given invoices from their
+ * non-rejected matches (proposed ones included, so a proposal shows as
+ * matched until a reviewer rejects it)
+ */
+export async function refreshInvoicePaymentStatus(
+  sql: DbClient,
+  invoiceDocIds: string[]
+): Promise<Array<{ doc_id: string; payment_status: InvoicePaymentStatus }>> {
+  if (invoiceDocIds.length === 0) return [];
+  return sql<Array<{ doc_id: string; payment_status: InvoicePaymentStatus }>>`
+    UPDATE invoices i
+    SET amount_paid = paid.amount,
+        payment_status = CASE
+          WHEN paid.amount = 0 THEN 'unpaid'
+          WHEN i.total_amount IS NOT NULL
+            AND paid.amount >= i.total_amount - ${AMOUNT_TOLERANCE} THEN 'matched'
+          ELSE 'partially_paid'
+        END
+    FROM (
+      SELECT
+        i2.doc_id,
+        COALESCE(sum(m.amount) FILTER (WHERE m.status <> 'rejected'), 0) AS amount
+      FROM invoices i2
+      LEFT JOIN payment_matches m ON m.invoice_doc_id = i2.doc_id
+      WHERE i2.doc_id IN ${sql(invoiceDocIds)}
+      GROUP BY i2.doc_id
+    ) paid
+    WHERE i.doc_id = paid.doc_id
+    RETURNING i.doc_id, i.payment_status
+  `;
+}
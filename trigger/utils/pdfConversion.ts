@@ -0,0 +1,69 @@
+import { PDFDocument, PageSizes } from "pdf-lib";
+import sharp from "sharp";
+import heicConvert from "heic-convert";
+import { IMAGE_MIME_TYPES } from "./sourceFormats";
+
+// ============================================================================
+// PDF NORMALIZATION
+// ============================================================================
+// Formats are listed in sourceFormats.ts
+
+// Long side of page images; keeps phone photos readable without bloating PDFs
+const MAX_IMAGE_EDGE_PX = 2400;
+const JPEG_QUALITY = 85;
+
+/**
+ * Convert a JPEG/PNG/HEIC/TIFF scan into a PDF with one A4 page per image
+ * (multi-page TIFFs produce several pages). EXIF orientation is applied so
+ * phone photos are upright.
+ */
+export async function convertImageToPdf(
+  buffer: Buffer,
+  mimeType: string
+): Promise<Buffer> {
+  if (!(mimeType in IMAGE_MIME_TYPES)) {
+    throw new Error(`Unsupported image MIME type: ${mimeType}`);
+  }
+
+  // libvips prebuilt binaries cannot decode HEVC-based HEIC, decode in JS
+  const source =
+    mimeType === "image/heic" || mimeType === "image/heif"
+      ? Buffer.from(await heicConvert({ buffer, format: "JPEG", quality: 0.9 }))
+      : buffer;
+
+  const { pages = 1 } = await sharp(source).metadata();
+  const pdf = await PDFDocument.create();
+
+  for (let page = 0; page < pages; page++) {
+    const jpeg = await sharp(source, { page })
+      .rotate()
+      .resize({
+        width: MAX_IMAGE_EDGE_PX,
+        height: MAX_IMAGE_EDGE_PX,
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: JPEG_QUALITY })
+      .toBuffer();
+
+    const image = await pdf.embedJpg(jpeg);
+
+    // A4, rotated to landscape for wide images
+    const [a4Width, a4Height] = PageSizes.A4;
+    const [pageWidth, pageHeight] =
+      image.width > image.height ? [a4Height, a4Width] : [a4Width, a4Height];
+    const scale = Math.min(pageWidth / image.width, pageHeight / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+
+    pdf.addPage([pageWidth, pageHeight]).drawImage(image, {
+      x: (pageWidth - width) / 2,
+      y: (pageHeight - height) / 2,
+      width,
+      height,
+    });
+  }
+
+  return Buffer.from(await pdf.save());
+}
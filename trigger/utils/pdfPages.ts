@@ -0,0 +1,54 @@
+import { PDFDocument } from "pdf-lib";
+
+/**
+ * Number of pages in a PDF
+ */
+export async function countPdfPages(buffer: Buffer): Promise<number> {
+  const pdf = await PDFDocument.load(buffer, { ignoreEncryption: true });
+  return pdf.getPageCount();
+}
+
+/**
+ * Copy a 1-based, inclusive page range of a PDF into a new PDF
+ */
+export async function extractPdfPages(
+  buffer: Buffer,
+  startPage: number,
+  endPage: number
+): Promise<Buffer> {
+  const source = await PDFDocument.load(buffer, { ignoreEncryption: true });
+  const pageCount = source.getPageCount();
+
+  if (startPage < 1 || endPage > pageCount || startPage > endPage) {
+    throw new Error(
+      `Invalid page range ${startPage}-${endPage} for a ${pageCount}-page PDF`
+    );
+  }
+
+  const target = await PDFDocument.create();
+  const indices = Array.from(
+    { length: endPage - startPage + 1 },
+    (_, offset) => startPage - 1 + offset
+  );
+  const pages = await target.copyPages(source, indices);
+  pages.forEach(page => target.addPage(page));
+
+  return Buffer.from(await target.save());
+}
+
+/**
+ * "scan.pdf" -> "scan (pages 3-4).pdf"
+ */
+export function pageRangeFileName(
+  fileName: string,
+  pageStart: number,
+  pageEnd: number
+): string {
+  const dot = fileName.lastIndexOf(".");
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const pages =
+    pageStart === pageEnd
+      ? `page ${pageStart}`
+      : `pages ${pageStart}-${pageEnd}`;
+  return `${base} (${pages}).pdf`;
+}
@@ -0,0 +1,121 @@
+// ============================================================================
+// SOURCE FORMATS
+// ============================================================================
+// Formats the workflow normalizes to PDF. No imports, so the upload endpoint
+// and the CLI can share the lists without loading the converters.
+
+export const PDF_MIME_TYPE = "application/pdf";
+
+/**
+ * Scans and photos converted to PDF locally. Value is the file extension used
+ * for the original copy kept in storage.
+ */
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/heic": "heic",
+  "image/heif": "heif",
+  "image/tiff": "tiff",
+};
+
+/**
+ * Native Google Workspace files, exported to PDF by the Drive export endpoint
+ */
+const GOOGLE_WORKSPACE_MIME_TYPES = new Set([
+  "application/vnd.google-apps.document",
+  "application/vnd.google-apps.spreadsheet",
+  "application/vnd.google-apps.presentation",
+]);
+
+/**
+ * Uploaded office files, converted by copying them into the matching Google
+ * Workspace type and exporting that copy. Value is [extension, Google type].
+ */
+const OFFICE_MIME_TYPES: Record<string, [string, string]> = {
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [
+    "docx",
+    "application/vnd.google-apps.document",
+  ],
+  "application/msword": ["doc", "application/vnd.google-apps.document"],
+  "application/vnd.oasis.opendocument.text": [
+    "odt",
+    "application/vnd.google-apps.document",
+  ],
+  "application/rtf": ["rtf", "application/vnd.google-apps.document"],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [
+    "xlsx",
+    "application/vnd.google-apps.spreadsheet",
+  ],
+  "application/vnd.ms-excel": [
+    "xls",
+    "application/vnd.google-apps.spreadsheet",
+  ],
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": [
+    "pptx",
+    "application/vnd.google-apps.presentation",
+  ],
+};
+
+export type SourceKind = "pdf" | "image" | "google_workspace" | "office";
+
+/**
+ * How a file with this MIME type is turned into a PDF, or null when the
+ * format is not supported
+ */
+export function getSourceKind(mimeType: string): SourceKind | null {
+  if (mimeType === PDF_MIME_TYPE) return "pdf";
+  if (mimeType in IMAGE_MIME_TYPES) return "image";
+  if (GOOGLE_WORKSPACE_MIME_TYPES.has(mimeType)) return "google_workspace";
+  if (mimeType in OFFICE_MIME_TYPES) return "office";
+  return null;
+}
+
+/**
+ * Formats normalized without Google Drive: staged uploads and email
+ * attachments, and local files. Value is the file extension.
+ */
+export const LOCAL_MIME_TYPES: Record<string, string> = {
+  [PDF_MIME_TYPE]: "pdf",
+  ...IMAGE_MIME_TYPES,
+};
+
+// Other spellings of those extensions
+const EXTENSION_ALIASES: Record<string, string> = { jpeg: "jpg", tif: "tiff" };
+
+/**
+ * MIME type of a local file by its extension, or null when the file cannot
+ * be normalized without Google Drive
+ */
+export function getLocalMimeType(fileName: string): string | null {
+  const dot = fileName.lastIndexOf(".");
+  if (dot < 0) return null;
+  const extension = fileName.slice(dot + 1).toLowerCase();
+  const canonical = EXTENSION_ALIASES[extension] ?? extension;
+  const entry = Object.entries(LOCAL_MIME_TYPES).find(
+    ([, value]) => value === canonical
+  );
+  return entry?.[0] ?? null;
+}
+
+/**
+ * File extension for keeping the original next to the normalized PDF
+ */
+export function getOriginalExtension(mimeType: string): string | null {
+  return IMAGE_MIME_TYPES[mimeType] ?? OFFICE_MIME_TYPES[mimeType]?.[0] ?? null;
+}
+
+/**
+ * Google Workspace type an office file is imported as before export
+ */
+export function getGoogleImportMimeType(mimeType: string): string | null {
+  return OFFICE_MIME_TYPES[mimeType]?.[1] ?? null;
+}
+
+/**
+ * Replace the extension of a file name with ".pdf"
+ */
+export function toPdfFileName(fileName: string): string {
+  const dot = fileName.lastIndexOf(".");
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  return `${base}.pdf`;
+}
@@ -0,0 +1,151 @@
+import type {
+  Extracted,
+  ExtractedAmount,
+  StatementData,
+} from "../types/domain";
+import { round2 } from "./validationReport";
+
+// ============================================================================
+// MERGE STATEMENT PAGE RANGES
+// ============================================================================
+// Long statements are extracted a few pages at a time. Account sections are
+// matched across ranges by IBAN, account number or heading; a section without
+// any of them at the top of a range continues the last section. Header fields
+// come from the first range that has them, the opening balance from the
+// earliest and the closing balance from the latest range. Transactions are
+// joined in page order; rows repeated at the top of the next range (carried
+// over or read twice at a page break) are dropped.
+
+// Rows compared at each boundary; a page break never repeats more than this
+const MAX_BOUNDARY_OVERLAP = 5;
+
+// Chunks are merged before the locale step, so amounts may still be text
+type ExtractedStatement = Extracted<StatementData>;
+type ExtractedAccount = ExtractedStatement["accounts"][number];
+type Transaction = ExtractedAccount["transactions"][number];
+
+function firstValue<T>(values: T[]): T | null {
+  return values.find(value => value !== null && value !== undefined) ?? null;
+}
+
+function amountKey(amount: ExtractedAmount | null): string {
+  if (amount === null) return "";
+  return typeof amount === "number" ? String(round2(amount)) : amount.trim();
+}
+
+function transactionKey(transaction: Transaction): string {
+  return [
+    (transaction.date ?? "").trim(),
+    amountKey(transaction.amount),
+    transaction.description.trim().toLowerCase().replace(/\s+/g, " "),
+    amountKey(transaction.balance),
+  ].join("|");
+}
+
+/**
+ * Number of leading rows of `next` that repeat the last rows of `previous`
+ */
+function boundaryOverlap(previous: Transaction[], next: Transaction[]): number {
+  const previousKeys = previous.map(transactionKey);
+  const nextKeys = next.map(transactionKey);
+  const limit = Math.min(
+    MAX_BOUNDARY_OVERLAP,
+    previousKeys.length,
+    nextKeys.length
+  );
+
+  for (let count = limit; count > 0; count--) {
+    const tail = previousKeys.slice(previousKeys.length - count);
+    if (tail.every((key, index) => key === nextKeys[index])) {
+      return count;
+    }
+  }
+  return 0;
+}
+
+interface SectionIdentifiers {
+  iban: string | null;
+  number: string | null;
+  name: string | null;
+}
+
+function sectionIdentifiers(account: ExtractedAccount): SectionIdentifiers {
+  return {
+    iban: account.iban?.replace(/\s/g, "").toUpperCase() || null,
+    number: account.account_number?.replace(/\s/g, "") || null,
+    name: account.account_name
+      ? `${account.account_name.trim().toLowerCase()}|${account.currency ?? ""}`
+      : null,
+  };
+}
+
+/**
+ * Whether two sections are the same account. The strongest identifier both
+ * sections carry decides, so a continuation that only repeats the account
+ * number still joins a section whose first range also showed the IBAN.
+ */
+function sameSection(a: SectionIdentifiers, b: SectionIdentifiers): boolean {
+  if (a.iban && b.iban) return a.iban === b.iban;
+  if (a.number && b.number) return a.number === b.number;
+  if (a.name && b.name) return a.name === b.name;
+  return false;
+}
+
+/**
+ * Fold the next range's part of a section into the merged section
+ */
+function appendSection(merged: ExtractedAccount, next: ExtractedAccount): void {
+  merged.account_name ??= next.account_name;
+  merged.holder_name ??= next.holder_name;
+  merged.account_number ??= next.account_number;
+  merged.iban ??= next.iban;
+  merged.currency ??= next.currency;
+  merged.opening_balance ??= next.opening_balance;
+  merged.closing_balance = next.closing_balance ?? merged.closing_balance;
+
+  const overlap = boundaryOverlap(merged.transactions, next.transactions);
+  merged.transactions.push(...next.transactions.slice(overlap));
+}
+
+export function mergeStatementChunks(
+  chunks: ExtractedStatement[]
+): ExtractedStatement {
+  if (chunks.length === 0) {
+    throw new Error("No statement chunks to merge");
+  }
+
+  const infos = chunks.map(chunk => chunk.document_info);
+
+  const accounts: ExtractedAccount[] = [];
+  for (const chunk of chunks) {
+    chunk.accounts.forEach((section, index) => {
+      const identifiers = sectionIdentifiers(section);
+      const existing =
+        identifiers.iban || identifiers.number || identifiers.name
+          ? accounts.find(account =>
+              sameSection(sectionIdentifiers(account), identifiers)
+            )
+          : index === 0
+            ? accounts[accounts.length - 1]
+            : undefined;
+
+      if (existing) {
+        appendSection(existing, section);
+      } else {
+        accounts.push(structuredClone(section));
+      }
+    });
+  }
+
+  return {
+    document_info: {
+      statement_type: "bank_statement",
+      bank_name: firstValue(infos.map(info => info.bank_name)),
+      document_title: firstValue(infos.map(info => info.document_title)),
+      period_start: firstValue(infos.map(info => info.period_start)),
+      period_end: firstValue(infos.map(info => info.period_end)),
+      language: firstValue(infos.map(info => info.language)),
+    },
+    accounts,
+  };
+}
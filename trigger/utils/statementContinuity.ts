@@ -0,0 +1,221 @@
+import type { DbClient } from "./db";
+import type { AccountContinuity } from "../types/domain";
+import { approxEqual, round2 } from "./validationReport";
+
+// ============================================================================
+// STATEMENT CONTINUITY PER ACCOUNT
+// ============================================================================
+// Consecutive statements of one account should tile time without holes or
+// overlaps, and each closing balance should be the next opening balance.
+// Works on the statements table; periods are compared as whole days.
+
+const BALANCE_TOLERANCE = 0.01;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StatementPeriod {
+  doc_id: string;
+  account: string;
+  currency: string | null;
+  period_start: string; // YYYY-MM-DD
+  period_end: string;
+  opening_balance: number | null;
+  closing_balance: number | null;
+}
+
+function toDay(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+}
+
+function fromDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * YYYY-MM of every month lying entirely inside the inclusive day range. A gap
+ * is never covered by any statement, so these months have no statement at
+ * all; a gap of a few days at a month edge reports none (see `gaps`).
+ */
+function monthsWithin(from: string, to: string): string[] {
+  const months: string[] = [];
+  const first = new Date(`${from}T00:00:00Z`);
+  // First month starting on or after `from`
+  let year = first.getUTCFullYear();
+  let month = first.getUTCMonth() + (first.getUTCDate() === 1 ? 0 : 1);
+  for (;;) {
+    const start = new Date(Date.UTC(year, month, 1));
+    const end = new Date(Date.UTC(year, month + 1, 0));
+    if (end.toISOString().slice(0, 10) > to) return months;
+    months.push(start.toISOString().slice(0, 7));
+    month++;
+  }
+}
+
+/**
+ * Last day of the last complete calendar month before `today`
+ */
+function lastCompleteMonthEnd(today: Date): string {
+  return new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 0))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Gaps, overlaps and balance mismatches for the statements of one account.
+ * Missing months include the complete months after the latest statement,
+ * up to the month before `today`.
+ */
+export function analyzeAccountContinuity(
+  periods: StatementPeriod[],
+  today: Date = new Date()
+): AccountContinuity {
+  const sorted = [...periods].sort(
+    (a, b) =>
+      a.period_start.localeCompare(b.period_start) ||
+      a.period_end.localeCompare(b.period_end)
+  );
+
+  const result: AccountContinuity = {
+    account: sorted[0].account,
+    currency: sorted[0].currency,
+    statementCount: sorted.length,
+    coveredFrom: sorted[0].period_start,
+    coveredTo: sorted[0].period_end,
+    gaps: [],
+    overlaps: [],
+    balanceMismatches: [],
+    missingMonths: [],
+  };
+
+  // Statement reaching furthest so far; compare each next one against it
+  let latest = sorted[0];
+  for (const next of sorted.slice(1)) {
+    const latestEnd = toDay(latest.period_end);
+    const nextStart = toDay(next.period_start);
+
+    if (nextStart > latestEnd + 1) {
+      const from = fromDay(latestEnd + 1);
+      const to = fromDay(nextStart - 1);
+      result.gaps.push({
+        from,
+        to,
+        afterDocId: latest.doc_id,
+        beforeDocId: next.doc_id,
+      });
+      result.missingMonths.push(...monthsWithin(from, to));
+    } else if (nextStart <= latestEnd) {
+      result.overlaps.push({
+        from: next.period_start,
+        to: fromDay(Math.min(latestEnd, toDay(next.period_end))),
+        docIds: [latest.doc_id, next.doc_id],
+      });
+    } else if (
+      latest.closing_balance !== null &&
+      next.opening_balance !== null &&
+      !approxEqual(
+        latest.closing_balance,
+        next.opening_balance,
+        BALANCE_TOLERANCE
+      )
+    ) {
+      // Only adjacent statements are expected to chain their balances
+      result.balanceMismatches.push({
+        previousDocId: latest.doc_id,
+        nextDocId: next.doc_id,
+        closingBalance: latest.closing_balance,
+        openingBalance: next.opening_balance,
+        difference: round2(next.opening_balance - latest.closing_balance),
+      });
+    }
+
+    if (toDay(next.period_end) >= latestEnd) {
+      latest = next;
+    }
+  }
+
+  result.coveredTo = latest.period_end;
+
+  // Statements not received yet; the current month is not over
+  const monthEnd = lastCompleteMonthEnd(today);
+  if (latest.period_end < monthEnd) {
+    result.missingMonths.push(
+      ...monthsWithin(fromDay(toDay(latest.period_end) + 1), monthEnd)
+    );
+  }
+  result.missingMonths = [...new Set(result.missingMonths)];
+  return result;
+}
+
+/**
+ * Account key as built by loadStatementPeriods: the IBAN without spaces, or
+ * "account:" and the account number when there is no IBAN
+ */
+export function statementAccountKey(account: {
+  iban?: string | null;
+  accountNumber?: string | null;
+}): string | null {
+  const iban = account.iban?.replace(/\s/g, "").toUpperCase();
+  if (iban) return iban;
+  const number = account.accountNumber?.replace(/\s/g, "").toUpperCase();
+  return number ? `account:${number}` : null;
+}
+
+/**
+ * Statement periods grouped by account and currency, so the sub-accounts of
+ * a multi-currency IBAN are not chained into each other. Accounts are keyed
+ * by IBAN without spaces, falling back to the account number; statements
+ * without a currency join their account's only currency. Statements without
+ * a period cannot be placed and are skipped.
+ */
+export async function loadStatementPeriods(
+  sql: DbClient,
+  account?: string
+): Promise<Map<string, StatementPeriod[]>> {
+  const rows = await sql<StatementPeriod[]>`
+    SELECT *
+    FROM (
+      SELECT
+        s.doc_id,
+        CASE
+          WHEN s.iban IS NOT NULL AND s.iban <> ''
+            THEN upper(regexp_replace(s.iban, '\\s', '', 'g'))
+          ELSE 'account:' || upper(regexp_replace(s.account_number, '\\s', '', 'g'))
+        END AS account,
+        upper(nullif(trim(s.currency), '')) AS currency,
+        s.period_start::text AS period_start,
+        s.period_end::text AS period_end,
+        s.opening_balance::float8 AS opening_balance,
+        s.closing_balance::float8 AS closing_balance
+      FROM statements s
+      JOIN income_registry r ON r.doc_id = s.doc_id
+      WHERE s.period_start IS NOT NULL
+        AND s.period_end IS NOT NULL
+        AND (
+          (s.iban IS NOT NULL AND s.iban <> '')
+          OR (s.account_number IS NOT NULL AND s.account_number <> '')
+        )
+        AND r.status NOT IN ('duplicate', 'suspected_duplicate')
+    ) periods
+    WHERE ${account ?? null}::text IS NULL OR account = ${account ?? null}
+    ORDER BY account, period_start
+  `;
+
+  const currenciesByAccount = new Map<string, Set<string>>();
+  for (const row of rows) {
+    if (!row.currency) continue;
+    const currencies = currenciesByAccount.get(row.account) ?? new Set();
+    currencies.add(row.currency);
+    currenciesByAccount.set(row.account, currencies);
+  }
+
+  const byAccount = new Map<string, StatementPeriod[]>();
+  for (const row of rows) {
+    const currencies = [...(currenciesByAccount.get(row.account) ?? [])];
+    const currency =
+      row.currency ?? (currencies.length === 1 ? currencies[0] : null);
+    const key = `${row.account}|${currency ?? ""}`;
+    const periods = byAccount.get(key) ?? [];
+    periods.push({ ...row, currency });
+    byAccount.set(key, periods);
+  }
+  return byAccount;
+}
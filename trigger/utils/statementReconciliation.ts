@@ -0,0 +1,193 @@
+import type {
+  BalanceReconciliation,
+  DerivedField,
+  StatementAccount,
+  StatementData,
+  ValidationIssue,
+  ValidationReport,
+} from "../types/domain";
+import { approxEqual, buildValidationReport, round2 } from "./validationReport";
+
+// ============================================================================
+// BANK STATEMENT BALANCE RECONCILIATION
+// ============================================================================
+// opening_balance + sum(amounts) must equal closing_balance, and every
+// printed running balance must follow from the previous one. A break in the
+// chain usually means the model skipped a row, invented one, or misread an
+// amount or its sign.
+
+// Statement amounts are exact to the cent; this only absorbs float noise
+const BALANCE_TOLERANCE = 0.01;
+
+/**
+ * Check the balances of one account section. Pure function of the extracted
+ * data, so persistence can recompute the summary stored on its statements row.
+ */
+export function reconcileStatementBalances(
+  account: StatementAccount
+): BalanceReconciliation {
+  const { opening_balance: opening, closing_balance: closing } = account;
+  const transactions = account.transactions;
+
+  // Running balance chain. After a break, continue from the printed balance
+  // so that one missing row is reported once rather than on every later row.
+  const chainBreaks: BalanceReconciliation["chainBreaks"] = [];
+  let previous: number | null = opening;
+  transactions.forEach((transaction, index) => {
+    const expected =
+      previous === null ? null : round2(previous + transaction.amount);
+
+    if (transaction.balance === null) {
+      previous = expected;
+      return;
+    }
+
+    if (
+      expected !== null &&
+      !approxEqual(expected, transaction.balance, BALANCE_TOLERANCE)
+    ) {
+      const difference = round2(transaction.balance - expected);
+      chainBreaks.push({
+        index,
+        date: transaction.date,
+        description: transaction.description,
+        expected,
+        actual: transaction.balance,
+        difference,
+        // Balance moved by -amount: the amount's sign was misread
+        likelyCause: approxEqual(
+          difference,
+          -2 * transaction.amount,
+          BALANCE_TOLERANCE
+        )
+          ? "sign_flipped"
+          : "missing_or_extra_rows",
+      });
+    }
+    previous = transaction.balance;
+  });
+
+  const sum = round2(
+    transactions.reduce((acc, transaction) => acc + transaction.amount, 0)
+  );
+  const expectedClosing = opening === null ? null : round2(opening + sum);
+  const difference =
+    expectedClosing === null || closing === null
+      ? null
+      : round2(closing - expectedClosing);
+
+  let status: BalanceReconciliation["status"];
+  if (difference === null) {
+    status = "incomplete";
+  } else if (
+    Math.abs(difference) <= BALANCE_TOLERANCE &&
+    chainBreaks.length === 0
+  ) {
+    status = "reconciled";
+  } else {
+    status = "unreconciled";
+  }
+
+  return {
+    status,
+    transactionSum: sum,
+    expectedClosing,
+    difference,
+    tolerance: BALANCE_TOLERANCE,
+    chainBreaks,
+  };
+}
+
+/**
+ * Fill opening/closing balances that follow from the printed running
+ * balances, then reconcile. Findings are appended with `path` as prefix.
+ */
+function validateAccountSection(
+  account: StatementAccount,
+  path: string,
+  issues: ValidationIssue[],
+  derived: DerivedField[]
+): void {
+  const first = account.transactions[0];
+  const last = account.transactions[account.transactions.length - 1];
+
+  if (account.opening_balance === null && first && first.balance !== null) {
+    account.opening_balance = round2(first.balance - first.amount);
+    derived.push({
+      path: `${path}.opening_balance`,
+      value: account.opening_balance,
+      rule: "transactions[0].balance - transactions[0].amount",
+    });
+  }
+  if (account.closing_balance === null && last && last.balance !== null) {
+    account.closing_balance = last.balance;
+    derived.push({
+      path: `${path}.closing_balance`,
+      value: account.closing_balance,
+      rule: "last transaction balance",
+    });
+  }
+
+  const reconciliation = reconcileStatementBalances(account);
+
+  if (reconciliation.status === "incomplete") {
+    issues.push({
+      check: "balance_reconciliation",
+      severity: "warning",
+      path,
+      message:
+        "Opening or closing balance missing - the account cannot be reconciled",
+      expected: null,
+      actual: null,
+      difference: null,
+      tolerance: reconciliation.tolerance,
+    });
+  } else if (
+    reconciliation.difference !== null &&
+    Math.abs(reconciliation.difference) > reconciliation.tolerance
+  ) {
+    issues.push({
+      check: "balance_reconciliation",
+      severity: "error",
+      path: `${path}.closing_balance`,
+      message:
+        "Opening balance plus the sum of transactions does not equal the closing balance",
+      expected: reconciliation.expectedClosing,
+      actual: account.closing_balance,
+      difference: reconciliation.difference,
+      tolerance: reconciliation.tolerance,
+    });
+  }
+
+  for (const chainBreak of reconciliation.chainBreaks) {
+    issues.push({
+      check: "running_balance",
+      severity: "error",
+      path: `${path}.transactions.${chainBreak.index}.balance`,
+      message: `Running balance breaks at row ${chainBreak.index + 1} (${chainBreak.date ?? "no date"}, "${chainBreak.description}")${chainBreak.likelyCause === "sign_flipped" ? " - the amount's sign looks wrong" : " - rows may be missing, extra or misread"}`,
+      expected: chainBreak.expected,
+      actual: chainBreak.actual,
+      difference: chainBreak.difference,
+      tolerance: reconciliation.tolerance,
+    });
+  }
+}
+
+/**
+ * Reconcile every account section of a statement on its own; any
+ * unreconciled section fails validation
+ */
+export function validateStatement(statement: StatementData): {
+  data: StatementData;
+  report: ValidationReport;
+} {
+  const data: StatementData = structuredClone(statement);
+  const derived: DerivedField[] = [];
+  const issues: ValidationIssue[] = [];
+
+  data.accounts.forEach((account, index) => {
+    validateAccountSection(account, `accounts.${index}`, issues, derived);
+  });
+
+  return { data, report: buildValidationReport(issues, derived) };
+}
@@ -1,16 +1,18 @@
-import type { ClassificationResult } from "../types/domain";
+import type { DocumentType } from "../types/domain";
+import {
+  getDocumentType,
+  MULTI_DOCUMENT_TYPE,
+  MULTI_DOCUMENT_STORAGE_FOLDER,
+  UNKNOWN_STORAGE_FOLDER,
+} from "../documentTypes";
 
-export type DocumentType = ClassificationResult["documentType"];
-
-const DOCUMENT_FOLDER_MAP: Record<DocumentType, string> = {
-  invoice: "invoices",
-  bank_statement: "statements",
-  government_letter: "letters",
-  unknown: "unknown",
-};
+export type { DocumentType } from "../types/domain";
 
 export function getDocumentFolder(documentType: DocumentType): string {
-  return DOCUMENT_FOLDER_MAP[documentType] ?? DOCUMENT_FOLDER_MAP.unknown;
+  if (documentType === MULTI_DOCUMENT_TYPE) {
+    return MULTI_DOCUMENT_STORAGE_FOLDER;
+  }
+  return getDocumentType(documentType)?.storageFolder ?? UNKNOWN_STORAGE_FOLDER;
 }
 
 export function buildDocumentStoragePath(options: {
@@ -0,0 +1,59 @@
+import type {
+  DerivedField,
+  ValidationIssue,
+  ValidationReport,
+} from "../types/domain";
+
+/**
+ * Round a currency amount to cents
+ */
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compare amounts within a tolerance, ignoring floating point noise
+ */
+export function approxEqual(a: number, b: number, tolerance: number): boolean {
+  return Math.abs(a - b) <= tolerance + Number.EPSILON * 100;
+}
+
+/**
+ * Summarize validation issues: any error fails the document (it goes to
+ * "needs_review"), warnings alone are recorded but do not block it
+ */
+export function buildValidationReport(
+  issues: ValidationIssue[],
+  derived: DerivedField[]
+): ValidationReport {
+  const status = issues.some(issue => issue.severity === "error")
+    ? "failed"
+    : issues.length > 0
+      ? "warnings"
+      : "passed";
+
+  return { status, issues, derived };
+}
+
+/**
+ * Run several validators in order, each on the previous one's output, and
+ * merge their reports
+ */
+export function combineValidators<TData>(
+  ...validators: Array<
+    (data: TData) => { data: TData; report: ValidationReport }
+  >
+): (data: TData) => { data: TData; report: ValidationReport } {
+  return data => {
+    const issues: ValidationIssue[] = [];
+    const derived: DerivedField[] = [];
+    let current = data;
+    for (const validator of validators) {
+      const result = validator(current);
+      current = result.data;
+      issues.push(...result.report.issues);
+      derived.push(...result.report.derived);
+    }
+    return { data: current, report: buildValidationReport(issues, derived) };
+  };
+}
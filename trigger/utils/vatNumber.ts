@@ -0,0 +1,333 @@
+import { mod97 } from "./iban";
+
+// ============================================================================
+// VAT NUMBER VALIDATION (offline)
+// ============================================================================
+// Format per EU member state (plus GB and CH, which appear on many invoices)
+// and the published check digit algorithm of each. This does not prove the
+// number is registered - only VIES can - but catches misread digits.
+// Numbers without a check digit: 9-digit Czech birth numbers (issued before
+// 1954), Latvian personal codes issued since 2017, alphanumeric French keys
+// and GB government departments.
+
+type ChecksumFn = (body: string) => boolean;
+
+const digitsOf = (value: string) => [...value].map(Number);
+
+const weightedSum = (digits: number[], weights: number[]) =>
+  weights.reduce((sum, weight, index) => sum + weight * digits[index], 0);
+
+/**
+ * Luhn check over a digit string including its check digit
+ */
+function luhn(value: string): boolean {
+  let sum = 0;
+  digitsOf(value)
+    .reverse()
+    .forEach((digit, index) => {
+      const doubled = index % 2 === 1 ? digit * 2 : digit;
+      sum += doubled > 9 ? doubled - 9 : doubled;
+    });
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 7064 MOD 11,10 check digit over a digit string
+ */
+function mod11_10(value: string): number {
+  let product = 10;
+  for (const digit of digitsOf(value)) {
+    let sum = (digit + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (2 * sum) % 11;
+  }
+  const check = 11 - product;
+  return check === 10 ? 0 : check;
+}
+
+const CHECKSUMS: Record<string, ChecksumFn> = {
+  AT: body => {
+    const d = digitsOf(body.slice(1));
+    const crossSum = (n: number) => Math.floor(n / 10) + (n % 10);
+    const sum =
+      d[0] +
+      d[2] +
+      d[4] +
+      d[6] +
+      crossSum(d[1] * 2) +
+      crossSum(d[3] * 2) +
+      crossSum(d[5] * 2);
+    return (10 - ((sum + 4) % 10)) % 10 === d[7];
+  },
+  BE: body => 97 - (Number(body.slice(0, 8)) % 97) === Number(body.slice(8)),
+  BG: body => {
+    const d = digitsOf(body);
+    if (d.length === 9) {
+      // Legal entities; a second weight set when the first yields 10
+      let check = weightedSum(d, [1, 2, 3, 4, 5, 6, 7, 8]) % 11;
+      if (check === 10) check = weightedSum(d, [3, 4, 5, 6, 7, 8, 9, 10]) % 11;
+      return check % 10 === d[8];
+    }
+    // Personal number (EGN), foreigner number or other registrants
+    const personal = (weightedSum(d, [2, 4, 8, 5, 10, 9, 7, 3, 6]) % 11) % 10;
+    const foreigner = weightedSum(d, [21, 19, 17, 13, 11, 9, 7, 3, 1]) % 10;
+    const other = 11 - (weightedSum(d, [4, 3, 2, 7, 6, 5, 4, 3, 2]) % 11);
+    return [personal, foreigner, other === 11 ? 0 : other].includes(d[9]);
+  },
+  CY: body => {
+    // Digits at even positions are mapped through a table; the check is a letter
+    const table = [1, 0, 5, 7, 9, 13, 15, 17, 19, 21];
+    const sum = digitsOf(body.slice(0, 8)).reduce(
+      (total, digit, index) => total + (index % 2 === 0 ? table[digit] : digit),
+      0
+    );
+    return String.fromCharCode(65 + (sum % 26)) === body[8];
+  },
+  CZ: body => {
+    const d = digitsOf(body);
+    if (d.length === 8) {
+      // Legal entities
+      const check = (11 - (weightedSum(d, [8, 7, 6, 5, 4, 3, 2]) % 11)) % 11;
+      return (check === 0 ? 1 : check % 10) === d[7];
+    }
+    // Individuals use their birth number
+    if (d.length === 9) return true;
+    return (
+      Number(body) % 11 === 0 ||
+      (Number(body.slice(0, 9)) % 11 === 10 && d[9] === 0)
+    );
+  },
+  DE: body => mod11_10(body.slice(0, 8)) === Number(body[8]),
+  DK: body => weightedSum(digitsOf(body), [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0,
+  EE: body =>
+    weightedSum(digitsOf(body), [3, 7, 1, 3, 7, 1, 3, 7, 1]) % 10 === 0,
+  EL: body => {
+    const d = digitsOf(body);
+    const sum = weightedSum(d, [256, 128, 64, 32, 16, 8, 4, 2]);
+    return (sum % 11) % 10 === d[8];
+  },
+  ES: body => {
+    if (/^[\dKLMXYZ]/.test(body)) {
+      // Individuals (DNI, NIE): letter for the number mod 23; X/Y/Z stand
+      // for a leading 0/1/2, K/L/M are dropped
+      const number = /^[KLM]/.test(body)
+        ? body.slice(1, 8)
+        : body
+            .slice(0, 8)
+            .replace(/^[XYZ]/, letter => String("XYZ".indexOf(letter)));
+      return "TRWAGMYFPDXBNJZSQVHLCKE"[Number(number) % 23] === body[8];
+    }
+    // Legal entities (CIF): Luhn check digit over the seven digits, printed
+    // as the digit or as a letter
+    const digits = body.slice(1, 8);
+    const check = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9].find(c => luhn(digits + c))!;
+    return body[8] === String(check) || body[8] === "JABCDEFGHI"[check];
+  },
+  FI: body => {
+    const d = digitsOf(body);
+    const remainder = weightedSum(d, [7, 9, 10, 5, 8, 4, 2]) % 11;
+    if (remainder === 1) return false;
+    return (remainder === 0 ? 0 : 11 - remainder) === d[7];
+  },
+  FR: body => {
+    // Numeric keys are derived from the SIREN; alphanumeric keys (new
+    // numbering scheme) have no public algorithm
+    const key = body.slice(0, 2);
+    if (!/^\d{2}$/.test(key)) return true;
+    return (12 + 3 * (Number(body.slice(2)) % 97)) % 97 === Number(key);
+  },
+  GB: body => {
+    if (!/^\d{9}(\d{3})?$/.test(body)) return true; // Government departments
+    const d = digitsOf(body);
+    const sum =
+      weightedSum(d, [8, 7, 6, 5, 4, 3, 2]) + Number(body.slice(7, 9));
+    return sum % 97 === 0 || (sum + 55) % 97 === 0;
+  },
+  CH: body => {
+    const d = digitsOf(body);
+    const remainder = 11 - (weightedSum(d, [5, 4, 3, 2, 7, 6, 5, 4]) % 11);
+    return (remainder === 11 ? 0 : remainder) === d[8];
+  },
+  HR: body => mod11_10(body.slice(0, 10)) === Number(body[10]),
+  HU: body => weightedSum(digitsOf(body), [9, 7, 3, 1, 9, 7, 3, 1]) % 10 === 0,
+  IE: body => {
+    // Old format "1X23456A": the second character moves behind the digits
+    const number = /^\d[A-Z+*]/.test(body)
+      ? `0${body.slice(2, 7)}${body[0]}${body[7]}`
+      : body;
+    let sum = weightedSum(digitsOf(number.slice(0, 7)), [8, 7, 6, 5, 4, 3, 2]);
+    if (number.length === 9) sum += 9 * "WABCDEFGHI".indexOf(number[8]);
+    return "WABCDEFGHIJKLMNOPQRSTUV"[sum % 23] === number[7];
+  },
+  IT: body => luhn(body),
+  LT: body => {
+    // Weights 1-9 repeating; shifted by two when the first pass yields 10
+    const d = digitsOf(body.slice(0, -1));
+    const sumFrom = (start: number) =>
+      d.reduce(
+        (sum, digit, index) => sum + (1 + ((index + start) % 9)) * digit,
+        0
+      );
+    let check = sumFrom(0) % 11;
+    if (check === 10) check = sumFrom(2) % 11;
+    return check % 10 === Number(body.slice(-1));
+  },
+  LU: body => Number(body.slice(0, 6)) % 89 === Number(body.slice(6)),
+  LV: body => {
+    const d = digitsOf(body);
+    if (d[0] > 3) {
+      // Legal entities
+      return weightedSum(d, [9, 1, 4, 8, 3, 10, 2, 5, 7, 6, 1]) % 11 === 3;
+    }
+    // Personal codes; those issued since 2017 start with 32 and have none
+    if (body.startsWith("32")) return true;
+    const sum = weightedSum(d, [10, 5, 8, 4, 2, 1, 6, 3, 7, 9]);
+    return ((1 + sum) % 11) % 10 === d[10];
+  },
+  MT: body => {
+    const sum = weightedSum(digitsOf(body), [3, 4, 6, 7, 8, 9]);
+    return (37 - (sum % 37)) % 37 === Number(body.slice(6));
+  },
+  NL: body => {
+    // Classic numbers: mod 11 over the first nine digits. Sole proprietors
+    // since 2020: ISO 7064 mod 97 over "NL" + number.
+    const d = digitsOf(body.slice(0, 9));
+    const remainder = weightedSum(d, [9, 8, 7, 6, 5, 4, 3, 2]) % 11;
+    return (remainder !== 10 && remainder === d[8]) || mod97(`NL${body}`) === 1;
+  },
+  PL: body => {
+    const d = digitsOf(body);
+    const remainder = weightedSum(d, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11;
+    return remainder !== 10 && remainder === d[9];
+  },
+  PT: body => {
+    const d = digitsOf(body);
+    const check = 11 - (weightedSum(d, [9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+    return (check > 9 ? 0 : check) === d[8];
+  },
+  RO: body => {
+    // Numbers shorter than ten digits are padded on the left
+    const d = digitsOf(body.slice(0, -1).padStart(9, "0"));
+    const sum = weightedSum(d, [7, 5, 3, 2, 1, 7, 5, 3, 2]);
+    return ((sum * 10) % 11) % 10 === Number(body.slice(-1));
+  },
+  SE: body => luhn(body.slice(0, 10)),
+  SI: body => {
+    const d = digitsOf(body);
+    const check = 11 - (weightedSum(d, [8, 7, 6, 5, 4, 3, 2]) % 11);
+    if (check === 11) return false;
+    return (check === 10 ? 0 : check) === d[7];
+  },
+  SK: body => Number(body) % 11 === 0,
+};
+
+/**
+ * Number format after the country prefix
+ */
+const FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{10}01$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+  GB: /^(\d{9}|\d{12}|GD[0-4]\d{2}|HA[5-9]\d{2})$/,
+  CH: /^\d{9}(MWST|TVA|IVA)?$/,
+};
+
+// Prefixes people write that differ from the VAT prefix
+const PREFIX_ALIASES: Record<string, string> = { GR: "EL", CHE: "CH" };
+
+export type VatNumberCheck =
+  | { valid: true; vatNumber: string; country: string }
+  | { valid: false; vatNumber: string; reason: string };
+
+/**
+ * VAT prefix for an ISO country code (GR -> EL), null outside FORMATS
+ */
+export function vatCountry(country: string): string | null {
+  const code = country.toUpperCase();
+  const prefix = PREFIX_ALIASES[code] ?? code;
+  return FORMATS[prefix] ? prefix : null;
+}
+
+/**
+ * Uppercase, strip spaces/dots/dashes and map alias prefixes
+ * ("de 123.456.789" -> "DE123456789", "CHE-123.456.789 MWST" -> "CH123456789MWST").
+ * A number printed without its prefix gets `defaultCountry`'s when it has that
+ * country's format ("123456789", "DE" -> "DE123456789").
+ */
+export function normalizeVatNumber(
+  value: string,
+  defaultCountry?: string | null
+): string {
+  const compact = value.toUpperCase().replace(/[^A-Z0-9+*]/g, "");
+  for (const [alias, prefix] of Object.entries(PREFIX_ALIASES)) {
+    if (compact.startsWith(alias)) {
+      return prefix + compact.slice(alias.length);
+    }
+  }
+
+  const country = defaultCountry ? vatCountry(defaultCountry) : null;
+  if (
+    country &&
+    !FORMATS[compact.slice(0, 2)] &&
+    FORMATS[country].test(compact)
+  ) {
+    return country + compact;
+  }
+  return compact;
+}
+
+export function validateVatNumber(
+  value: string,
+  defaultCountry?: string | null
+): VatNumberCheck {
+  const vatNumber = normalizeVatNumber(value, defaultCountry);
+  const country = vatNumber.slice(0, 2);
+  const body = vatNumber.slice(2);
+
+  const format = FORMATS[country];
+  if (!/^[A-Z]{2}/.test(vatNumber) || !format) {
+    return {
+      valid: false,
+      vatNumber,
+      reason: "missing or unknown country prefix",
+    };
+  }
+  if (!format.test(body)) {
+    return {
+      valid: false,
+      vatNumber,
+      reason: `does not match the ${country} VAT number format`,
+    };
+  }
+
+  const checksum = CHECKSUMS[country];
+  if (checksum && !checksum(body)) {
+    return { valid: false, vatNumber, reason: "check digit does not match" };
+  }
+
+  return { valid: true, vatNumber, country };
+}
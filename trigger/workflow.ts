@@ -1,49 +1,312 @@
-import { task, idempotencyKeys } from "@trigger.dev/sdk";
+import { task, idempotencyKeys, type IdempotencyKey } from "@trigger.dev/sdk";
 import {
   registerDocument,
   downloadAndPrepare,
+  segmentDocument,
   classifyDocument,
   storeFile,
-  extractInvoiceData,
-  extractStatementData,
-  extractLetterData,
+  extractDocumentData,
   storeMetadata,
 } from "./tasks";
 import type {
   WorkflowInput,
   WorkflowOutput,
+  ClassificationPreset,
   ClassificationResult,
+  DocumentSourceRef,
+  DocumentType,
+  FileMetadata,
 } from "./types/domain";
+import {
+  getDocumentType,
+  getDocumentTypeFromFolderPath,
+  UNKNOWN_DOCUMENT_TYPE,
+  MULTI_DOCUMENT_TYPE,
+} from "./documentTypes";
+import { getSourceKey } from "./sources";
+import { parseTaskPayload, workflowInputSchema } from "./types/schemas";
 import { getLangfuseClient } from "./utils/langfuse";
 import { flushLangfuseTracing } from "./utils/langfuseInstrumentation";
 
-type DocumentType = ClassificationResult["documentType"];
-
-const DEFAULT_DOCUMENT_TYPE: DocumentType = "unknown";
+const DEFAULT_DOCUMENT_TYPE: DocumentType = UNKNOWN_DOCUMENT_TYPE;
 const DEFAULT_CONFIDENCE = 0;
 const DEFAULT_PDF_PATH = "";
+const IDEMPOTENCY_KEY_TTL = "10m";
 
-type ExtractInvoiceResult = Awaited<
-  ReturnType<typeof extractInvoiceData.triggerAndWait>
->;
-type ExtractStatementResult = Awaited<
-  ReturnType<typeof extractStatementData.triggerAndWait>
->;
-type ExtractLetterResult = Awaited<
-  ReturnType<typeof extractLetterData.triggerAndWait>
+type ExtractTaskResult = Awaited<
+  ReturnType<typeof extractDocumentData.triggerAndWait>
 >;
 
-type ExtractTaskResult =
-  | ExtractInvoiceResult
-  | ExtractStatementResult
-  | ExtractLetterResult;
+/**
+ * Document type preset by the Drive folder the file was found in: a
+ * subfolder naming a type (e.g. "Invoices/2025") before the inbox folder's
+ * default. Undefined leaves classification to Claude.
+ */
+function resolveFolderPreset(
+  payload: WorkflowInput
+): ClassificationPreset | undefined {
+  const fromPath = payload.sourcePath
+    ? getDocumentTypeFromFolderPath(payload.sourcePath)
+    : undefined;
+  if (fromPath) {
+    return {
+      documentType: fromPath.label,
+      reason: `Filed in inbox folder "${payload.sourcePath}"`,
+    };
+  }
+
+  const fromDefault = payload.documentTypeHint
+    ? getDocumentType(payload.documentTypeHint)
+    : undefined;
+  if (fromDefault) {
+    return {
+      documentType: fromDefault.label,
+      reason:
+        "Document type given at ingestion (inbox folder default, upload or CLI)",
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Steps 2-5 for one PDF in the inbox: classify, store, extract, store
+ * metadata. Runs once per workflow, or once per child of a split document.
+ */
+async function processInboxDocument(input: {
+  orchestratorId: string;
+  docId: string;
+  registryId: string;
+  source?: DocumentSourceRef; // Only the original file is acknowledged in its source
+  fileName: string;
+  storagePath: string;
+  originalStoragePath?: string;
+  metadata: FileMetadata;
+  idempotencyKey: IdempotencyKey;
+  parentDocId?: string;
+  preset?: ClassificationPreset;
+}): Promise<WorkflowOutput> {
+  const { orchestratorId } = input;
+
+  // ========================================================================
+  // STEP 2: Classify document using Claude AI
+  // ========================================================================
+  console.log(`[${orchestratorId}] 🤖 STEP 2: Classifying document...`);
+  const classify = await classifyDocument.triggerAndWait(
+    {
+      docId: input.docId,
+      storagePath: input.storagePath,
+      metadata: input.metadata,
+      langfuseTraceId: input.docId,
+      preset: input.preset,
+    },
+    {
+      idempotencyKey: input.idempotencyKey,
+      idempotencyKeyTTL: IDEMPOTENCY_KEY_TTL,
+    }
+  );
+
+  // Classification failure is not fatal - default to "unknown"
+  const classificationResult: ClassificationResult | null = classify.ok
+    ? classify.output
+    : null;
+
+  const documentType: DocumentType =
+    classificationResult?.documentType ?? DEFAULT_DOCUMENT_TYPE;
+  const confidence = classificationResult?.confidence ?? DEFAULT_CONFIDENCE;
+  const claudeFileId = classificationResult?.claudeFileId ?? null;
+
+  if (!classify.ok) {
+    console.log(
+      `[${orchestratorId}] ⚠️  Classification failed, defaulting to "unknown"`
+    );
+  } else {
+    console.log(`[${orchestratorId}] ✅ Classification completed`);
+    console.log(`[${orchestratorId}] - Document Type: ${documentType}`);
+    console.log(`[${orchestratorId}] - Confidence: ${confidence.toFixed(2)}`);
+  }
+  console.log();
+
+  // ========================================================================
+  // STEP 3: Store file to Supabase Storage (SAFE POINT!)
+  // ========================================================================
+  console.log(
+    `[${orchestratorId}] 💾 STEP 3: Moving file to permanent location...`
+  );
+  console.log(`[${orchestratorId}] ⚠️  CRITICAL STEP: This is the SAFE POINT!`);
+  const storeResult = await storeFile.triggerAndWait(
+    {
+      docId: input.docId,
+      source: input.source,
+      storagePath: input.storagePath,
+      originalStoragePath: input.originalStoragePath,
+      fileName: input.fileName,
+      documentType,
+      metadata: input.metadata,
+    },
+    {
+      idempotencyKey: input.idempotencyKey,
+      idempotencyKeyTTL: IDEMPOTENCY_KEY_TTL,
+    }
+  );
+
+  if (!storeResult.ok) {
+    console.log(`[${orchestratorId}] ❌ CRITICAL ERROR: File storage failed`);
+    console.log(`[${orchestratorId}] Error: ${storeResult.error}`);
+    console.log(
+      `[${orchestratorId}] Cannot continue safely without file in permanent storage.`
+    );
+    console.log(`[${orchestratorId}] Workflow terminated.\n`);
+
+    throw new Error(`File storage failed: ${storeResult.error}`);
+  }
+
+  console.log(`[${orchestratorId}] ✅ File stored successfully!`);
+  console.log(`[${orchestratorId}] 🎉 SAFE POINT REACHED!`);
+  console.log(
+    `[${orchestratorId}] - Storage Path: ${storeResult.output.storagePath}`
+  );
+  console.log(
+    `[${orchestratorId}] - Inbox Cleaned: ${storeResult.output.deletedFromInbox}`
+  );
+  console.log(`[${orchestratorId}] - Document is now persistent and safe`);
+  console.log(
+    `[${orchestratorId}] - Can safely retry extraction/metadata operations\n`
+  );
+
+  // ========================================================================
+  // STEP 4: Extract data (type-specific, skip if unknown/low confidence)
+  // ========================================================================
+  let extractResult: ExtractTaskResult | null = null;
+  let extractionError: string | null = null;
+
+  const documentDefinition = getDocumentType(documentType);
+
+  if (documentDefinition && confidence >= 0.8) {
+    console.log(`[${orchestratorId}] 🔍 STEP 4: Extracting structured data...`);
+    console.log(`[${orchestratorId}] Document type: ${documentType}`);
+
+    extractResult = await extractDocumentData.triggerAndWait(
+      {
+        docId: input.docId,
+        documentType,
+        claudeFileId,
+        fileName: input.fileName,
+        storagePath: storeResult.output.storagePath ?? undefined,
+        langfuseTraceId: input.docId,
+      },
+      {
+        idempotencyKey: input.idempotencyKey,
+        idempotencyKeyTTL: IDEMPOTENCY_KEY_TTL,
+      }
+    );
+    if (extractResult.ok) {
+      console.log(
+        `[${orchestratorId}] ✅ ${documentDefinition.label} data extracted successfully`
+      );
+    } else {
+      console.log(
+        `[${orchestratorId}] ❌ ${documentDefinition.label} extraction failed: ${extractResult.error}`
+      );
+      extractionError = String(extractResult.error);
+    }
+    console.log();
+  } else {
+    console.log(`[${orchestratorId}] ⏭️  STEP 4: Skipping extraction`);
+    console.log(
+      `[${orchestratorId}] Reason: ${documentDefinition ? `Low confidence (${confidence.toFixed(2)} < 0.8)` : `No registered document type for "${documentType}"`}`
+    );
+    console.log();
+  }
+
+  // ========================================================================
+  // STEP 5: Store metadata to Supabase
+  // ========================================================================
+  console.log(`[${orchestratorId}] 💿 STEP 5: Storing metadata...`);
+  const metadataResult = await storeMetadata.triggerAndWait(
+    {
+      docId: input.docId,
+      documentType,
+      classification: classificationResult,
+      extractedData: extractResult?.ok ? extractResult.output : null,
+      extractionError,
+    },
+    {
+      idempotencyKey: input.idempotencyKey,
+      idempotencyKeyTTL: IDEMPOTENCY_KEY_TTL,
+    }
+  );
+
+  if (!metadataResult.ok) {
+    console.log(
+      `[${orchestratorId}] ❌ CRITICAL ERROR: Metadata storage failed`
+    );
+    console.log(`[${orchestratorId}] Error: ${metadataResult.error}`);
+    console.log(
+      `[${orchestratorId}] Note: PDF file is already safe in storage at: ${storeResult.output.storagePath}`
+    );
+    console.log(
+      `[${orchestratorId}] Throwing error to retry orchestrator from STEP 5...\n`
+    );
+
+    throw new Error(`Metadata storage failed: ${metadataResult.error}`);
+  }
+
+  console.log(`[${orchestratorId}] ✅ Metadata stored successfully`);
+  console.log(
+    `[${orchestratorId}] - Final Status: ${metadataResult.output.status}`
+  );
+  if (metadataResult.output.jsonStoragePath) {
+    console.log(
+      `[${orchestratorId}] - JSON Path: ${metadataResult.output.jsonStoragePath}`
+    );
+  }
+  console.log();
+
+  // ========================================================================
+  // DOCUMENT COMPLETED
+  // ========================================================================
+  console.log(`${"=".repeat(80)}`);
+  console.log(
+    `[${orchestratorId}] ✅ DOCUMENT ${input.docId} COMPLETED SUCCESSFULLY`
+  );
+  console.log(`${"=".repeat(80)}`);
+  console.log(`[${orchestratorId}] Summary:`);
+  console.log(`[${orchestratorId}] - Status: ${metadataResult.output.status}`);
+  console.log(`[${orchestratorId}] - Document Type: ${documentType}`);
+  console.log(`[${orchestratorId}] - Confidence: ${confidence.toFixed(2)}`);
+  console.log(
+    `[${orchestratorId}] - PDF Path: ${storeResult.output.storagePath}`
+  );
+  if (metadataResult.output.jsonStoragePath) {
+    console.log(
+      `[${orchestratorId}] - JSON Path: ${metadataResult.output.jsonStoragePath}`
+    );
+  }
+  console.log(
+    `[${orchestratorId}] - Inbox Cleaned: ${storeResult.output.deletedFromInbox}`
+  );
+  console.log(`${"=".repeat(80)}\n`);
+
+  return {
+    status: metadataResult.output.status,
+    documentType,
+    confidence,
+    registryId: input.registryId,
+    docId: input.docId,
+    pdfStoragePath: storeResult.output.storagePath ?? DEFAULT_PDF_PATH,
+    jsonStoragePath: metadataResult.output.jsonStoragePath,
+    inboxCleaned: storeResult.output.deletedFromInbox ?? false,
+    error: undefined,
+    parentDocId: input.parentDocId,
+    duplicateOf: metadataResult.output.duplicateOf,
+    duplicateScore: metadataResult.output.duplicateScore,
+  };
+}
 
 // ============================================================================
 // ORCHESTRATOR TASK: PROCESS DOCUMENT WORKFLOW
 // ============================================================================
 
-const IDEMPOTENCY_KEY_TTL = "10m";
-
 export const processDocumentWorkflow = task({
   id: "process-document-workflow",
   queue: {
@@ -56,19 +319,34 @@ export const processDocumentWorkflow = task({
     maxTimeoutInMs: 10000,
     randomize: false,
   },
-  run: async (payload: WorkflowInput): Promise<WorkflowOutput> => {
+  run: async (input: WorkflowInput): Promise<WorkflowOutput> => {
     const orchestratorId = "process-document-workflow";
+    const payload = parseTaskPayload(
+      workflowInputSchema,
+      input,
+      orchestratorId
+    );
+    const sourceKey = getSourceKey(payload.source);
     console.log(`\n${"=".repeat(80)}`);
     console.log(`[${orchestratorId}] 🚀 STARTING DOCUMENT PROCESSING WORKFLOW`);
     console.log(`${"=".repeat(80)}`);
     console.log(`[${orchestratorId}] File: ${payload.fileName}`);
-    console.log(`[${orchestratorId}] File ID: ${payload.fileId}`);
+    console.log(`[${orchestratorId}] Source: ${sourceKey}`);
     console.log(`[${orchestratorId}] MIME Type: ${payload.mimeType}`);
     console.log(`[${orchestratorId}] Created: ${payload.createdTime}`);
+    if (payload.sourcePath) {
+      console.log(`[${orchestratorId}] Folder: ${payload.sourcePath}`);
+    }
+    if (payload.source.kind === "email") {
+      const { provenance } = payload.source;
+      console.log(
+        `[${orchestratorId}] Email: "${provenance.subject ?? ""}" from ${provenance.from ?? "unknown sender"}`
+      );
+    }
     console.log(`${"=".repeat(80)}\n`);
 
-    // Create GLOBAL idempotency key (same across all runs for this fileId)
-    const idempotencyKey = await idempotencyKeys.create(payload.fileId, {
+    // Create GLOBAL idempotency key (same across all runs for this source file)
+    const idempotencyKey = await idempotencyKeys.create(sourceKey, {
       scope: "global",
     });
     console.log(
@@ -100,6 +378,17 @@ export const processDocumentWorkflow = task({
     // Create root trace span for the entire workflow using OpenTelemetry API
     const langfuseTraceId = docId;
 
+    const preset = resolveFolderPreset(payload);
+    if (preset) {
+      console.log(
+        `[${orchestratorId}] 📁 Document type preset: ${preset.documentType} (${preset.reason})\n`
+      );
+    } else if (payload.documentTypeHint) {
+      console.log(
+        `[${orchestratorId}] ⚠️  Unknown document type hint "${payload.documentTypeHint}" - classifying\n`
+      );
+    }
+
     // ========================================================================
     // STEP 1: Download file from Google Drive
     // ========================================================================
@@ -107,9 +396,10 @@ export const processDocumentWorkflow = task({
     const download = await downloadAndPrepare.triggerAndWait(
       {
         docId,
-        fileId: payload.fileId,
+        source: payload.source,
         fileName: payload.fileName,
         mimeType: payload.mimeType,
+        createdTime: payload.createdTime,
       },
       { idempotencyKey, idempotencyKeyTTL: IDEMPOTENCY_KEY_TTL }
     );
@@ -134,6 +424,27 @@ export const processDocumentWorkflow = task({
       };
     }
 
+    // Same content as an earlier document - nothing left to do
+    if (download.output.duplicateOf !== null) {
+      console.log(
+        `[${orchestratorId}] ⏭️  Duplicate of ${download.output.duplicateOf} (status: duplicate)`
+      );
+      console.log(`[${orchestratorId}] Workflow terminated.\n`);
+
+      return {
+        status: "duplicate",
+        documentType: DEFAULT_DOCUMENT_TYPE,
+        confidence: DEFAULT_CONFIDENCE,
+        registryId,
+        docId,
+        pdfStoragePath: DEFAULT_PDF_PATH,
+        jsonStoragePath: undefined,
+        inboxCleaned: false,
+        duplicateOf: download.output.duplicateOf,
+        duplicateScore: 1,
+      };
+    }
+
     console.log(`[${orchestratorId}] ✅ File downloaded and uploaded to inbox`);
     console.log(
       `[${orchestratorId}] - Storage Path: ${download.output.storagePath}`
@@ -143,10 +454,12 @@ export const processDocumentWorkflow = task({
     );
 
     // ========================================================================
-    // STEP 2: Classify document using Claude AI
+    // STEP 1b: Split multi-document PDFs (e.g. several invoices in one scan)
     // ========================================================================
-    console.log(`[${orchestratorId}] 🤖 STEP 2: Classifying document...`);
-    const classify = await classifyDocument.triggerAndWait(
+    console.log(
+      `[${orchestratorId}] ✂️  STEP 1b: Detecting document boundaries...`
+    );
+    const segmentation = await segmentDocument.triggerAndWait(
       {
         docId,
         storagePath: download.output.storagePath,
@@ -156,241 +469,136 @@ export const processDocumentWorkflow = task({
       { idempotencyKey, idempotencyKeyTTL: IDEMPOTENCY_KEY_TTL }
     );
 
-    // Classification failure is not fatal - default to "unknown"
-    const classificationResult: ClassificationResult | null = classify.ok
-      ? classify.output
-      : null;
+    // Segmentation failure is not fatal - process the file as one document
+    const { pageCount, segments } = segmentation.ok
+      ? segmentation.output
+      : { pageCount: 0, segments: [] };
+
+    if (segments.length <= 1) {
+      if (!segmentation.ok) {
+        console.log(
+          `[${orchestratorId}] ⚠️  Segmentation failed, processing as a single document`
+        );
+      } else {
+        console.log(`[${orchestratorId}] ✅ Single document\n`);
+      }
+
+      const workflowOutput = await processInboxDocument({
+        orchestratorId,
+        docId,
+        registryId,
+        source: payload.source,
+        fileName: payload.fileName,
+        storagePath: download.output.storagePath,
+        originalStoragePath: download.output.originalStoragePath,
+        metadata: download.output.metadata,
+        idempotencyKey,
+        preset,
+      });
 
-    const documentType: DocumentType =
-      classificationResult?.documentType ?? DEFAULT_DOCUMENT_TYPE;
-    const confidence = classificationResult?.confidence ?? DEFAULT_CONFIDENCE;
-    const claudeFileId = classificationResult?.claudeFileId ?? null;
+      // Flush Langfuse traces before returning
+      await flushLangfuseTracing();
 
-    if (!classify.ok) {
-      console.log(
-        `[${orchestratorId}] ⚠️  Classification failed, defaulting to "unknown"`
-      );
-    } else {
-      console.log(`[${orchestratorId}] ✅ Classification completed`);
-      console.log(`[${orchestratorId}] - Document Type: ${documentType}`);
-      console.log(`[${orchestratorId}] - Confidence: ${confidence.toFixed(2)}`);
+      return workflowOutput;
     }
-    console.log();
 
-    // ========================================================================
-    // STEP 3: Store file to Supabase Storage (SAFE POINT!)
-    // ========================================================================
     console.log(
-      `[${orchestratorId}] 💾 STEP 3: Moving file to permanent location...`
+      `[${orchestratorId}] ✅ Found ${segments.length} documents in ${pageCount} pages\n`
     );
+
+    // Store the original PDF as a whole; its registry row becomes the parent
     console.log(
-      `[${orchestratorId}] ⚠️  CRITICAL STEP: This is the SAFE POINT!`
+      `[${orchestratorId}] 💾 Storing original multi-document PDF...`
     );
-    const storeResult = await storeFile.triggerAndWait(
+    const parentStore = await storeFile.triggerAndWait(
       {
         docId,
-        fileId: payload.fileId,
+        source: payload.source,
         storagePath: download.output.storagePath,
+        originalStoragePath: download.output.originalStoragePath,
         fileName: payload.fileName,
-        documentType,
+        documentType: MULTI_DOCUMENT_TYPE,
         metadata: download.output.metadata,
       },
       { idempotencyKey, idempotencyKeyTTL: IDEMPOTENCY_KEY_TTL }
     );
 
-    if (!storeResult.ok) {
+    if (!parentStore.ok) {
       console.log(`[${orchestratorId}] ❌ CRITICAL ERROR: File storage failed`);
-      console.log(`[${orchestratorId}] Error: ${storeResult.error}`);
-      console.log(
-        `[${orchestratorId}] Cannot continue safely without file in permanent storage.`
-      );
-      console.log(`[${orchestratorId}] Workflow terminated.\n`);
-
-      throw new Error(`File storage failed: ${storeResult.error}`);
+      console.log(`[${orchestratorId}] Error: ${parentStore.error}`);
+      throw new Error(`File storage failed: ${parentStore.error}`);
     }
 
-    console.log(`[${orchestratorId}] ✅ File stored successfully!`);
-    console.log(`[${orchestratorId}] 🎉 SAFE POINT REACHED!`);
-    console.log(
-      `[${orchestratorId}] - Storage Path: ${storeResult.output.storagePath}`
-    );
-    console.log(
-      `[${orchestratorId}] - Inbox Cleaned: ${storeResult.output.deletedFromInbox}`
-    );
-    console.log(`[${orchestratorId}] - Document is now persistent and safe`);
     console.log(
-      `[${orchestratorId}] - Can safely retry extraction/metadata operations\n`
+      `[${orchestratorId}] ✅ Original stored at: ${parentStore.output.storagePath}\n`
     );
 
-    // ========================================================================
-    // STEP 4: Extract data (type-specific, skip if unknown/low confidence)
-    // ========================================================================
-    let extractResult: ExtractTaskResult | null = null;
-    let extractionError: string | null = null;
-
-    if (documentType !== "unknown" && confidence >= 0.8) {
+    // Each child runs the rest of the workflow with its own idempotency key
+    const children: WorkflowOutput[] = [];
+    for (const segment of segments) {
       console.log(
-        `[${orchestratorId}] 🔍 STEP 4: Extracting structured data...`
+        `[${orchestratorId}] 📄 Processing ${segment.docId} (pages ${segment.pageStart}-${segment.pageEnd})...\n`
       );
-      console.log(`[${orchestratorId}] Document type: ${documentType}`);
-
-      switch (documentType) {
-        case "invoice":
-          console.log(`[${orchestratorId}] Extracting invoice data...`);
-          extractResult = await extractInvoiceData.triggerAndWait(
-            {
-              docId,
-              claudeFileId,
-              fileName: payload.fileName,
-              langfuseTraceId,
-            },
-            { idempotencyKey, idempotencyKeyTTL: IDEMPOTENCY_KEY_TTL }
-          );
-          if (extractResult.ok) {
-            console.log(
-              `[${orchestratorId}] ✅ Invoice data extracted successfully`
-            );
-          } else {
-            console.log(
-              `[${orchestratorId}] ❌ Invoice extraction failed: ${extractResult.error}`
-            );
-            extractionError = String(extractResult.error);
-          }
-          break;
-
-        case "bank_statement":
-          console.log(`[${orchestratorId}] Extracting bank statement data...`);
-          extractResult = await extractStatementData.triggerAndWait(
-            {
-              docId,
-              claudeFileId,
-              fileName: payload.fileName,
-              langfuseTraceId,
-            },
-            { idempotencyKey, idempotencyKeyTTL: IDEMPOTENCY_KEY_TTL }
-          );
-          if (extractResult.ok) {
-            console.log(
-              `[${orchestratorId}] ✅ Statement data extracted successfully`
-            );
-          } else {
-            console.log(
-              `[${orchestratorId}] ❌ Statement extraction failed: ${extractResult.error}`
-            );
-            extractionError = String(extractResult.error);
-          }
-          break;
-
-        case "government_letter":
-          console.log(
-            `[${orchestratorId}] Extracting government letter data...`
-          );
-          extractResult = await extractLetterData.triggerAndWait(
-            {
-              docId,
-              claudeFileId,
-              fileName: payload.fileName,
-              langfuseTraceId,
-            },
-            { idempotencyKey, idempotencyKeyTTL: IDEMPOTENCY_KEY_TTL }
-          );
-          if (extractResult.ok) {
-            console.log(
-              `[${orchestratorId}] ✅ Letter data extracted successfully`
-            );
-          } else {
-            console.log(
-              `[${orchestratorId}] ❌ Letter extraction failed: ${extractResult.error}`
-            );
-            extractionError = String(extractResult.error);
-          }
-          break;
-      }
-      console.log();
-    } else {
-      console.log(`[${orchestratorId}] ⏭️  STEP 4: Skipping extraction`);
-      console.log(
-        `[${orchestratorId}] Reason: ${documentType === "unknown" ? "Unknown document type" : `Low confidence (${confidence.toFixed(2)} < 0.8)`}`
+
+      const childIdempotencyKey = await idempotencyKeys.create(segment.docId, {
+        scope: "global",
+      });
+
+      children.push(
+        await processInboxDocument({
+          orchestratorId,
+          docId: segment.docId,
+          registryId: segment.registryId,
+          fileName: segment.metadata.fileName,
+          storagePath: segment.storagePath,
+          metadata: segment.metadata,
+          idempotencyKey: childIdempotencyKey,
+          parentDocId: docId,
+          preset,
+        })
       );
-      console.log();
     }
 
-    // ========================================================================
-    // STEP 5: Store metadata to Supabase
-    // ========================================================================
-    console.log(`[${orchestratorId}] 💿 STEP 5: Storing metadata...`);
-    const metadataResult = await storeMetadata.triggerAndWait(
+    // Close the parent once every child has been processed
+    const parentMetadata = await storeMetadata.triggerAndWait(
       {
         docId,
-        documentType,
-        classification: classificationResult,
-        extractedData: extractResult?.ok ? extractResult.output : null,
-        extractionError,
+        documentType: MULTI_DOCUMENT_TYPE,
+        classification: null,
+        childDocIds: children.map(child => child.docId),
       },
       { idempotencyKey, idempotencyKeyTTL: IDEMPOTENCY_KEY_TTL }
     );
 
-    if (!metadataResult.ok) {
-      console.log(
-        `[${orchestratorId}] ❌ CRITICAL ERROR: Metadata storage failed`
-      );
-      console.log(`[${orchestratorId}] Error: ${metadataResult.error}`);
-      console.log(
-        `[${orchestratorId}] Note: PDF file is already safe in storage at: ${storeResult.output.storagePath}`
-      );
-      console.log(
-        `[${orchestratorId}] Throwing error to retry orchestrator from STEP 5...\n`
-      );
-
-      throw new Error(`Metadata storage failed: ${metadataResult.error}`);
+    if (!parentMetadata.ok) {
+      throw new Error(`Metadata storage failed: ${parentMetadata.error}`);
     }
 
-    console.log(`[${orchestratorId}] ✅ Metadata stored successfully`);
-    console.log(
-      `[${orchestratorId}] - Final Status: ${metadataResult.output.status}`
-    );
-    if (metadataResult.output.jsonStoragePath) {
-      console.log(
-        `[${orchestratorId}] - JSON Path: ${metadataResult.output.jsonStoragePath}`
-      );
-    }
-    console.log();
-
-    // ========================================================================
-    // WORKFLOW COMPLETED
-    // ========================================================================
     console.log(`${"=".repeat(80)}`);
     console.log(`[${orchestratorId}] ✅ WORKFLOW COMPLETED SUCCESSFULLY`);
     console.log(`${"=".repeat(80)}`);
     console.log(`[${orchestratorId}] Summary:`);
     console.log(
-      `[${orchestratorId}] - Status: ${metadataResult.output.status}`
+      `[${orchestratorId}] - Status: ${parentMetadata.output.status}`
     );
-    console.log(`[${orchestratorId}] - Document Type: ${documentType}`);
-    console.log(`[${orchestratorId}] - Confidence: ${confidence.toFixed(2)}`);
-    console.log(
-      `[${orchestratorId}] - PDF Path: ${storeResult.output.storagePath}`
-    );
-    if (metadataResult.output.jsonStoragePath) {
+    children.forEach(child => {
       console.log(
-        `[${orchestratorId}] - JSON Path: ${metadataResult.output.jsonStoragePath}`
+        `[${orchestratorId}] - ${child.docId}: ${child.status} (${child.documentType})`
       );
-    }
-    console.log(
-      `[${orchestratorId}] - Inbox Cleaned: ${storeResult.output.deletedFromInbox}`
-    );
+    });
     console.log(`${"=".repeat(80)}\n`);
 
-    const workflowOutput = {
-      status: metadataResult.output.status,
-      documentType,
-      confidence,
+    const workflowOutput: WorkflowOutput = {
+      status: "split",
+      documentType: MULTI_DOCUMENT_TYPE,
+      confidence: DEFAULT_CONFIDENCE,
       registryId,
       docId,
-      pdfStoragePath: storeResult.output.storagePath ?? DEFAULT_PDF_PATH,
-      jsonStoragePath: metadataResult.output.jsonStoragePath,
-      inboxCleaned: storeResult.output.deletedFromInbox ?? false,
+      pdfStoragePath: parentStore.output.storagePath ?? DEFAULT_PDF_PATH,
+      jsonStoragePath: undefined,
+      inboxCleaned: parentStore.output.deletedFromInbox ?? false,
       error: undefined,
+      children,
     };
 
     // Flush Langfuse traces before returning